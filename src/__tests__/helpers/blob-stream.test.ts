@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BlobVerifier } from '../../helpers/blob-stream';
+
+describe('BlobVerifier', () => {
+  const content = Buffer.from('hello blossom, this is a streamed blob');
+  const sha256 = createHash('sha256').update(content).digest('hex');
+  const chunks = [content.subarray(0, 10), content.subarray(10, 20), content.subarray(20)];
+
+  const collect = async (verifier: BlobVerifier, input: Buffer[]) => {
+    const output: Buffer[] = [];
+    await pipeline(Readable.from(input), verifier, async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) {
+        output.push(chunk);
+      }
+    });
+    return Buffer.concat(output);
+  };
+
+  it('should pass verified content through and report it', async () => {
+    const onVerified = jest.fn();
+    const verifier = new BlobVerifier({
+      sha256,
+      maxBytes: 1000,
+      collectMaxBytes: 1000,
+      onVerified,
+    });
+
+    expect(await collect(verifier, chunks)).toEqual(content);
+    expect(onVerified).toHaveBeenCalledWith(content);
+    expect(verifier.bytesReceived).toBe(content.length);
+  });
+
+  it('should not collect content larger than the collection limit', async () => {
+    const onVerified = jest.fn();
+    const verifier = new BlobVerifier({ sha256, maxBytes: 1000, collectMaxBytes: 15, onVerified });
+
+    await collect(verifier, chunks);
+
+    expect(onVerified).toHaveBeenCalledWith(null);
+  });
+
+  it('should hold back the last chunk when the hash does not match', async () => {
+    const output: Buffer[] = [];
+    const verifier = new BlobVerifier({
+      sha256: 'f'.repeat(64),
+      maxBytes: 1000,
+      collectMaxBytes: 0,
+    });
+    verifier.on('data', (chunk: Buffer) => output.push(chunk));
+
+    await expect(pipeline(Readable.from(chunks), verifier)).rejects.toThrow('SHA256 mismatch');
+    expect(Buffer.concat(output).length).toBeLessThan(content.length);
+  });
+
+  it('should fail when the size limit is exceeded', async () => {
+    const verifier = new BlobVerifier({ sha256, maxBytes: 15, collectMaxBytes: 0 });
+
+    await expect(collect(verifier, chunks)).rejects.toThrow('File too large');
+  });
+});
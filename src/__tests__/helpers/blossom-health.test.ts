@@ -0,0 +1,166 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+import { BlossomHealthTracker } from '../../helpers/blossom-health';
+
+describe('BlossomHealthTracker', () => {
+  let now: number;
+  let tracker: BlossomHealthTracker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    tracker = new BlossomHealthTracker(
+      { failureThreshold: 3, cooldownMs: 30000, rateLimitBackoffMs: 1000 },
+      () => now
+    );
+  });
+
+  describe('circuit breaker', () => {
+    it('should open after consecutive failures and half-open after the cooldown', () => {
+      tracker.recordFailure('https://a.com');
+      tracker.recordFailure('https://a.com');
+      expect(tracker.isAvailable('https://a.com')).toBe(true);
+
+      tracker.recordFailure('https://a.com');
+      expect(tracker.isAvailable('https://a.com')).toBe(false);
+      expect(tracker.getStats()['https://a.com'].state).toBe('open');
+
+      now += 30000;
+      expect(tracker.isAvailable('https://a.com')).toBe(true);
+      expect(tracker.getStats()['https://a.com'].state).toBe('half-open');
+    });
+
+    it('should close again after a successful trial request', () => {
+      for (let i = 0; i < 3; i++) tracker.recordFailure('https://a.com');
+      now += 30000;
+
+      tracker.recordSuccess('https://a.com', 120);
+
+      expect(tracker.getStats()['https://a.com']).toMatchObject({
+        state: 'closed',
+        consecutiveFailures: 0,
+      });
+    });
+
+    it('should re-open when the trial request fails', () => {
+      for (let i = 0; i < 3; i++) tracker.recordFailure('https://a.com');
+      now += 30000;
+
+      tracker.recordFailure('https://a.com');
+
+      expect(tracker.getStats()['https://a.com'].state).toBe('open');
+      now += 29999;
+      expect(tracker.isAvailable('https://a.com')).toBe(false);
+    });
+
+    it('should let a single trial request through while half-open', () => {
+      for (let i = 0; i < 3; i++) tracker.recordFailure('https://a.com');
+      now += 30000;
+
+      expect(tracker.startRequest('https://a.com')).toBe(true);
+      expect(tracker.startRequest('https://a.com')).toBe(false);
+      expect(tracker.order(['https://a.com'])).toEqual([]);
+
+      tracker.cancelRequest('https://a.com');
+      expect(tracker.startRequest('https://a.com')).toBe(true);
+
+      tracker.recordSuccess('https://a.com', 80);
+      expect(tracker.startRequest('https://a.com')).toBe(true);
+      expect(tracker.startRequest('https://a.com')).toBe(true);
+    });
+
+    it('should let another trial through when one never reports back', () => {
+      for (let i = 0; i < 3; i++) tracker.recordFailure('https://a.com');
+      now += 30000;
+      tracker.startRequest('https://a.com');
+
+      now += 30000;
+
+      expect(tracker.startRequest('https://a.com')).toBe(true);
+    });
+
+    it('should reset the failure count on success', () => {
+      tracker.recordFailure('https://a.com');
+      tracker.recordFailure('https://a.com');
+      tracker.recordSuccess('https://a.com', 50);
+      tracker.recordFailure('https://a.com');
+
+      expect(tracker.isAvailable('https://a.com')).toBe(true);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should honour Retry-After', () => {
+      tracker.recordRateLimit('https://a.com', 5000);
+
+      expect(tracker.isAvailable('https://a.com')).toBe(false);
+      now += 5000;
+      expect(tracker.isAvailable('https://a.com')).toBe(true);
+    });
+
+    it('should back off exponentially without Retry-After', () => {
+      tracker.recordRateLimit('https://a.com');
+      tracker.recordRateLimit('https://a.com');
+
+      expect(tracker.getStats()['https://a.com'].backoffUntil).toBe(now + 2000);
+    });
+  });
+
+  describe('order', () => {
+    it('should keep the given order among healthy servers', () => {
+      tracker.recordSuccess('https://b.com', 10);
+
+      expect(tracker.order(['https://a.com', 'https://b.com', 'https://c.com'])).toEqual([
+        'https://a.com',
+        'https://b.com',
+        'https://c.com',
+      ]);
+    });
+
+    it('should put degraded servers last and skip rate limited ones', () => {
+      tracker.recordSuccess('https://degraded.com', 10);
+      tracker.recordFailure('https://degraded.com');
+      tracker.recordFailure('https://degraded.com');
+      tracker.recordSuccess('https://tampering.com', 10);
+      tracker.recordSuccess('https://tampering.com', 10);
+      tracker.recordIntegrityFailure('https://tampering.com');
+      tracker.recordRateLimit('https://busy.com');
+
+      expect(
+        tracker.order([
+          'https://busy.com',
+          'https://degraded.com',
+          'https://tampering.com',
+          'https://good.com',
+        ])
+      ).toEqual(['https://good.com', 'https://tampering.com', 'https://degraded.com']);
+    });
+
+    it('should leave out servers with an open circuit', () => {
+      for (let i = 0; i < 3; i++) tracker.recordFailure('https://dead.com');
+
+      expect(tracker.order(['https://dead.com', 'https://a.com'])).toEqual(['https://a.com']);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report success rate and latency percentiles', () => {
+      for (let latency = 1; latency <= 100; latency++) {
+        tracker.recordSuccess('https://a.com', latency);
+      }
+      tracker.recordIntegrityFailure('https://a.com');
+
+      expect(tracker.getStats()['https://a.com']).toMatchObject({
+        requests: 101,
+        successRate: 0.99,
+        latencyMs: { p50: 50, p90: 90, p99: 99 },
+        integrityFailures: 1,
+      });
+      expect(tracker.getIntegrityFailures()).toEqual({ 'https://a.com': 1 });
+    });
+  });
+});
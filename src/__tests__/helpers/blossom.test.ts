@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { createHash } from 'crypto';
+import { PassThrough, Readable } from 'stream';
 
 // Mock all dependencies at the module level
 jest.mock('axios');
@@ -6,6 +8,9 @@ jest.mock('../../utils/cache', () => ({
   CacheService: {
     getFileContent: jest.fn(),
     setFileContent: jest.fn(),
+    getBlobURLs: jest.fn(),
+    addBlobServer: jest.fn(),
+    removeBlobServer: jest.fn(),
   },
 }));
 jest.mock('../../utils/config', () => ({
@@ -14,6 +19,12 @@ jest.mock('../../utils/config', () => ({
       getConfig: jest.fn().mockReturnValue({
         requestTimeoutMs: 30000,
         maxFileSizeMB: 50,
+        streamCacheMaxSize: 1024,
+        blossomFetchStrategy: 'sequential',
+        blossomHedgeDelayMs: 500,
+        blossomCircuitFailureThreshold: 5,
+        blossomCircuitCooldownMs: 30000,
+        blossomRateLimitBackoffMs: 10000,
       }),
     }),
   },
@@ -30,9 +41,11 @@ jest.mock('../../utils/logger', () => ({
 
 import { BlossomHelper } from '../../helpers/blossom';
 import { CacheService } from '../../utils/cache';
+import { ConfigManager } from '../../utils/config';
 import { logger } from '../../utils/logger';
 
 const mockedAxios = axios as jest.Mocked<typeof axios>;
+const sha256Of = (content: Uint8Array) => createHash('sha256').update(content).digest('hex');
 const mockedLogger = logger as jest.Mocked<typeof logger>;
 const mockedCacheService = CacheService as jest.Mocked<typeof CacheService>;
 
@@ -43,6 +56,11 @@ describe('BlossomHelper', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
+    mockedCacheService.getBlobURLs.mockResolvedValue(null);
+    mockedCacheService.addBlobServer.mockResolvedValue();
+    mockedCacheService.removeBlobServer.mockResolvedValue();
+    mockedAxios.isAxiosError.mockImplementation((error: any) => !!error?.response);
+
     // Mock config
     mockConfig = {
       requestTimeoutMs: 30000,
@@ -94,7 +112,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'styles.css'
       );
@@ -127,7 +145,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'script.js'
       );
@@ -164,7 +182,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'index.html'
       );
@@ -188,7 +206,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'styles.css'
       );
@@ -211,7 +229,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'readme.txt'
       );
@@ -234,7 +252,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(pngContent),
         ['https://test-server.com'],
         'image.png'
       );
@@ -256,7 +274,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'data.json'
       );
@@ -279,7 +297,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'styles.css'
       );
@@ -301,7 +319,7 @@ describe('BlossomHelper', () => {
       });
 
       const result = await blossomHelper.fetchFile(
-        'test-sha256',
+        sha256Of(content),
         ['https://test-server.com'],
         'file-no-extension'
       );
@@ -311,6 +329,306 @@ describe('BlossomHelper', () => {
     });
   });
 
+  describe('fetchFile integrity verification', () => {
+    const content = new TextEncoder().encode('body { color: red; }');
+    const sha256 = sha256Of(content);
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+    });
+
+    it('should reject mismatched content and fail over to the next server', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({
+          data: new TextEncoder().encode('tampered').buffer,
+          headers: { 'content-type': 'text/css' },
+          status: 200,
+        })
+        .mockResolvedValueOnce({
+          data: content.buffer,
+          headers: { 'content-type': 'text/css' },
+          status: 200,
+        });
+
+      const result = await blossomHelper.fetchFile(
+        sha256,
+        ['https://bad-server.com', 'https://good-server.com'],
+        'style.css'
+      );
+
+      expect(result?.content).toEqual(content);
+      expect(mockedAxios.get).toHaveBeenLastCalledWith(
+        `https://good-server.com/${sha256}`,
+        expect.anything()
+      );
+      expect(mockedCacheService.setFileContent).toHaveBeenCalledTimes(1);
+      expect(blossomHelper.getIntegrityFailures()).toEqual({ 'https://bad-server.com': 1 });
+    });
+
+    it('should return null when no server serves matching content', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: new TextEncoder().encode('tampered').buffer,
+        headers: { 'content-type': 'text/css' },
+        status: 200,
+      });
+
+      const result = await blossomHelper.fetchFile(sha256, ['https://bad-server.com'], 'a.css');
+
+      expect(result).toBeNull();
+      expect(mockedCacheService.setFileContent).not.toHaveBeenCalled();
+    });
+
+    it('should try servers with integrity failures last', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: new TextEncoder().encode('tampered').buffer,
+        headers: {},
+        status: 200,
+      });
+      await blossomHelper.fetchFile(sha256, ['https://bad-server.com'], 'a.css');
+
+      mockedAxios.get.mockClear();
+      mockedAxios.get.mockResolvedValueOnce({
+        data: content.buffer,
+        headers: { 'content-type': 'text/css' },
+        status: 200,
+      });
+
+      await blossomHelper.fetchFile(
+        sha256,
+        ['https://bad-server.com', 'https://good-server.com'],
+        'a.css'
+      );
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://good-server.com/${sha256}`,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('fetchFile coalescing', () => {
+    const content = new TextEncoder().encode('<html>index</html>');
+    const sha256 = sha256Of(content);
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+    });
+
+    it('should download a blob once for concurrent requests', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: content.buffer,
+        headers: { 'content-type': 'text/html' },
+        status: 200,
+      });
+
+      const results = await Promise.all(
+        [1, 2, 3].map(() =>
+          blossomHelper.fetchFile(sha256, ['https://server.com'], '/index.html')
+        )
+      );
+
+      expect(results.map((result) => result?.content)).toEqual([content, content, content]);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(blossomHelper.getStats().coalescing.downloads).toEqual({
+        calls: 3,
+        deduplicated: 2,
+        dedupRate: 0.667,
+        inFlight: 0,
+      });
+    });
+
+    it('should give each caller the content type of its own path', async () => {
+      mockedAxios.get.mockResolvedValue({ data: content.buffer, headers: {}, status: 200 });
+
+      const [html, text] = await Promise.all([
+        blossomHelper.fetchFile(sha256, ['https://server.com'], '/index.html'),
+        blossomHelper.fetchFile(sha256, ['https://server.com'], '/source.txt'),
+      ]);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(html?.contentType).toBe('text/html');
+      expect(text?.contentType).toBe('text/plain');
+    });
+  });
+
+  describe('known blob holders', () => {
+    const content = new TextEncoder().encode('{"known": true}');
+    const sha256 = sha256Of(content);
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+    });
+
+    it('should try servers known to hold the blob first and record the winner', async () => {
+      mockedCacheService.getBlobURLs.mockResolvedValue(['https://holder.com']);
+      mockedAxios.get.mockResolvedValueOnce({
+        data: content.buffer,
+        headers: { 'content-type': 'application/json' },
+        status: 200,
+      });
+
+      await blossomHelper.fetchFile(sha256, ['https://first.com', 'https://holder.com'], 'a.json');
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://holder.com/${sha256}`,
+        expect.anything()
+      );
+      expect(mockedCacheService.addBlobServer).toHaveBeenCalledWith(sha256, 'https://holder.com');
+    });
+
+    it('should evict servers that return 404', async () => {
+      mockedCacheService.getBlobURLs.mockResolvedValue(['https://stale.com']);
+      mockedAxios.get
+        .mockRejectedValueOnce({ response: { status: 404 }, message: 'Not Found' })
+        .mockResolvedValueOnce({
+          data: content.buffer,
+          headers: { 'content-type': 'application/json' },
+          status: 200,
+        });
+
+      const result = await blossomHelper.fetchFile(sha256, ['https://fresh.com'], 'a.json');
+
+      expect(result?.content).toEqual(content);
+      expect(mockedCacheService.removeBlobServer).toHaveBeenCalledWith(sha256, 'https://stale.com');
+      expect(mockedCacheService.addBlobServer).toHaveBeenCalledWith(sha256, 'https://fresh.com');
+    });
+  });
+
+  describe('server health', () => {
+    const content = new TextEncoder().encode('<svg></svg>');
+    const sha256 = sha256Of(content);
+    const okResponse = {
+      data: content.buffer,
+      headers: { 'content-type': 'image/svg+xml' },
+      status: 200,
+    };
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+    });
+
+    it('should open the circuit of a failing server and skip it', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      for (let i = 0; i < 5; i++) {
+        await blossomHelper.fetchFile(sha256, ['https://dead.com'], 'a.svg');
+      }
+
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValueOnce(okResponse);
+
+      const result = await blossomHelper.fetchFile(
+        sha256,
+        ['https://dead.com', 'https://alive.com'],
+        'a.svg'
+      );
+
+      expect(result?.content).toEqual(content);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://alive.com/${sha256}`,
+        expect.anything()
+      );
+
+      const { servers } = blossomHelper.getStats();
+      expect(servers['https://dead.com']).toMatchObject({
+        state: 'open',
+        consecutiveFailures: 5,
+        successRate: 0,
+      });
+      expect(servers['https://alive.com']).toMatchObject({ state: 'closed', successRate: 1 });
+    });
+
+    it('should back off from rate limited servers', async () => {
+      mockedAxios.get
+        .mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '60' } } })
+        .mockResolvedValueOnce(okResponse);
+      await blossomHelper.fetchFile(sha256, ['https://busy.com', 'https://other.com'], 'a.svg');
+
+      mockedAxios.get.mockClear();
+      mockedAxios.get.mockResolvedValueOnce(okResponse);
+      await blossomHelper.fetchFile(sha256, ['https://busy.com', 'https://other.com'], 'a.svg');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://other.com/${sha256}`,
+        expect.anything()
+      );
+      expect(blossomHelper.getStats().servers['https://busy.com']).toMatchObject({
+        rateLimited: 1,
+        backoffUntil: expect.any(Number),
+      });
+    });
+
+    it('should not count 404 responses against a server', async () => {
+      mockedAxios.get.mockRejectedValue({ response: { status: 404 }, message: 'Not Found' });
+
+      for (let i = 0; i < 6; i++) {
+        await blossomHelper.fetchFile(sha256, ['https://empty.com'], 'a.svg');
+      }
+
+      expect(blossomHelper.getStats().servers['https://empty.com']).toMatchObject({
+        state: 'closed',
+        successRate: 1,
+      });
+      mockedAxios.get.mockReset();
+    });
+  });
+
+  describe('fetchFile strategies', () => {
+    const content = new TextEncoder().encode('console.log("hedged");');
+    const sha256 = sha256Of(content);
+    const config = ConfigManager.getInstance().getConfig();
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+      config.blossomFetchStrategy = 'hedged';
+      config.blossomHedgeDelayMs = 20;
+    });
+
+    afterEach(() => {
+      config.blossomFetchStrategy = 'sequential';
+      mockedAxios.get.mockReset();
+    });
+
+    it('should hedge a slow server and cancel it once another one answers', async () => {
+      let slowSignal: AbortSignal | undefined;
+
+      mockedAxios.get.mockImplementation((url: string, options?: any) => {
+        if (url.startsWith('https://slow-server.com')) {
+          slowSignal = options.signal;
+          return new Promise(() => {});
+        }
+        return Promise.resolve({
+          data: content.buffer,
+          headers: { 'content-type': 'application/javascript' },
+          status: 200,
+        });
+      });
+
+      const result = await blossomHelper.fetchFile(
+        sha256,
+        ['https://slow-server.com', 'https://fast-server.com'],
+        'app.js'
+      );
+
+      expect(result?.content).toEqual(content);
+      expect(slowSignal?.aborted).toBe(true);
+      expect(mockedLogger.logBlossom).toHaveBeenCalledWith(
+        'fetchFile',
+        sha256,
+        'https://fast-server.com',
+        true,
+        expect.anything()
+      );
+    });
+  });
+
   describe('fetchFile error handling', () => {
     it('should handle network errors gracefully', async () => {
       mockedAxios.get.mockRejectedValueOnce(new Error('Network error'));
@@ -331,4 +649,179 @@ describe('BlossomHelper', () => {
       );
     });
   });
+
+  describe('streamFile', () => {
+    const content = Buffer.from('\x89PNG\r\n\x1a\n fake image bytes');
+    const sha256 = createHash('sha256').update(content).digest('hex');
+
+    const readAll = async (stream: Readable): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    const mockStreamResponse = (chunks: Buffer[], headers: Record<string, string> = {}) => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: Readable.from(chunks),
+        headers: { 'content-type': 'image/png', ...headers },
+        status: 200,
+      });
+    };
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      mockedCacheService.setFileContent.mockResolvedValue();
+    });
+
+    it('should stream verified content and tee it into the cache', async () => {
+      mockStreamResponse([content.subarray(0, 5), content.subarray(5)], {
+        'content-length': content.length.toString(),
+      });
+
+      const result = await blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png');
+
+      expect(result?.contentType).toBe('image/png');
+      expect(result?.contentLength).toBe(content.length);
+      expect(await readAll(result!.stream)).toEqual(content);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://test-server.com/${sha256}`,
+        expect.objectContaining({ responseType: 'stream' })
+      );
+      expect(mockedCacheService.setFileContent).toHaveBeenCalledWith(sha256, content);
+    });
+
+    it('should error the stream when the hash does not match', async () => {
+      mockStreamResponse([Buffer.from('tampered content')]);
+
+      const result = await blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png');
+
+      await expect(readAll(result!.stream)).rejects.toThrow('SHA256 mismatch');
+      expect(mockedCacheService.setFileContent).not.toHaveBeenCalled();
+      expect(blossomHelper.getIntegrityFailures()).toEqual({ 'https://test-server.com': 1 });
+    });
+
+    it('should try the next server when the declared size is too large', async () => {
+      mockStreamResponse([content], { 'content-length': (100 * 1024 * 1024).toString() });
+      mockStreamResponse([content]);
+
+      const result = await blossomHelper.streamFile(
+        sha256,
+        ['https://big.example.com', 'https://test-server.com'],
+        'a.png'
+      );
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      expect(await readAll(result!.stream)).toEqual(content);
+    });
+
+    it('should stream cached content without contacting servers', async () => {
+      mockedCacheService.getFileContent.mockResolvedValue(new Uint8Array(content));
+
+      const result = await blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png');
+
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+      expect(result?.contentLength).toBe(content.length);
+      expect(await readAll(result!.stream)).toEqual(content);
+    });
+
+    it('should share a running stream with concurrent requests once verified', async () => {
+      mockStreamResponse([content], { 'content-length': content.length.toString() });
+
+      const first = blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png');
+      const second = blossomHelper.streamFile(sha256, ['https://test-server.com'], 'b.png');
+
+      expect(await readAll((await first)!.stream)).toEqual(content);
+      const shared = await second;
+      expect(await readAll(shared!.stream)).toEqual(content);
+      expect(shared?.contentType).toBe('image/png');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(blossomHelper.getStats().coalescing.streams).toMatchObject({ deduplicated: 1 });
+    });
+
+    it('should open another stream when the running one has no declared length', async () => {
+      const upstream = new PassThrough();
+      upstream.write(content.subarray(0, 5));
+      mockedAxios.get.mockResolvedValueOnce({
+        data: upstream,
+        headers: { 'content-type': 'image/png' },
+        status: 200,
+      });
+      mockStreamResponse([content]);
+
+      const [first, second] = await Promise.all([
+        blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png'),
+        blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png'),
+      ]);
+      upstream.end(content.subarray(5));
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      expect(await readAll(first!.stream)).toEqual(content);
+      expect(await readAll(second!.stream)).toEqual(content);
+    });
+
+    it('should return null when no server can serve the file', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.png');
+
+      expect(result).toBeNull();
+      expect(mockedLogger.logBlossom).toHaveBeenCalledWith(
+        'streamFile',
+        sha256,
+        'https://test-server.com',
+        false,
+        expect.objectContaining({ error: 'Network error' })
+      );
+    });
+  });
+
+  describe('pinned blobs', () => {
+    const content = Buffer.from('<html>pinned</html>');
+    const sha256 = sha256Of(content);
+    let pinnedStore: { getBlob: jest.Mock };
+
+    beforeEach(() => {
+      mockedCacheService.getFileContent.mockResolvedValue(null);
+      pinnedStore = { getBlob: jest.fn().mockResolvedValue(new Uint8Array(content)) };
+      blossomHelper = new BlossomHelper(pinnedStore as any);
+    });
+
+    it('should serve pinned blobs without contacting servers', async () => {
+      const file = await blossomHelper.fetchFile(sha256, ['https://test-server.com'], 'a.html');
+      const stream = await blossomHelper.streamFile(sha256, ['https://test-server.com'], 'a.html');
+
+      expect(pinnedStore.getBlob).toHaveBeenCalledWith(sha256);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+      expect(file?.contentType).toBe('text/html');
+      expect(Buffer.from(file!.content)).toEqual(content);
+      expect(stream?.contentLength).toBe(content.length);
+    });
+
+    it('should fetch from servers when the blob is not pinned', async () => {
+      pinnedStore.getBlob.mockResolvedValue(null);
+      mockedAxios.get.mockRejectedValueOnce(new Error('Network error'));
+
+      expect(await blossomHelper.fetchFile(sha256, ['https://test-server.com'])).toBeNull();
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should download blobs for the store without caching them', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: content,
+        headers: { 'content-type': 'text/html' },
+      } as any);
+
+      const downloaded = await blossomHelper.downloadBlob(sha256, ['https://test-server.com']);
+
+      expect(Buffer.from(downloaded!)).toEqual(content);
+      expect(mockedCacheService.setFileContent).not.toHaveBeenCalled();
+      expect(pinnedStore.getBlob).not.toHaveBeenCalled();
+      expect(mockedCacheService.addBlobServer).toHaveBeenCalledWith(
+        sha256,
+        'https://test-server.com'
+      );
+    });
+  });
 });
@@ -72,6 +72,17 @@ describe('CacheInvalidationService', () => {
     mockCacheService.setBlobForPath = jest.fn().mockResolvedValue(undefined);
     mockCacheService.setRelaysForPubkey = jest.fn().mockResolvedValue(undefined);
     mockCacheService.setBlossomServersForPubkey = jest.fn().mockResolvedValue(undefined);
+    mockCacheService.setSiteManifest = jest.fn().mockResolvedValue(undefined);
+
+    // Deletion (NIP-09) bookkeeping
+    mockCacheService.getPathDeletion = jest.fn().mockResolvedValue(null);
+    mockCacheService.setPathDeletion = jest.fn().mockResolvedValue(true);
+    mockCacheService.getBlobForEvent = jest.fn().mockResolvedValue(null);
+    mockCacheService.setSiteDeletion = jest.fn().mockResolvedValue(true);
+    mockCacheService.getSiteManifest = jest.fn().mockResolvedValue(null);
+    mockCacheService.getBlobForPath = jest.fn().mockResolvedValue(null);
+    mockCacheService.getRelaysEntry = jest.fn().mockResolvedValue(null);
+    mockCacheService.getBlossomServersEntry = jest.fn().mockResolvedValue(null);
   });
 
   describe('Initialization', () => {
@@ -133,6 +144,7 @@ describe('CacheInvalidationService', () => {
           path: '/index.html',
           sha256: 'abcdef1234567890',
           created_at: mockEvent.created_at,
+          id: 'event-id',
         }
       );
       expect(logger.info).toHaveBeenCalledWith(
@@ -140,6 +152,343 @@ describe('CacheInvalidationService', () => {
       );
     });
 
+    it('should handle named site events and replace the site path table', async () => {
+      const mockEvent = {
+        pubkey: 'test-pubkey-site',
+        tags: [
+          ['d', 'blog'],
+          ['path', '/index.html', 'aaa111'],
+          ['path', '/about.html', 'bbb222'],
+        ],
+        kind: 35128,
+        created_at: Math.floor(Date.now() / 1000),
+        content: '',
+        id: 'site-event-id',
+        sig: 'signature',
+      };
+
+      const handleSiteManifestEvent = (service as any).handleSiteManifestEvent.bind(service);
+      await handleSiteManifestEvent(mockEvent);
+
+      expect(mockCacheService.setSiteManifest).toHaveBeenCalledWith(
+        'test-pubkey-site',
+        {
+          pubkey: 'test-pubkey-site',
+          identifier: 'blog',
+          paths: { '/index.html': 'aaa111', '/about.html': 'bbb222' },
+          created_at: mockEvent.created_at,
+          id: 'site-event-id',
+        },
+        'blog'
+      );
+    });
+
+    it('should handle root site manifest events', async () => {
+      const mockEvent = {
+        pubkey: 'test-pubkey-root',
+        tags: [['path', '/index.html', 'ccc333']],
+        kind: 15128,
+        created_at: Math.floor(Date.now() / 1000),
+        content: '',
+        id: 'manifest-event-id',
+        sig: 'signature',
+      };
+
+      const handleSiteManifestEvent = (service as any).handleSiteManifestEvent.bind(service);
+      await handleSiteManifestEvent(mockEvent);
+
+      expect(mockCacheService.setSiteManifest).toHaveBeenCalledWith(
+        'test-pubkey-root',
+        expect.objectContaining({ paths: { '/index.html': 'ccc333' } }),
+        undefined
+      );
+    });
+
+    it('should skip expired static file events (NIP-40)', async () => {
+      const mockEvent = {
+        pubkey: 'test-pubkey-123',
+        tags: [
+          ['d', '/campaign.html'],
+          ['x', 'abcdef1234567890'],
+          ['expiration', String(Math.floor(Date.now() / 1000) - 60)],
+        ],
+        kind: 34128,
+        created_at: Math.floor(Date.now() / 1000) - 3600,
+        content: '',
+        id: 'event-id',
+        sig: 'signature',
+      };
+
+      const handleStaticFileEvent = (service as any).handleStaticFileEvent.bind(service);
+      await handleStaticFileEvent(mockEvent);
+
+      expect(mockCacheService.setBlobForPath).not.toHaveBeenCalled();
+    });
+
+    it('should skip static file events older than a deletion of their path', async () => {
+      mockCacheService.getPathDeletion = jest.fn().mockResolvedValue(2000);
+      const mockEvent = {
+        pubkey: 'test-pubkey-123',
+        tags: [
+          ['d', '/index.html'],
+          ['x', 'abcdef1234567890'],
+        ],
+        kind: 34128,
+        created_at: 1000,
+        content: '',
+        id: 'event-id',
+        sig: 'signature',
+      };
+
+      const handleStaticFileEvent = (service as any).handleStaticFileEvent.bind(service);
+      await handleStaticFileEvent(mockEvent);
+
+      expect(mockCacheService.getPathDeletion).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        '/index.html'
+      );
+      expect(mockCacheService.setBlobForPath).not.toHaveBeenCalled();
+    });
+
+    it('should keep the newer mapping when an older event arrives after it', async () => {
+      const cached = new Map<string, any>();
+      mockCacheService.getBlobForPath = jest.fn(async (_pubkey, path) => cached.get(path) ?? null);
+      mockCacheService.setBlobForPath = jest.fn(async (_pubkey, path, mapping) => {
+        cached.set(path, mapping);
+      });
+      const event = (id: string, sha256: string, created_at: number) => ({
+        pubkey: 'test-pubkey-123',
+        tags: [
+          ['d', '/index.html'],
+          ['x', sha256],
+        ],
+        kind: 34128,
+        created_at,
+        content: '',
+        id,
+        sig: 'signature',
+      });
+
+      const handleStaticFileEvent = (service as any).handleStaticFileEvent.bind(service);
+      await handleStaticFileEvent(event('bbbb', 'new-hash', 2000));
+      await handleStaticFileEvent(event('cccc', 'old-hash', 1000));
+      // Same second: the lower id wins
+      await handleStaticFileEvent(event('cccc', 'tied-hash', 2000));
+
+      expect(mockCacheService.setBlobForPath).toHaveBeenCalledTimes(1);
+      expect(cached.get('/index.html')).toMatchObject({ sha256: 'new-hash', id: 'bbbb' });
+
+      await handleStaticFileEvent(event('aaaa', 'tie-winner', 2000));
+      expect(cached.get('/index.html')).toMatchObject({ sha256: 'tie-winner', id: 'aaaa' });
+    });
+
+    it('should not replace a site manifest with an older event', async () => {
+      mockCacheService.getSiteManifest = jest.fn().mockResolvedValue({
+        pubkey: 'test-pubkey-root',
+        paths: { '/index.html': 'new111' },
+        created_at: 2000,
+        id: 'newer-manifest',
+      });
+
+      const handleSiteManifestEvent = (service as any).handleSiteManifestEvent.bind(service);
+      await handleSiteManifestEvent({
+        pubkey: 'test-pubkey-root',
+        tags: [['path', '/index.html', 'old000']],
+        kind: 15128,
+        created_at: 1000,
+        content: '',
+        id: 'older-manifest',
+        sig: 'signature',
+      });
+
+      expect(mockCacheService.setSiteManifest).not.toHaveBeenCalled();
+    });
+
+    it('should handle deletion events by a coordinate and by event id', async () => {
+      mockCacheService.getBlobForEvent = jest.fn().mockImplementation(async (id: string) =>
+        id === 'app-event'
+          ? { pubkey: 'test-pubkey-123', path: '/app.js', sha256: 'abc', created_at: 900 }
+          : null
+      );
+      const mockEvent = {
+        pubkey: 'test-pubkey-123',
+        tags: [
+          ['a', '34128:test-pubkey-123:/index.html'],
+          ['a', '34128:other-pubkey:/index.html'],
+          ['e', 'app-event'],
+          ['e', 'unknown-event'],
+          ['k', '34128'],
+        ],
+        kind: 5,
+        created_at: 1000,
+        content: '',
+        id: 'deletion-id',
+        sig: 'signature',
+      };
+
+      const handleDeletionEvent = (service as any).handleDeletionEvent.bind(service);
+      await handleDeletionEvent(mockEvent);
+
+      expect(mockCacheService.setPathDeletion).toHaveBeenCalledTimes(2);
+      expect(mockCacheService.setPathDeletion).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        '/index.html',
+        1000
+      );
+      expect(mockCacheService.setPathDeletion).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        '/app.js',
+        900
+      );
+    });
+
+    it('should handle deletion events of site manifests', async () => {
+      mockCacheService.getSiteManifest = jest.fn().mockResolvedValue({
+        pubkey: 'test-pubkey-123',
+        paths: {},
+        created_at: 800,
+        id: 'root-manifest',
+      });
+      const mockEvent = {
+        pubkey: 'test-pubkey-123',
+        tags: [
+          ['a', '35128:test-pubkey-123:blog'],
+          ['e', 'root-manifest'],
+          ['k', '35128'],
+          ['k', '15128'],
+        ],
+        kind: 5,
+        created_at: 1000,
+        content: '',
+        id: 'deletion-id',
+        sig: 'signature',
+      };
+
+      const handleDeletionEvent = (service as any).handleDeletionEvent.bind(service);
+      await handleDeletionEvent(mockEvent);
+
+      expect(mockCacheService.setSiteDeletion).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        'blog',
+        1000
+      );
+      expect(mockCacheService.setSiteDeletion).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        undefined,
+        800
+      );
+      expect(mockCacheService.setPathDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should ignore deletion events of other authors and kinds', async () => {
+      mockCacheService.getBlobForEvent = jest.fn().mockResolvedValue({
+        pubkey: 'test-pubkey-123',
+        path: '/app.js',
+        sha256: 'abc',
+        created_at: 900,
+      });
+      const handleDeletionEvent = (service as any).handleDeletionEvent.bind(service);
+      const deletion = (pubkey: string, tags: string[][]) => ({
+        pubkey,
+        tags,
+        kind: 5,
+        created_at: 1000,
+        content: '',
+        id: 'deletion-id',
+        sig: 'signature',
+      });
+
+      await handleDeletionEvent(deletion('other-pubkey', [['e', 'app-event']]));
+      await handleDeletionEvent(
+        deletion('test-pubkey-123', [
+          ['e', 'app-event'],
+          ['k', '1'],
+        ])
+      );
+
+      expect(mockCacheService.setPathDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should keep received events in the event store and remove deleted ones', async () => {
+      const eventStore = {
+        save: jest.fn().mockResolvedValue(true),
+        deleteAddress: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue([
+          {
+            id: 'stored-event',
+            pubkey: 'test-pubkey-123',
+            kind: 34128,
+            created_at: 800,
+            tags: [['d', '/stored.html']],
+          },
+        ]),
+      };
+      (service as any).eventStore = eventStore;
+      const relayList = {
+        pubkey: 'test-pubkey-123',
+        tags: [['r', 'wss://relay.example.com']],
+        kind: 10002,
+        created_at: Math.floor(Date.now() / 1000),
+        content: '',
+        id: 'relay-list-id',
+        sig: 'signature',
+      };
+
+      await (service as any).handleRelayListEvent(relayList);
+      await (service as any).handleDeletionEvent({
+        pubkey: 'test-pubkey-123',
+        tags: [['e', 'stored-event']],
+        kind: 5,
+        created_at: 1000,
+        content: '',
+        id: 'deletion-id',
+        sig: 'signature',
+      });
+
+      expect(eventStore.save).toHaveBeenCalledWith(relayList);
+      expect(eventStore.query).toHaveBeenCalledWith([
+        { ids: ['stored-event'], authors: ['test-pubkey-123'], kinds: [34128] },
+      ]);
+      expect(eventStore.deleteAddress).toHaveBeenCalledWith(
+        'test-pubkey-123',
+        34128,
+        '/stored.html',
+        800
+      );
+    });
+
+    it('should record deletions of pinned paths in the pinned store', async () => {
+      const pinnedStore = {
+        getSite: jest.fn().mockResolvedValue({
+          paths: [
+            {
+              pubkey: 'test-pubkey-123',
+              path: '/pinned.html',
+              sha256: 'a',
+              created_at: 700,
+              id: 'pinned-event',
+            },
+          ],
+          manifests: [],
+        }),
+        deletePath: jest.fn().mockResolvedValue(undefined),
+        deleteSite: jest.fn().mockResolvedValue(undefined),
+      };
+      (service as any).pinnedStore = pinnedStore;
+
+      await (service as any).handleDeletionEvent({
+        pubkey: 'test-pubkey-123',
+        tags: [['e', 'pinned-event']],
+        kind: 5,
+        created_at: 1000,
+        content: '',
+        id: 'deletion-id',
+        sig: 'signature',
+      });
+
+      expect(pinnedStore.deletePath).toHaveBeenCalledWith('test-pubkey-123', '/pinned.html', 700);
+    });
+
     it('should handle static file events without SHA256 and invalidate cache', async () => {
       const mockEvent = {
         pubkey: 'test-pubkey-no-hash',
@@ -172,7 +521,7 @@ describe('CacheInvalidationService', () => {
         tags: [
           ['r', 'wss://relay1.com', 'read'],
           ['r', 'wss://relay2.com'],
-          ['r', 'wss://relay3.com', 'write'], // Should be ignored
+          ['r', 'wss://relay3.com', 'write'],
         ],
         kind: 10002,
         created_at: Date.now(),
@@ -184,10 +533,16 @@ describe('CacheInvalidationService', () => {
       const handleRelayListEvent = (service as any).handleRelayListEvent.bind(service);
       await handleRelayListEvent(mockEvent);
 
-      expect(mockCacheService.setRelaysForPubkey).toHaveBeenCalledWith('test-pubkey-456', [
-        'wss://relay1.com',
-        'wss://relay2.com',
-      ]);
+      expect(mockCacheService.setRelaysForPubkey).toHaveBeenCalledWith(
+        'test-pubkey-456',
+        [
+          { url: 'wss://relay1.com', read: true, write: false },
+          { url: 'wss://relay2.com', read: true, write: true },
+          { url: 'wss://relay3.com', read: false, write: true },
+        ],
+        undefined,
+        mockEvent
+      );
       expect(logger.info).toHaveBeenCalledWith(
         expect.stringMatching(/✅ Relay list cache UPDATED for test-pub.*/)
       );
@@ -210,15 +565,87 @@ describe('CacheInvalidationService', () => {
       const handleBlossomServerEvent = (service as any).handleBlossomServerEvent.bind(service);
       await handleBlossomServerEvent(mockEvent);
 
-      expect(mockCacheService.setBlossomServersForPubkey).toHaveBeenCalledWith('test-pubkey-789', [
-        'https://blossom1.com',
-        'https://blossom2.com',
-      ]);
+      expect(mockCacheService.setBlossomServersForPubkey).toHaveBeenCalledWith(
+        'test-pubkey-789',
+        ['https://blossom1.com', 'https://blossom2.com'],
+        undefined,
+        mockEvent
+      );
       expect(logger.info).toHaveBeenCalledWith(
         expect.stringMatching(/✅ Blossom server cache UPDATED for test-pub.*/)
       );
     });
 
+    it('should keep newer relay and server lists when older ones arrive later', async () => {
+      const newer = { created_at: 2000, id: 'b'.repeat(64) };
+      mockCacheService.getRelaysEntry.mockResolvedValue({
+        value: [{ url: 'wss://new-relay.com', read: true, write: true }],
+        stale: false,
+        source: newer,
+      });
+      mockCacheService.getBlossomServersEntry.mockResolvedValue({
+        value: ['https://new-blossom.com'],
+        stale: false,
+        source: newer,
+      });
+      const list = (kind: number, tag: string[], created_at: number, id: string) => ({
+        pubkey: 'test-pubkey-lists',
+        tags: [tag],
+        kind,
+        created_at,
+        content: '',
+        id,
+        sig: 'signature',
+      });
+
+      await service.handleEvent(list(10002, ['r', 'wss://old-relay.com'], 1000, 'c'.repeat(64)));
+      await service.handleEvent(list(10063, ['server', 'https://old.com'], 1000, 'c'.repeat(64)));
+      // Same created_at: the lower id wins, like for the other replaceable events
+      await service.handleEvent(list(10002, ['r', 'wss://tie.com'], 2000, 'c'.repeat(64)));
+
+      expect(mockCacheService.setRelaysForPubkey).not.toHaveBeenCalled();
+      expect(mockCacheService.setBlossomServersForPubkey).not.toHaveBeenCalled();
+
+      await service.handleEvent(list(10002, ['r', 'wss://tie.com'], 2000, 'a'.repeat(64)));
+      expect(mockCacheService.setRelaysForPubkey).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only subscribe to deletion requests of site events', () => {
+      const pool = (service as any).pool;
+
+      (service as any).subscribeToDeletionEvents(mockConfig.invalidationRelays);
+
+      const [, filters] = pool.subscribeMany.mock.calls.find(([, [filter]]: any[]) =>
+        filter.kinds.includes(5)
+      );
+      expect(filters).toEqual([
+        expect.objectContaining({ kinds: [5], '#k': ['34128', '15128', '35128'] }),
+      ]);
+    });
+
+    it('should dispatch events handed in from outside the subscriptions by kind', async () => {
+      const mockEvent = {
+        pubkey: 'test-pubkey-sync',
+        tags: [['server', 'https://blossom1.com']],
+        kind: 10063,
+        created_at: Date.now(),
+        content: '',
+        id: 'synced-event-id',
+        sig: 'signature',
+      };
+
+      await service.handleEvent(mockEvent);
+      await service.handleEvent({ ...mockEvent, kind: 1 });
+
+      expect(mockCacheService.setBlossomServersForPubkey).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.setBlossomServersForPubkey).toHaveBeenCalledWith(
+        'test-pubkey-sync',
+        ['https://blossom1.com'],
+        undefined,
+        mockEvent
+      );
+    });
+
     it('should handle errors during event processing gracefully', async () => {
       mockCacheService.invalidateBlobForPath.mockRejectedValue(new Error('Cache error'));
 
@@ -312,6 +739,44 @@ describe('CacheInvalidationService', () => {
     });
   });
 
+  describe('Relay Authentication (NIP-42)', () => {
+    const signer = {
+      getPublicKey: jest.fn(),
+      signEvent: jest.fn(async (template: any) => ({ ...template, id: 'auth', sig: 'sig' })),
+    };
+
+    it('should answer AUTH challenges only on opted-in relays', async () => {
+      mockConfig.authRelays = ['wss://relay.damus.io'];
+      const service = new CacheInvalidationService(signer);
+      const pool = (service as any).pool;
+
+      (service as any).subscribeMany(mockConfig.invalidationRelays, [{ kinds: [5] }], {
+        onevent: jest.fn(),
+      });
+
+      expect(pool.subscribeMany).toHaveBeenCalledTimes(2);
+      const [authRelays, , authParams] = pool.subscribeMany.mock.calls[0];
+      const [otherRelays, , otherParams] = pool.subscribeMany.mock.calls[1];
+      expect(authRelays).toEqual(['wss://relay.damus.io']);
+      expect(otherRelays).toEqual(['wss://relay.primal.net']);
+      expect(otherParams.onauth).toBeUndefined();
+
+      await authParams.onauth({ kind: 22242, tags: [], content: '', created_at: 0 });
+      expect(signer.signEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: 22242 }));
+    });
+
+    it('should subscribe as before without a signer', () => {
+      mockConfig.authRelays = ['wss://relay.damus.io'];
+      const service = new CacheInvalidationService();
+      const pool = (service as any).pool;
+
+      (service as any).subscribeMany(mockConfig.invalidationRelays, [{ kinds: [5] }], {});
+
+      expect(pool.subscribeMany).toHaveBeenCalledTimes(1);
+      expect(pool.subscribeMany.mock.calls[0][2].onauth).toBeUndefined();
+    });
+  });
+
   describe('Reconnection Logic', () => {
     it('should schedule reconnection on subscription close', async () => {
       jest.useFakeTimers();
@@ -0,0 +1,208 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { nip19 } from 'nostr-tools';
+import * as os from 'os';
+import * as path from 'path';
+import { DnsResolver, DomainResolver } from '../../helpers/domain';
+import { NostrHelper } from '../../helpers/nostr';
+import { CacheService } from '../../utils/cache';
+import { ConfigManager } from '../../utils/config';
+
+jest.mock('axios');
+
+// Mock CacheService
+jest.mock('../../utils/cache', () => ({
+  CacheService: {
+    getPubkeyForDomain: jest.fn(),
+    setPubkeyForDomain: jest.fn(),
+    isNegativeCached: jest.fn(),
+    setNegativeCache: jest.fn(),
+  },
+}));
+
+describe('DomainResolver', () => {
+  const testPubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+  const testNpub = nip19.npubEncode(testPubkey);
+  const mockedCacheService = CacheService as jest.Mocked<typeof CacheService>;
+
+  let resolveTxt: jest.MockedFunction<DnsResolver['resolveTxt']>;
+  let nostrHelper: NostrHelper;
+  let domainResolver: DomainResolver;
+
+  beforeAll(() => {
+    ConfigManager.getInstance().updateConfig({
+      customDomainsEnabled: true,
+      customDomainTxtPrefix: '_nostr',
+    });
+  });
+
+  afterAll(() => {
+    ConfigManager.getInstance().updateConfig({ customDomainsEnabled: false });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockedCacheService.getPubkeyForDomain.mockResolvedValue(null);
+    mockedCacheService.isNegativeCached.mockResolvedValue(false);
+
+    resolveTxt = jest.fn();
+    nostrHelper = new NostrHelper();
+    domainResolver = new DomainResolver(nostrHelper, { resolveTxt });
+  });
+
+  afterEach(() => {
+    nostrHelper.closeAllConnections();
+  });
+
+  it('should resolve subdomains of the base domain without DNS lookups', async () => {
+    const result = await domainResolver.resolveHostname(`${testNpub}.test.example.com`);
+
+    expect(result.isValid).toBe(true);
+    expect(result.pubkey).toBe(testPubkey);
+    expect(resolveTxt).not.toHaveBeenCalled();
+  });
+
+  it('should resolve a custom domain from an npub TXT record', async () => {
+    resolveTxt.mockResolvedValue([['v=spf1 -all'], [testNpub]]);
+
+    const result = await domainResolver.resolveHostname('Blog.Example.org');
+
+    expect(resolveTxt).toHaveBeenCalledWith('_nostr.blog.example.org');
+    expect(result).toEqual({ pubkey: testPubkey, subdomain: 'blog.example.org', isValid: true });
+    expect(mockedCacheService.setPubkeyForDomain).toHaveBeenCalledWith(
+      'blog.example.org',
+      testPubkey
+    );
+  });
+
+  it('should accept hex pubkeys split across TXT chunks', async () => {
+    resolveTxt.mockResolvedValue([[testPubkey.substring(0, 32), testPubkey.substring(32)]]);
+
+    const result = await domainResolver.resolveHostname('example.org');
+
+    expect(result.isValid).toBe(true);
+    expect(result.pubkey).toBe(testPubkey);
+  });
+
+  it('should use the cached mapping when available', async () => {
+    mockedCacheService.getPubkeyForDomain.mockResolvedValue(testPubkey);
+
+    const result = await domainResolver.resolveHostname('example.org');
+
+    expect(result.pubkey).toBe(testPubkey);
+    expect(resolveTxt).not.toHaveBeenCalled();
+  });
+
+  it('should negative cache domains without a valid TXT record', async () => {
+    resolveTxt.mockRejectedValue(
+      Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' })
+    );
+
+    const result = await domainResolver.resolveHostname('unknown.org');
+
+    expect(result.isValid).toBe(false);
+    expect(mockedCacheService.setNegativeCache).toHaveBeenCalledWith('domain:unknown.org');
+    expect(mockedCacheService.setPubkeyForDomain).not.toHaveBeenCalled();
+  });
+
+  it('should skip DNS lookups for negative cached domains', async () => {
+    mockedCacheService.isNegativeCached.mockResolvedValue(true);
+
+    const result = await domainResolver.resolveHostname('unknown.org');
+
+    expect(result.isValid).toBe(false);
+    expect(resolveTxt).not.toHaveBeenCalled();
+  });
+
+  it('should not look up custom domains when the feature is disabled', async () => {
+    ConfigManager.getInstance().updateConfig({ customDomainsEnabled: false });
+
+    try {
+      const result = await domainResolver.resolveHostname('example.org');
+
+      expect(result.isValid).toBe(false);
+      expect(resolveTxt).not.toHaveBeenCalled();
+    } finally {
+      ConfigManager.getInstance().updateConfig({ customDomainsEnabled: true });
+    }
+  });
+
+  describe('NIP-05 name subdomains', () => {
+    const mockedAxios = axios as jest.Mocked<typeof axios>;
+    const registryFile = path.join(os.tmpdir(), `nip05-registry-${process.pid}.json`);
+
+    beforeEach(async () => {
+      await fs.writeFile(registryFile, JSON.stringify({ names: { bob: testPubkey } }));
+      ConfigManager.getInstance().updateConfig({
+        nip05Provider: 'https://id.example.com',
+        nip05RegistryFile: registryFile,
+        nip05CacheTtlMs: 600000,
+      });
+    });
+
+    afterEach(async () => {
+      ConfigManager.getInstance().updateConfig({ nip05Provider: '', nip05RegistryFile: '' });
+      await fs.rm(registryFile, { force: true });
+    });
+
+    it('should resolve names from the local registry file', async () => {
+      const result = await domainResolver.resolveHostname('bob.test.example.com');
+
+      expect(result).toEqual({ pubkey: testPubkey, subdomain: 'bob', isValid: true });
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+      expect(mockedCacheService.setPubkeyForDomain).toHaveBeenCalledWith(
+        'nip05:bob',
+        testPubkey,
+        600000
+      );
+    });
+
+    it('should resolve names through the provider nostr.json', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { names: { alice: testPubkey } } });
+
+      const result = await domainResolver.resolveHostname('alice.test.example.com');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pubkey).toBe(testPubkey);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://id.example.com/.well-known/nostr.json',
+        expect.objectContaining({ params: { name: 'alice' } })
+      );
+    });
+
+    it('should use the cached name mapping when available', async () => {
+      mockedCacheService.getPubkeyForDomain.mockResolvedValue(testPubkey);
+
+      const result = await domainResolver.resolveHostname('alice.test.example.com');
+
+      expect(result.pubkey).toBe(testPubkey);
+      expect(mockedCacheService.getPubkeyForDomain).toHaveBeenCalledWith('nip05:alice', false);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should negative cache unknown names', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { names: {} } });
+
+      const result = await domainResolver.resolveHostname('nobody.test.example.com');
+
+      expect(result.isValid).toBe(false);
+      expect(mockedCacheService.setNegativeCache).toHaveBeenCalledWith('nip05:nobody');
+    });
+
+    it('should reject non-hex pubkeys from the provider', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { names: { alice: testNpub } } });
+
+      const result = await domainResolver.resolveHostname('alice.test.example.com');
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should still prefer npub subdomains over name lookups', async () => {
+      const result = await domainResolver.resolveHostname(`${testNpub}.test.example.com`);
+
+      expect(result.pubkey).toBe(testPubkey);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { LocalRelay } from '../../helpers/local-relay';
+import { NostrEvent } from '../../types';
+import { EventStore } from '../../utils/event-store';
+
+describe('LocalRelay', () => {
+  const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+  const now = Math.floor(Date.now() / 1000);
+
+  const fileEvent = (id: string, path: string, created_at = now - 100): NostrEvent => ({
+    id: id.repeat(64),
+    pubkey,
+    kind: 34128,
+    created_at,
+    tags: [
+      ['d', path],
+      ['x', 'f'.repeat(64)],
+    ],
+    content: '',
+    sig: 'sig',
+  });
+
+  let store: EventStore;
+  let relay: LocalRelay;
+  let server: Server;
+  let client: WebSocket;
+  let messages: unknown[][];
+
+  // Resolves once `count` messages have been received
+  const receive = (count: number) =>
+    new Promise<unknown[][]>((resolve) => {
+      const check = () => {
+        if (messages.length >= count) {
+          client.off('message', check);
+          resolve(messages.splice(0, count));
+        }
+      };
+      client.on('message', check);
+      check();
+    });
+
+  beforeEach(async () => {
+    store = new EventStore(':memory:');
+    relay = new LocalRelay(store);
+    server = createServer();
+    server.on('upgrade', (request, socket, head) => relay.handleUpgrade(request, socket, head));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    messages = [];
+    client = new WebSocket(`ws://127.0.0.1:${port}/relay`);
+    client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => client.once('open', resolve));
+  });
+
+  afterEach(async () => {
+    client.close();
+    await relay.close();
+    await new Promise((resolve) => server.close(resolve));
+    await store.close();
+  });
+
+  it('should answer REQ with stored events and EOSE', async () => {
+    await store.save(fileEvent('1', '/index.html'));
+    await store.save(fileEvent('2', '/about.html', now - 200));
+
+    client.send(JSON.stringify(['REQ', 'sub', { kinds: [34128], '#d': ['/index.html'] }]));
+
+    expect(await receive(2)).toEqual([
+      ['EVENT', 'sub', fileEvent('1', '/index.html')],
+      ['EOSE', 'sub'],
+    ]);
+  });
+
+  it('should push newly stored events to open subscriptions until closed', async () => {
+    client.send(JSON.stringify(['REQ', 'sub', { authors: [pubkey] }]));
+    await receive(1);
+
+    await store.save(fileEvent('1', '/index.html'));
+    expect(await receive(1)).toEqual([['EVENT', 'sub', fileEvent('1', '/index.html')]]);
+
+    client.send(JSON.stringify(['CLOSE', 'sub']));
+    client.send(JSON.stringify(['REQ', 'other', { kinds: [10002] }]));
+    await receive(1);
+    await store.save(fileEvent('2', '/about.html'));
+    await store.save({ ...fileEvent('3', ''), kind: 10002, tags: [] });
+
+    expect(await receive(1)).toEqual([
+      ['EVENT', 'other', { ...fileEvent('3', ''), kind: 10002, tags: [] }],
+    ]);
+  });
+
+  it('should reject published events', async () => {
+    client.send(JSON.stringify(['EVENT', fileEvent('1', '/index.html')]));
+
+    expect(await receive(1)).toEqual([
+      ['OK', '1'.repeat(64), false, 'blocked: this relay is read-only'],
+    ]);
+    expect(await store.count()).toBe(0);
+  });
+
+  it('should report malformed messages', async () => {
+    client.send('not json');
+    client.send(JSON.stringify(['REQ', 'sub']));
+
+    expect(await receive(2)).toEqual([
+      ['NOTICE', 'error: could not parse message'],
+      ['CLOSED', 'sub', 'invalid: expected 1 to 10 filter objects'],
+    ]);
+  });
+
+  it('should only accept /relay on the base domain', () => {
+    const request = (host: string, url: string) =>
+      ({ headers: { host }, url }) as unknown as IncomingMessage;
+
+    expect(LocalRelay.isRelayRequest(request('example.com:3000', '/relay'), 'example.com')).toBe(
+      true
+    );
+    expect(LocalRelay.isRelayRequest(request('npub1x.example.com', '/relay'), 'example.com')).toBe(
+      false
+    );
+    expect(LocalRelay.isRelayRequest(request('example.com', '/other'), 'example.com')).toBe(false);
+  });
+});
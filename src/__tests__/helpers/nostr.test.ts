@@ -1,18 +1,28 @@
-import { nip19 } from 'nostr-tools';
+import { nip19, verifyEvent } from 'nostr-tools';
 import { NostrHelper } from '../../helpers/nostr';
 import { CacheService } from '../../utils/cache';
 
 // Mock CacheService
 jest.mock('../../utils/cache', () => ({
   CacheService: {
-    getRelaysForPubkey: jest.fn(),
+    getRelaysEntry: jest.fn(),
     setRelaysForPubkey: jest.fn(),
-    getBlossomServersForPubkey: jest.fn(),
+    getBlossomServersEntry: jest.fn(),
     setBlossomServersForPubkey: jest.fn(),
     getBlobForPath: jest.fn(),
+    getBlobForPathEntry: jest.fn(),
     setBlobForPath: jest.fn(),
+    getPathDeletion: jest.fn(),
+    setPathDeletion: jest.fn(),
+    getSiteDeletion: jest.fn(),
+    setSiteDeletion: jest.fn(),
+    getSiteManifestEntry: jest.fn(),
+    setSiteManifest: jest.fn(),
     setNegativeCache: jest.fn(),
     isNegativeCached: jest.fn(),
+    getMappingNegativeKey: jest.fn((pubkey: string, path: string, identifier?: string) =>
+      identifier ? `mapping:${pubkey}:${identifier}:${path}` : `mapping:${pubkey}:${path}`
+    ),
   },
 }));
 
@@ -26,12 +36,17 @@ jest.mock('nostr-tools', () => ({
   nip19: {
     decode: jest.fn(),
     encode: jest.fn(),
+    npubEncode: jest.fn(),
   },
+  verifyEvent: jest.fn(() => true),
 }));
 
+const damusRelay = [{ url: 'wss://relay.damus.io', read: true, write: true }];
+
 describe('NostrHelper', () => {
   let nostrHelper: NostrHelper;
   const mockDecode = nip19.decode as jest.MockedFunction<typeof nip19.decode>;
+  const mockNpubEncode = nip19.npubEncode as jest.MockedFunction<typeof nip19.npubEncode>;
   const mockedCacheService = CacheService as jest.Mocked<typeof CacheService>;
 
   beforeEach(() => {
@@ -39,12 +54,19 @@ describe('NostrHelper', () => {
     jest.clearAllMocks();
 
     // Reset cache service mocks
-    mockedCacheService.getRelaysForPubkey.mockResolvedValue(null);
-    mockedCacheService.getBlossomServersForPubkey.mockResolvedValue(null);
+    mockedCacheService.getRelaysEntry.mockResolvedValue(null);
+    mockedCacheService.getBlossomServersEntry.mockResolvedValue(null);
     mockedCacheService.getBlobForPath.mockResolvedValue(null);
+    mockedCacheService.getBlobForPathEntry.mockResolvedValue(null);
+    mockedCacheService.getPathDeletion.mockResolvedValue(null);
+    mockedCacheService.getSiteDeletion.mockResolvedValue(null);
+    mockedCacheService.getSiteManifestEntry.mockResolvedValue(null);
     mockedCacheService.isNegativeCached.mockResolvedValue(false);
+    (verifyEvent as unknown as jest.Mock).mockImplementation(() => true);
 
     nostrHelper = new NostrHelper();
+    // No deletion requests unless a test says otherwise
+    jest.spyOn(nostrHelper as any, 'fetchDeletionRequests').mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -80,6 +102,33 @@ describe('NostrHelper', () => {
       expect(result.pubkey).toBe('');
     });
 
+    it('should resolve named site subdomain', () => {
+      const testPubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+      const testNpub = 'npub1yf5pr8xfy58058jxde48x4an905wnfzq28m54mex0pvsdcrxqsrq8ppkzc';
+
+      mockDecode.mockReturnValue({
+        type: 'npub',
+        data: testPubkey,
+      });
+
+      const result = nostrHelper.resolvePubkey(`blog.${testNpub}.test.example.com`);
+
+      expect(result.isValid).toBe(true);
+      expect(result.pubkey).toBe(testPubkey);
+      expect(result.npub).toBe(testNpub);
+      expect(result.identifier).toBe('blog');
+      expect(result.subdomain).toBe(`blog.${testNpub}`);
+    });
+
+    it('should reject named site subdomain with invalid identifier', () => {
+      const testNpub = 'npub1yf5pr8xfy58058jxde48x4an905wnfzq28m54mex0pvsdcrxqsrq8ppkzc';
+
+      const result = nostrHelper.resolvePubkey(`-blog-.${testNpub}.test.example.com`);
+
+      expect(result.isValid).toBe(false);
+      expect(mockDecode).not.toHaveBeenCalled();
+    });
+
     it('should reject non-npub subdomain', () => {
       const result = nostrHelper.resolvePubkey('regular-subdomain.test.example.com');
 
@@ -87,6 +136,104 @@ describe('NostrHelper', () => {
       expect(result.pubkey).toBe('');
       expect(result.subdomain).toBe('regular-subdomain');
     });
+
+    describe('alternative pubkey encodings', () => {
+      const testPubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+      const testNpub = 'npub1yf5pr8xfy58058jxde48x4an905wnfzq28m54mex0pvsdcrxqsrq8ppkzc';
+      const testBase36 = '0ygl461f4ecz5thkn8eksa36nepjpij86s83ti8yzokopd3ag5';
+
+      beforeEach(() => {
+        mockNpubEncode.mockReturnValue(testNpub as `npub1${string}`);
+      });
+
+      afterEach(() => {
+        nostrHelper['config'].updateConfig({ canonicalPubkeyFormat: 'npub' });
+      });
+
+      it('should not redirect canonical npub subdomains', () => {
+        mockDecode.mockReturnValue({ type: 'npub', data: testPubkey });
+
+        const result = nostrHelper.resolvePubkey(`${testNpub}.test.example.com`);
+
+        expect(result.canonicalSubdomain).toBe(testNpub);
+        expect(result.relays).toBeUndefined();
+      });
+
+      it('should resolve hex subdomains to the canonical npub', () => {
+        const result = nostrHelper.resolvePubkey(`${testPubkey}.test.example.com`);
+
+        expect(result.isValid).toBe(true);
+        expect(result.pubkey).toBe(testPubkey);
+        expect(result.canonicalSubdomain).toBe(testNpub);
+      });
+
+      it('should resolve named sites from a single base36 label', () => {
+        const result = nostrHelper.resolvePubkey(`${testBase36}blog.test.example.com`);
+
+        expect(result.isValid).toBe(true);
+        expect(result.pubkey).toBe(testPubkey);
+        expect(result.identifier).toBe('blog');
+        expect(result.canonicalSubdomain).toBe(`${testBase36}blog`);
+      });
+
+      it('should redirect two-label named sites to a single label', () => {
+        const result = nostrHelper.resolvePubkey(`blog.${testBase36}.test.example.com`);
+
+        expect(result.isValid).toBe(true);
+        expect(result.identifier).toBe('blog');
+        expect(result.canonicalSubdomain).toBe(`${testBase36}blog`);
+      });
+
+      it('should keep two labels for identifiers too long for one label', () => {
+        const identifier = 'a-very-long-site';
+        const result = nostrHelper.resolvePubkey(`${identifier}.${testBase36}.test.example.com`);
+
+        expect(result.identifier).toBe(identifier);
+        expect(result.canonicalSubdomain).toBe(`${identifier}.${testNpub}`);
+      });
+
+      it('should redirect npub subdomains when base36 is canonical', () => {
+        nostrHelper['config'].updateConfig({ canonicalPubkeyFormat: 'base36' });
+        mockDecode.mockReturnValue({ type: 'npub', data: testPubkey });
+
+        const result = nostrHelper.resolvePubkey(`${testNpub}.test.example.com`);
+
+        expect(result.canonicalSubdomain).toBe(testBase36);
+      });
+
+      it('should resolve nprofile subdomains and keep websocket relay hints', () => {
+        mockDecode.mockReturnValue({
+          type: 'nprofile',
+          data: {
+            pubkey: testPubkey,
+            relays: ['wss://hint.example.com', 'https://not-a-relay.example.com'],
+          },
+        });
+
+        const result = nostrHelper.resolvePubkey('nprofile1qqsxyz.test.example.com');
+
+        expect(result.isValid).toBe(true);
+        expect(result.pubkey).toBe(testPubkey);
+        expect(result.relays).toEqual(['wss://hint.example.com']);
+        expect(result.canonicalSubdomain).toBe(testNpub);
+      });
+
+      it('should query nprofile relay hints when discovering the relay list', async () => {
+        mockDecode.mockReturnValue({
+          type: 'nprofile',
+          data: { pubkey: testPubkey, relays: ['wss://hint.example.com'] },
+        });
+        const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+        queryRelaysSpy.mockResolvedValue([]);
+
+        nostrHelper.resolvePubkey('nprofile1qqsxyz.test.example.com');
+        await nostrHelper.getRelayList(testPubkey);
+
+        const queriedRelays = queryRelaysSpy.mock.calls[0][0] as string[];
+        expect(queriedRelays[0]).toBe('wss://hint.example.com');
+        expect(queriedRelays).toContain('wss://relay.damus.io');
+      });
+    });
   });
 
   describe('getRelayList', () => {
@@ -98,15 +245,17 @@ describe('NostrHelper', () => {
       const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
       const relays = await nostrHelper.getRelayList(pubkey);
 
-      expect(relays).toEqual([
-        'wss://relay.nostr.band',
-        'wss://nostrue.com',
-        'wss://purplerelay.com',
-        'wss://relay.primal.net',
-        'wss://nos.lol',
-        'wss://relay.damus.io',
-        'wss://relay.nsite.lol',
-      ]);
+      expect(relays).toEqual(
+        [
+          'wss://relay.nostr.band',
+          'wss://nostrue.com',
+          'wss://purplerelay.com',
+          'wss://relay.primal.net',
+          'wss://nos.lol',
+          'wss://relay.damus.io',
+          'wss://relay.nsite.lol',
+        ].map((url) => ({ url, read: true, write: true }))
+      );
     });
 
     it('should parse relay list from event', async () => {
@@ -130,7 +279,84 @@ describe('NostrHelper', () => {
       const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
       const relays = await nostrHelper.getRelayList(pubkey);
 
-      expect(relays).toEqual(['wss://custom-relay1.com', 'wss://custom-relay2.com']);
+      expect(relays).toEqual([
+        { url: 'wss://custom-relay1.com', read: true, write: false },
+        { url: 'wss://custom-relay2.com', read: true, write: true },
+        { url: 'wss://custom-relay3.com', read: false, write: true },
+      ]);
+    });
+  });
+
+  describe('selectLatestEvent', () => {
+    const event = (id: string, created_at: number) =>
+      ({ id, created_at, pubkey: 'a', kind: 34128, tags: [], content: '', sig: '' }) as any;
+
+    it('should pick the highest created_at', () => {
+      const events = [event('b', 100), event('c', 300), event('a', 200)];
+
+      expect(NostrHelper.selectLatestEvent(events)?.id).toBe('c');
+    });
+
+    it('should break ties with the lowest id', () => {
+      const events = [event('ff', 100), event('0a', 100), event('7c', 100)];
+
+      expect(NostrHelper.selectLatestEvent(events)?.id).toBe('0a');
+    });
+
+    it('should return null without events', () => {
+      expect(NostrHelper.selectLatestEvent([])).toBeNull();
+    });
+  });
+
+  describe('outbox relay selection', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const serverListEvent = {
+      id: 'server-list',
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 10063,
+      tags: [['server', 'https://custom-blossom.com']],
+      content: '',
+      sig: 'test-sig',
+    };
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue([
+        { url: 'wss://inbox.example.com', read: true, write: false },
+        { url: 'wss://outbox.example.com', read: false, write: true },
+        { url: 'wss://both.example.com', read: true, write: true },
+      ]);
+    });
+
+    it("should query the author's write relays first", async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([serverListEvent]);
+
+      const servers = await nostrHelper.getBlossomServers(pubkey);
+
+      expect(servers).toEqual(['https://custom-blossom.com']);
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(queryRelaysSpy.mock.calls[0][0]).toEqual([
+        'wss://outbox.example.com',
+        'wss://both.example.com',
+      ]);
+    });
+
+    it('should fall back to read relays, then to every relay', async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([]);
+
+      await nostrHelper.getBlossomServers(pubkey);
+
+      const tiers = queryRelaysSpy.mock.calls.map(([relays]) => relays as string[]);
+      expect(tiers).toHaveLength(3);
+      expect(tiers[1]).toEqual(['wss://inbox.example.com']);
+      expect(tiers[2].slice(0, 3)).toEqual([
+        'wss://outbox.example.com',
+        'wss://both.example.com',
+        'wss://inbox.example.com',
+      ]);
+      expect(tiers[2]).toContain('wss://relay.damus.io');
     });
   });
 
@@ -138,7 +364,7 @@ describe('NostrHelper', () => {
     it('should return default servers when no server list event found', async () => {
       // Mock relay list
       const getRelayListSpy = jest.spyOn(nostrHelper, 'getRelayList');
-      getRelayListSpy.mockResolvedValue(['wss://relay.damus.io']);
+      getRelayListSpy.mockResolvedValue(damusRelay);
 
       // Mock empty result from queryRelays
       const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
@@ -173,7 +399,7 @@ describe('NostrHelper', () => {
 
       // Mock relay list
       const getRelayListSpy = jest.spyOn(nostrHelper, 'getRelayList');
-      getRelayListSpy.mockResolvedValue(['wss://relay.damus.io']);
+      getRelayListSpy.mockResolvedValue(damusRelay);
 
       // Mock server list result
       const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
@@ -187,6 +413,11 @@ describe('NostrHelper', () => {
   });
 
   describe('getStaticFileMapping', () => {
+    beforeEach(() => {
+      // Sites without a manifest fall back to per-path kind 34128 events
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+    });
+
     it('should return SHA256 hash for valid file mapping', async () => {
       const testSha256 = '186ea5fd14e88fd1ac49351759e7ab906fa94892002b60bf7f5a428f28ca1c99';
       const mockEvent = {
@@ -204,7 +435,7 @@ describe('NostrHelper', () => {
 
       // Mock relay list
       const getRelayListSpy = jest.spyOn(nostrHelper, 'getRelayList');
-      getRelayListSpy.mockResolvedValue(['wss://relay.damus.io']);
+      getRelayListSpy.mockResolvedValue(damusRelay);
 
       // Mock file mapping result
       const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
@@ -219,7 +450,7 @@ describe('NostrHelper', () => {
     it('should return null when no file mapping found', async () => {
       // Mock relay list
       const getRelayListSpy = jest.spyOn(nostrHelper, 'getRelayList');
-      getRelayListSpy.mockResolvedValue(['wss://relay.damus.io']);
+      getRelayListSpy.mockResolvedValue(damusRelay);
 
       // Mock empty result
       const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
@@ -248,13 +479,13 @@ describe('NostrHelper', () => {
 
       // Mock relay list
       const getRelayListSpy = jest.spyOn(nostrHelper, 'getRelayList');
-      getRelayListSpy.mockResolvedValue(['wss://relay.damus.io']);
+      getRelayListSpy.mockResolvedValue(damusRelay);
 
-      // Mock query results - first call returns empty, second returns 404 event
+      // Mock query results - only /404.html has an event
       const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
-      queryRelaysSpy
-        .mockResolvedValueOnce([]) // First call for /nonexistent.html
-        .mockResolvedValueOnce([mock404Event]); // Second call for /404.html
+      queryRelaysSpy.mockImplementation(async (_relays, filter: any) =>
+        filter['#d'].includes('/404.html') ? [mock404Event] : []
+      );
 
       const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
       const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/nonexistent.html');
@@ -263,6 +494,1288 @@ describe('NostrHelper', () => {
     });
   });
 
+  describe('getStaticFileMapping with a root site manifest', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const mockManifestEvent = {
+      id: 'manifest-id',
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 15128,
+      tags: [
+        ['path', '/index.html', 'ccc333'],
+        ['path', '/style.css', 'ddd444'],
+      ],
+      content: '',
+      sig: 'test-sig',
+    };
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should resolve paths from the manifest without per-path queries', async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([mockManifestEvent]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/style.css');
+
+      expect(sha256).toBe('ddd444');
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(queryRelaysSpy).toHaveBeenCalledWith(
+        ['wss://relay.damus.io'],
+        expect.objectContaining({ kinds: [15128] }),
+        expect.any(Number)
+      );
+    });
+
+    it('should serve from the cached path table', async () => {
+      mockedCacheService.getSiteManifestEntry.mockResolvedValue({
+        value: {
+          pubkey,
+          paths: { '/index.html': 'ccc333' },
+          created_at: mockManifestEvent.created_at,
+        },
+        stale: false,
+      });
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBe('ccc333');
+      expect(queryRelaysSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to kind 34128 for paths missing from the manifest', async () => {
+      mockedCacheService.getSiteManifestEntry.mockResolvedValue({
+        value: {
+          pubkey,
+          paths: { '/index.html': 'ccc333' },
+          created_at: mockManifestEvent.created_at,
+        },
+        stale: false,
+      });
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([
+        {
+          ...mockManifestEvent,
+          kind: 34128,
+          tags: [
+            ['d', '/legacy.html'],
+            ['x', 'eee555'],
+          ],
+        },
+      ]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/legacy.html');
+
+      expect(sha256).toBe('eee555');
+      expect(queryRelaysSpy).toHaveBeenCalledWith(
+        ['wss://relay.damus.io'],
+        expect.objectContaining({ kinds: [34128], '#d': ['/legacy.html'] }),
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('getStaticFileMapping for named sites', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const mockSiteEvent = {
+      id: 'site-id',
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 35128,
+      tags: [
+        ['d', 'blog'],
+        ['path', '/index.html', 'aaa111'],
+        ['path', '/404.html', 'bbb222'],
+      ],
+      content: '',
+      sig: 'test-sig',
+    };
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should query kind 35128 by site identifier and resolve the path tag', async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([mockSiteEvent]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html', 'blog');
+
+      expect(sha256).toBe('aaa111');
+      expect(queryRelaysSpy).toHaveBeenCalledWith(
+        ['wss://relay.damus.io'],
+        expect.objectContaining({ kinds: [35128], '#d': ['blog'] }),
+        expect.any(Number)
+      );
+    });
+
+    it('should cache the full path table of the named site', async () => {
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([mockSiteEvent]);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html', 'blog');
+
+      expect(mockedCacheService.setSiteManifest).toHaveBeenCalledWith(
+        pubkey,
+        {
+          pubkey,
+          identifier: 'blog',
+          paths: { '/index.html': 'aaa111', '/404.html': 'bbb222' },
+          created_at: mockSiteEvent.created_at,
+          id: 'site-id',
+        },
+        'blog'
+      );
+    });
+
+    it('should not serve a named site whose manifest was deleted', async () => {
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([mockSiteEvent]);
+      jest.spyOn(nostrHelper as any, 'fetchDeletionRequests').mockResolvedValue([
+        {
+          id: 'deletion',
+          pubkey,
+          created_at: mockSiteEvent.created_at + 1,
+          kind: 5,
+          tags: [['a', `35128:${pubkey}:blog`]],
+          content: '',
+          sig: 'test-sig',
+        },
+      ]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html', 'blog');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setSiteDeletion).toHaveBeenCalledWith(
+        pubkey,
+        'blog',
+        mockSiteEvent.created_at + 1
+      );
+    });
+
+    it('should not fall back to per-path events for named sites', async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+      queryRelaysSpy.mockResolvedValue([]);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html', 'blog');
+
+      const kinds = queryRelaysSpy.mock.calls.map((call) => (call[1] as any).kinds);
+      expect(kinds).not.toContainEqual([34128]);
+    });
+
+    it('should fall back to the named site /404.html', async () => {
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([mockSiteEvent]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/missing.html', 'blog');
+
+      expect(sha256).toBe('bbb222');
+    });
+
+    it('should negatively cache per named site', async () => {
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/404.html', 'blog');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setNegativeCache).toHaveBeenCalledWith(
+        `mapping:${pubkey}:blog:/404.html`
+      );
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const cachedMapping = { pubkey, path: '/index.html', sha256: 'old-sha256', created_at: 100 };
+    const fileEvent = (sha256: string, created_at: number) => ({
+      id: `event-${created_at}`,
+      pubkey,
+      created_at,
+      kind: 34128,
+      tags: [
+        ['d', '/index.html'],
+        ['x', sha256],
+      ],
+      content: '',
+      sig: 'test-sig',
+    });
+
+    const settleRevalidations = () =>
+      Promise.all(Array.from((nostrHelper as any).revalidations.values()));
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should serve a fresh entry without querying relays', async () => {
+      mockedCacheService.getBlobForPathEntry.mockResolvedValue({
+        value: cachedMapping,
+        stale: false,
+      });
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays');
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBe('old-sha256');
+      expect(queryRelaysSpy).not.toHaveBeenCalled();
+    });
+
+    it('should serve a stale entry immediately and store a newer event', async () => {
+      mockedCacheService.getBlobForPathEntry.mockResolvedValue({
+        value: cachedMapping,
+        stale: true,
+      });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([fileEvent('new', 200)]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      expect(sha256).toBe('old-sha256');
+
+      await settleRevalidations();
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(pubkey, '/index.html', {
+        ...cachedMapping,
+        sha256: 'new',
+        created_at: 200,
+        id: 'event-200',
+      });
+    });
+
+    it('should keep the cached mapping when the refresh finds nothing newer', async () => {
+      mockedCacheService.getBlobForPathEntry.mockResolvedValue({
+        value: cachedMapping,
+        stale: true,
+      });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([fileEvent('older', 50)]);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      await settleRevalidations();
+
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(
+        pubkey,
+        '/index.html',
+        cachedMapping
+      );
+    });
+
+    it('should refresh each key only once at a time', async () => {
+      mockedCacheService.getBlobForPathEntry.mockResolvedValue({
+        value: cachedMapping,
+        stale: true,
+      });
+      let answer: (events: any[]) => void = () => undefined;
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockImplementation(() => new Promise((resolve) => (answer = resolve)));
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      while (queryRelaysSpy.mock.calls.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      answer([fileEvent('new', 200)]);
+      await settleRevalidations();
+
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve a stale manifest and keep it when the relays find nothing', async () => {
+      (nostrHelper.getSiteManifest as jest.Mock).mockRestore();
+      const manifest = { pubkey, paths: { '/index.html': 'old-sha256' }, created_at: 100 };
+      mockedCacheService.getSiteManifestEntry.mockResolvedValue({ value: manifest, stale: true });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+
+      expect(await nostrHelper.getSiteManifest(pubkey)).toBe(manifest);
+      await settleRevalidations();
+
+      expect(mockedCacheService.setSiteManifest).toHaveBeenCalledWith(pubkey, manifest, undefined);
+    });
+
+    it('should replace a stale manifest with a newer event', async () => {
+      (nostrHelper.getSiteManifest as jest.Mock).mockRestore();
+      mockedCacheService.getSiteManifestEntry.mockResolvedValue({
+        value: { pubkey, identifier: 'blog', paths: { '/index.html': 'old' }, created_at: 100 },
+        stale: true,
+      });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([
+        {
+          ...fileEvent('unused', 200),
+          kind: 35128,
+          tags: [
+            ['d', 'blog'],
+            ['path', '/index.html', 'new'],
+          ],
+        },
+      ]);
+
+      await nostrHelper.getSiteManifest(pubkey, 'blog');
+      await settleRevalidations();
+
+      expect(mockedCacheService.setSiteManifest).toHaveBeenCalledWith(
+        pubkey,
+        expect.objectContaining({ paths: { '/index.html': 'new' }, created_at: 200 }),
+        'blog'
+      );
+    });
+
+    it('should keep a stale relay list when the refresh finds none', async () => {
+      const cachedRelays = [{ url: 'wss://custom-relay.com', read: true, write: true }];
+      (nostrHelper.getRelayList as jest.Mock).mockRestore();
+      mockedCacheService.getRelaysEntry.mockResolvedValue({ value: cachedRelays, stale: true });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+
+      const relays = await nostrHelper.getRelayList(pubkey);
+      await settleRevalidations();
+
+      expect(relays).toEqual(cachedRelays);
+      expect(mockedCacheService.setRelaysForPubkey).toHaveBeenCalledWith(
+        pubkey,
+        cachedRelays,
+        undefined,
+        undefined
+      );
+    });
+
+    it('should not roll a stale relay list back to an older event', async () => {
+      const cachedRelays = [{ url: 'wss://new-relay.com', read: true, write: true }];
+      const source = { created_at: 200, id: 'newer' };
+      (nostrHelper.getRelayList as jest.Mock).mockRestore();
+      mockedCacheService.getRelaysEntry.mockResolvedValue({
+        value: cachedRelays,
+        stale: true,
+        source,
+      });
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([
+        {
+          id: 'older',
+          pubkey,
+          created_at: 100,
+          kind: 10002,
+          tags: [['r', 'wss://old-relay.com']],
+          content: '',
+          sig: 'test-sig',
+        },
+      ]);
+
+      await nostrHelper.getRelayList(pubkey);
+      await settleRevalidations();
+
+      expect(mockedCacheService.setRelaysForPubkey).toHaveBeenCalledTimes(1);
+      expect(mockedCacheService.setRelaysForPubkey).toHaveBeenCalledWith(
+        pubkey,
+        cachedRelays,
+        undefined,
+        source
+      );
+    });
+  });
+
+  describe('request coalescing', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const mockEvent = {
+      id: 'test-id',
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 34128,
+      tags: [
+        ['d', '/index.html'],
+        ['x', 'a'.repeat(64)],
+      ],
+      content: '',
+      sig: 'test-sig',
+    };
+
+    it('should share one relay query between concurrent lookups of a path', async () => {
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([mockEvent]);
+
+      const results = await Promise.all(
+        [1, 2, 3].map(() => nostrHelper.getStaticFileMapping(pubkey, '/index.html'))
+      );
+
+      expect(results).toEqual(['a'.repeat(64), 'a'.repeat(64), 'a'.repeat(64)]);
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(nostrHelper.getStats().coalescing.mappings).toMatchObject({
+        calls: 3,
+        deduplicated: 2,
+      });
+    });
+
+    it('should share one relay list query between concurrent cache misses', async () => {
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+
+      await Promise.all([nostrHelper.getRelayList(pubkey), nostrHelper.getRelayList(pubkey)]);
+
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(nostrHelper.getStats().coalescing.relayLists.deduplicated).toBe(1);
+    });
+
+    it('should share one server list query between concurrent cache misses', async () => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      const queryRelaysSpy = jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+
+      await Promise.all([
+        nostrHelper.getBlossomServers(pubkey),
+        nostrHelper.getBlossomServers(pubkey),
+      ]);
+
+      // One query per outbox tier (write relays, then every relay)
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(2);
+      expect(nostrHelper.getStats().coalescing.serverLists.deduplicated).toBe(1);
+    });
+  });
+
+  describe('path lookup batching', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const fileEvent = (path: string, sha256: string) => ({
+      id: `event-${path}`,
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 34128,
+      tags: [
+        ['d', path],
+        ['x', sha256],
+      ],
+      content: '',
+      sig: 'test-sig',
+    });
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should merge concurrent lookups of different paths into one filter', async () => {
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([
+          fileEvent('/index.html', 'a'.repeat(64)),
+          fileEvent('/app.js', 'b'.repeat(64)),
+        ]);
+
+      const results = await Promise.all([
+        nostrHelper.getStaticFileMapping(pubkey, '/index.html'),
+        nostrHelper.getStaticFileMapping(pubkey, '/app.js'),
+      ]);
+
+      expect(results).toEqual(['a'.repeat(64), 'b'.repeat(64)]);
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(queryRelaysSpy.mock.calls[0][1]).toMatchObject({
+        kinds: [34128],
+        '#d': ['/index.html', '/app.js'],
+      });
+      expect(nostrHelper.getStats().pathBatches).toEqual({ batches: 1, paths: 2 });
+    });
+
+    it('should pick the newest version of each path without limiting the query', async () => {
+      const version = (path: string, sha256: string, created_at: number) => ({
+        ...fileEvent(path, sha256),
+        id: `event-${path}-${created_at}`,
+        created_at,
+      });
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([
+          version('/index.html', 'a'.repeat(64), 100),
+          version('/index.html', 'c'.repeat(64), 300),
+          version('/index.html', 'd'.repeat(64), 200),
+          version('/app.js', 'b'.repeat(64), 100),
+        ]);
+
+      const results = await Promise.all([
+        nostrHelper.getStaticFileMapping(pubkey, '/index.html'),
+        nostrHelper.getStaticFileMapping(pubkey, '/app.js'),
+      ]);
+
+      expect(results).toEqual(['c'.repeat(64), 'b'.repeat(64)]);
+      expect(queryRelaysSpy.mock.calls[0][1]).not.toHaveProperty('limit');
+    });
+
+    it('should ask the next relay tier only for the unanswered paths', async () => {
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValueOnce([fileEvent('/index.html', 'a'.repeat(64))])
+        .mockResolvedValueOnce([fileEvent('/app.js', 'b'.repeat(64))]);
+
+      const results = await Promise.all([
+        nostrHelper.getStaticFileMapping(pubkey, '/index.html'),
+        nostrHelper.getStaticFileMapping(pubkey, '/app.js'),
+      ]);
+
+      expect(results).toEqual(['a'.repeat(64), 'b'.repeat(64)]);
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(2);
+      expect(queryRelaysSpy.mock.calls[1][1]).toMatchObject({ '#d': ['/app.js'] });
+    });
+  });
+
+  describe('fetchPathTable', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const fileEvent = (path: string, sha256: string, created_at: number) => ({
+      id: `event-${path}-${created_at}`,
+      pubkey,
+      created_at,
+      kind: 34128,
+      tags: [
+        ['d', path],
+        ['x', sha256],
+      ],
+      content: '',
+      sig: 'test-sig',
+    });
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should load every path of a pubkey with one query', async () => {
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([
+          fileEvent('/index.html', 'old', 100),
+          fileEvent('/index.html', 'new', 200),
+          fileEvent('/app.js', 'app', 100),
+        ]);
+
+      const mappings = await nostrHelper.fetchPathTable(pubkey, 500);
+
+      expect(queryRelaysSpy).toHaveBeenCalledTimes(1);
+      expect(queryRelaysSpy.mock.calls[0][1]).toEqual({
+        authors: [pubkey],
+        kinds: [34128],
+        limit: 500,
+      });
+      expect(mappings.map((mapping) => [mapping.path, mapping.sha256])).toEqual([
+        ['/index.html', 'new'],
+        ['/app.js', 'app'],
+      ]);
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledTimes(2);
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(pubkey, '/index.html', {
+        pubkey,
+        path: '/index.html',
+        sha256: 'new',
+        created_at: 200,
+        id: 'event-/index.html-200',
+      });
+    });
+
+    it('should not replace newer cached mappings', async () => {
+      const cached = { pubkey, path: '/index.html', sha256: 'cached', created_at: 300 };
+      mockedCacheService.getBlobForPath.mockResolvedValue(cached);
+      jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([fileEvent('/index.html', 'older', 200)]);
+
+      const mappings = await nostrHelper.fetchPathTable(pubkey, 500);
+
+      expect(mappings).toEqual([cached]);
+      expect(mockedCacheService.setBlobForPath).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchSiteManifests', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const manifestEvent = (kind: number, d: string | null, sha256: string, created_at: number) => ({
+      id: `manifest-${kind}-${d}-${created_at}`,
+      pubkey,
+      created_at,
+      kind,
+      tags: [...(d !== null ? [['d', d]] : []), ['path', '/index.html', sha256]],
+      content: '',
+      sig: 'test-sig',
+    });
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should load the newest manifest of the root site and every named site', async () => {
+      const queryRelaysSpy = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([
+          manifestEvent(15128, null, 'root', 100),
+          manifestEvent(35128, 'blog', 'old', 100),
+          manifestEvent(35128, 'blog', 'new', 200),
+          manifestEvent(35128, 'docs', 'docs', 100),
+        ]);
+
+      const manifests = await nostrHelper.fetchSiteManifests(pubkey);
+
+      expect(queryRelaysSpy.mock.calls[0][1]).toEqual({
+        authors: [pubkey],
+        kinds: [15128, 35128],
+      });
+      expect(manifests.map((manifest) => [manifest.identifier, manifest.paths])).toEqual([
+        [undefined, { '/index.html': 'root' }],
+        ['blog', { '/index.html': 'new' }],
+        ['docs', { '/index.html': 'docs' }],
+      ]);
+      expect(mockedCacheService.setSiteManifest).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave out deleted manifests', async () => {
+      mockedCacheService.getSiteDeletion.mockImplementation(async (_pubkey, identifier) =>
+        identifier === 'blog' ? 150 : null
+      );
+      jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockResolvedValue([
+          manifestEvent(35128, 'blog', 'deleted', 100),
+          manifestEvent(35128, 'docs', 'docs', 100),
+        ]);
+
+      const manifests = await nostrHelper.fetchSiteManifests(pubkey);
+
+      expect(manifests.map((manifest) => manifest.identifier)).toEqual(['docs']);
+    });
+  });
+
+  describe('expiration (NIP-40)', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const expiration = Math.floor(Date.now() / 1000) + 3600;
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+    });
+
+    it('should read the expiration tag of an event', () => {
+      const event = (tags: string[][]) => ({ tags }) as any;
+
+      expect(NostrHelper.getExpiration(event([['expiration', '1700000000']]))).toBe(1700000000);
+      expect(NostrHelper.getExpiration(event([['expiration', 'tomorrow']]))).toBeUndefined();
+      expect(NostrHelper.getExpiration(event([]))).toBeUndefined();
+      expect(NostrHelper.isExpired(event([['expiration', '1700000000']]))).toBe(true);
+      expect(NostrHelper.isExpired(event([['expiration', String(expiration)]]))).toBe(false);
+    });
+
+    it('should cache a path mapping until its event expires', async () => {
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([
+        {
+          id: 'campaign',
+          pubkey,
+          created_at: 100,
+          kind: 34128,
+          tags: [
+            ['d', '/campaign.html'],
+            ['x', 'a'.repeat(64)],
+            ['expiration', String(expiration)],
+          ],
+          content: '',
+          sig: 'test-sig',
+        },
+      ]);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/campaign.html');
+
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(
+        pubkey,
+        '/campaign.html',
+        expect.objectContaining({ sha256: 'a'.repeat(64), expiration })
+      );
+    });
+
+    it('should cache a Blossom server list until its event expires', async () => {
+      jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([
+        {
+          id: 'servers',
+          pubkey,
+          created_at: 100,
+          kind: 10063,
+          tags: [
+            ['server', 'https://blossom.example.com'],
+            ['expiration', String(expiration)],
+          ],
+          content: '',
+          sig: 'test-sig',
+        },
+      ]);
+
+      await nostrHelper.getBlossomServers(pubkey);
+
+      expect(mockedCacheService.setBlossomServersForPubkey).toHaveBeenCalledWith(
+        pubkey,
+        ['https://blossom.example.com'],
+        expiration,
+        expect.objectContaining({ id: 'servers', created_at: 100 })
+      );
+    });
+  });
+
+  describe('deletions (NIP-09)', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const fileEvent = (created_at: number) => ({
+      id: `event-${created_at}`,
+      pubkey,
+      created_at,
+      kind: 34128,
+      tags: [
+        ['d', '/index.html'],
+        ['x', `sha-${created_at}`],
+      ],
+      content: '',
+      sig: 'test-sig',
+    });
+    const deletion = (created_at: number, tags: string[][], author = pubkey) => ({
+      id: `deletion-${created_at}`,
+      pubkey: author,
+      created_at,
+      kind: 5,
+      tags,
+      content: '',
+      sig: 'test-sig',
+    });
+    const coordinate = ['a', `34128:${pubkey}:/index.html`];
+
+    let fetchDeletionRequests: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockImplementation(async (_relays, filter: any) =>
+          filter['#d'].includes('/index.html') ? [fileEvent(100)] : []
+        );
+      fetchDeletionRequests = nostrHelper['fetchDeletionRequests'] as unknown as jest.SpyInstance;
+    });
+
+    it('should not serve a mapping deleted by its a coordinate', async () => {
+      fetchDeletionRequests.mockResolvedValue([deletion(150, [coordinate])]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setPathDeletion).toHaveBeenCalledWith(pubkey, '/index.html', 150);
+      expect(mockedCacheService.setBlobForPath).not.toHaveBeenCalled();
+    });
+
+    it('should look up deletions by coordinate and by id with one REQ', async () => {
+      fetchDeletionRequests.mockRestore();
+      const queryRelays = nostrHelper['queryRelays'] as unknown as jest.SpyInstance;
+      queryRelays.mockImplementation(async (_relays, filter: any) =>
+        Array.isArray(filter) ? [deletion(150, [['e', 'event-100']])] : [fileEvent(100)]
+      );
+
+      expect(await nostrHelper.getStaticFileMapping(pubkey, '/index.html')).toBeNull();
+      const lookups = queryRelays.mock.calls.filter(([, filter]) => Array.isArray(filter));
+      expect(lookups).toHaveLength(1);
+      expect(lookups[0][1]).toEqual([
+        { authors: [pubkey], kinds: [5], '#a': [coordinate[1]] },
+        { authors: [pubkey], kinds: [5], '#e': ['event-100'] },
+      ]);
+    });
+
+    it('should not serve a mapping deleted by event id', async () => {
+      fetchDeletionRequests.mockResolvedValue([deletion(150, [['e', 'event-100']])]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setPathDeletion).toHaveBeenCalledWith(pubkey, '/index.html', 100);
+    });
+
+    it('should ignore deletion requests by other authors', async () => {
+      fetchDeletionRequests.mockResolvedValue([deletion(150, [coordinate], 'b'.repeat(64))]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBe('sha-100');
+      expect(mockedCacheService.setPathDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should serve a mapping re-published after the deletion', async () => {
+      fetchDeletionRequests.mockResolvedValue([deletion(50, [coordinate])]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBe('sha-100');
+    });
+
+    it('should remember deletions when a relay still serves the deleted event', async () => {
+      mockedCacheService.getPathDeletion.mockResolvedValue(150);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setPathDeletion).toHaveBeenCalledWith(pubkey, '/index.html', 150);
+    });
+
+    it('should not restore a stale mapping once it is deleted', async () => {
+      mockedCacheService.getBlobForPathEntry.mockResolvedValue({
+        value: { pubkey, path: '/index.html', sha256: 'sha-100', created_at: 100 },
+        stale: true,
+      });
+      fetchDeletionRequests.mockResolvedValue([deletion(150, [coordinate])]);
+      mockedCacheService.getPathDeletion.mockResolvedValueOnce(null).mockResolvedValue(150);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      await Promise.all(Array.from((nostrHelper as any).revalidations.values()));
+
+      expect(mockedCacheService.setPathDeletion).toHaveBeenCalledWith(pubkey, '/index.html', 150);
+      expect(mockedCacheService.setBlobForPath).not.toHaveBeenCalled();
+    });
+
+    it('should parse the paths and event ids of a deletion request', () => {
+      const request = NostrHelper.parseDeletionRequest(
+        deletion(150, [
+          coordinate,
+          ['a', `34128:${'b'.repeat(64)}:/other.html`],
+          ['a', `30023:${pubkey}:article`],
+          ['a', `15128:${pubkey}:`],
+          ['a', `35128:${pubkey}:blog`],
+          ['e', 'event-100'],
+          ['k', '34128'],
+        ])
+      );
+
+      expect(request).toEqual({
+        paths: ['/index.html'],
+        sites: ['', 'blog'],
+        eventIds: ['event-100'],
+      });
+    });
+  });
+
+  describe('event store', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const storedEvent = (kind: number, tags: string[][]) => ({
+      id: `stored-${kind}`,
+      pubkey,
+      created_at: 100,
+      kind,
+      tags,
+      content: '',
+      sig: 'test-sig',
+    });
+
+    let eventStore: { query: jest.Mock; save: jest.Mock; deleteAddress: jest.Mock };
+    let queryRelays: jest.SpyInstance;
+
+    const settleRevalidations = () =>
+      Promise.all(Array.from((nostrHelper as any).revalidations.values()));
+
+    beforeEach(() => {
+      eventStore = {
+        query: jest.fn().mockResolvedValue([]),
+        save: jest.fn().mockResolvedValue(true),
+        deleteAddress: jest.fn().mockResolvedValue(undefined),
+      };
+      (nostrHelper as any).eventStore = eventStore;
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      queryRelays = jest.spyOn(nostrHelper as any, 'queryRelays').mockResolvedValue([]);
+    });
+
+    it('should answer a path lookup from the store and refresh it in the background', async () => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      eventStore.query.mockResolvedValue([
+        storedEvent(34128, [
+          ['d', '/index.html'],
+          ['x', 'stored-sha256'],
+        ]),
+      ]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBe('stored-sha256');
+      expect(eventStore.query).toHaveBeenCalledWith([
+        { authors: [pubkey], kinds: [34128], '#d': ['/index.html'] },
+      ]);
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(pubkey, '/index.html', {
+        pubkey,
+        path: '/index.html',
+        sha256: 'stored-sha256',
+        created_at: 100,
+        id: 'stored-34128',
+      });
+
+      await settleRevalidations();
+      expect(queryRelays).toHaveBeenCalled();
+    });
+
+    it('should answer relay and server lists from the store', async () => {
+      eventStore.query.mockImplementation(async ([filter]: any[]) =>
+        filter.kinds[0] === 10002
+          ? [storedEvent(10002, [['r', 'wss://stored.example.com']])]
+          : [storedEvent(10063, [['server', 'https://stored.example.com']])]
+      );
+
+      const relays = await nostrHelper.getRelayList(pubkey);
+      const servers = await nostrHelper.getBlossomServers(pubkey);
+
+      expect(relays).toEqual([{ url: 'wss://stored.example.com', read: true, write: true }]);
+      expect(servers).toEqual(['https://stored.example.com']);
+      expect(mockedCacheService.setRelaysForPubkey).toHaveBeenCalledWith(
+        pubkey,
+        relays,
+        undefined,
+        expect.objectContaining({ id: 'stored-10002' })
+      );
+      expect(mockedCacheService.setBlossomServersForPubkey).toHaveBeenCalledWith(
+        pubkey,
+        servers,
+        undefined,
+        expect.objectContaining({ id: 'stored-10063' })
+      );
+    });
+
+    it('should answer a site manifest from the store unless it was deleted', async () => {
+      (nostrHelper.getSiteManifest as jest.Mock).mockRestore();
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      eventStore.query.mockResolvedValue([
+        storedEvent(35128, [
+          ['d', 'blog'],
+          ['path', '/index.html', 'stored-sha256'],
+        ]),
+      ]);
+
+      const manifest = await nostrHelper.getSiteManifest(pubkey, 'blog');
+
+      expect(manifest?.paths).toEqual({ '/index.html': 'stored-sha256' });
+      expect(eventStore.query).toHaveBeenCalledWith([
+        { authors: [pubkey], kinds: [35128], '#d': ['blog'] },
+      ]);
+      await settleRevalidations();
+      expect(queryRelays).toHaveBeenCalled();
+
+      mockedCacheService.getSiteDeletion.mockResolvedValue(100);
+      mockedCacheService.setSiteManifest.mockClear();
+
+      const deleted = await nostrHelper.getSiteManifest(pubkey, 'blog');
+
+      expect(deleted?.paths).toEqual({});
+      expect(mockedCacheService.setSiteManifest).toHaveBeenCalledTimes(1);
+      expect(eventStore.deleteAddress).toHaveBeenCalledWith(pubkey, 35128, 'blog', 100);
+    });
+
+    it('should not serve a stored event that was deleted since, and remove it', async () => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      mockedCacheService.getPathDeletion.mockResolvedValue(150);
+      eventStore.query.mockResolvedValue([
+        storedEvent(34128, [
+          ['d', '/index.html'],
+          ['x', 'deleted-sha256'],
+        ]),
+      ]);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(mockedCacheService.setBlobForPath).not.toHaveBeenCalled();
+      expect(eventStore.deleteAddress).toHaveBeenCalledWith(pubkey, 34128, '/index.html', 150);
+      expect(queryRelays).toHaveBeenCalled();
+    });
+
+    it('should query relays when the store has nothing', async () => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(queryRelays).toHaveBeenCalled();
+    });
+
+    it('should remove deleted events from the store', async () => {
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      queryRelays.mockResolvedValue([
+        storedEvent(34128, [
+          ['d', '/index.html'],
+          ['x', 'deleted-sha256'],
+        ]),
+      ]);
+      (nostrHelper as any).fetchDeletionRequests.mockResolvedValue([
+        {
+          ...storedEvent(5, [['a', `34128:${pubkey}:/index.html`]]),
+          created_at: 150,
+        },
+      ]);
+
+      await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(eventStore.deleteAddress).toHaveBeenCalledWith(pubkey, 34128, '/index.html', 150);
+    });
+  });
+
+  describe('pinned sites', () => {
+    const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+    const mapping = { pubkey, path: '/index.html', sha256: 'pinned-sha256', created_at: 100 };
+
+    let pinnedStore: { isPinned: jest.Mock; getMapping: jest.Mock; deletePath: jest.Mock };
+    let queryRelays: jest.SpyInstance;
+
+    const settleRevalidations = () =>
+      Promise.all(Array.from((nostrHelper as any).revalidations.values()));
+
+    beforeEach(() => {
+      pinnedStore = {
+        isPinned: jest.fn((candidate: string) => candidate === pubkey),
+        getMapping: jest.fn().mockResolvedValue(mapping),
+        deletePath: jest.fn().mockResolvedValue(undefined),
+      };
+      (nostrHelper as any).pinnedStore = pinnedStore;
+      jest.spyOn(nostrHelper, 'getSiteManifest').mockResolvedValue(null);
+      jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue(damusRelay);
+      queryRelays = jest
+        .spyOn(nostrHelper as any, 'queryRelays')
+        .mockRejectedValue(new Error('all relays failed'));
+    });
+
+    it('should answer from the pinned copy while relays fail', async () => {
+      mockedCacheService.isNegativeCached.mockResolvedValue(true);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+      await settleRevalidations();
+
+      expect(sha256).toBe('pinned-sha256');
+      expect(pinnedStore.getMapping).toHaveBeenCalledWith(pubkey, '/index.html');
+      expect(mockedCacheService.setBlobForPath).toHaveBeenCalledWith(
+        pubkey,
+        '/index.html',
+        mapping
+      );
+      expect(queryRelays).toHaveBeenCalled();
+    });
+
+    it('should not serve pinned mappings that were deleted since, and forget them', async () => {
+      mockedCacheService.getPathDeletion.mockResolvedValue(150);
+
+      const sha256 = await nostrHelper.getStaticFileMapping(pubkey, '/index.html');
+
+      expect(sha256).toBeNull();
+      expect(pinnedStore.deletePath).toHaveBeenCalledWith(pubkey, '/index.html', 150);
+    });
+
+    it('should not look up sites that are not pinned', async () => {
+      await nostrHelper.getStaticFileMapping('b'.repeat(64), '/index.html');
+
+      expect(pinnedStore.getMapping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queryRelays', () => {
+    const relays = [1, 2, 3, 4, 5].map((i) => `wss://relay${i}.example.com`);
+    const filter = { kinds: [10063], authors: ['a'.repeat(64)] };
+
+    // Fake pool where each relay answers with the given events and then EOSE
+    const mockPool = (answers: Record<string, any[] | Error>) => {
+      const subscribe = jest.fn();
+      (nostrHelper as any).pool = {
+        close: jest.fn(),
+        ensureRelay: jest.fn(async (url: string) => {
+          const answer = answers[url] || [];
+          if (answer instanceof Error) {
+            throw answer;
+          }
+          return {
+            subscribe: (_filters: any[], params: any) => {
+              subscribe(url);
+              setTimeout(() => {
+                answer.forEach((event) => params.onevent(event));
+                params.oneose();
+              }, 5);
+              return { close: jest.fn() };
+            },
+          };
+        }),
+      };
+      return subscribe;
+    };
+
+    it('should only query the best relays and widen when they come back empty', async () => {
+      const event = { id: 'e1', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      const subscribe = mockPool({ [relays[4]]: [event] });
+
+      const events = await (nostrHelper as any).queryRelays(relays, filter, 2000);
+
+      expect(events).toEqual([event]);
+      expect(subscribe.mock.calls.map(([url]) => url)).toEqual(relays);
+    });
+
+    it('should not ask the remaining relays when the selected ones answer', async () => {
+      const event = { id: 'e1', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      const subscribe = mockPool({ [relays[0]]: [event], [relays[1]]: [event] });
+
+      const events = await (nostrHelper as any).queryRelays(relays, filter, 2000);
+
+      expect(events).toEqual([event]);
+      expect(subscribe).toHaveBeenCalledTimes(3);
+    });
+
+    it('should drop events with a bad signature or from other authors', async () => {
+      const valid = { id: 'e1', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      const forged = { id: 'e2', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      const otherAuthor = { id: 'e3', pubkey: 'b'.repeat(64), kind: 10063, tags: [] };
+      (verifyEvent as unknown as jest.Mock).mockImplementation((event) => event.id !== 'e2');
+      mockPool({ [relays[0]]: [valid, forged, otherAuthor] });
+
+      const events = await (nostrHelper as any).queryRelays(relays.slice(0, 1), filter, 2000);
+
+      expect(events).toEqual([valid]);
+    });
+
+    it('should keep verified events in the event store', async () => {
+      const eventStore = { save: jest.fn().mockResolvedValue(true) };
+      (nostrHelper as any).eventStore = eventStore;
+      const valid = { id: 'e1', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      const forged = { id: 'e2', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+      (verifyEvent as unknown as jest.Mock).mockImplementation((event) => event.id !== 'e2');
+      mockPool({ [relays[0]]: [valid, forged] });
+
+      await (nostrHelper as any).queryRelays(relays.slice(0, 1), filter, 2000);
+
+      expect(eventStore.save).toHaveBeenCalledTimes(1);
+      expect(eventStore.save).toHaveBeenCalledWith(valid);
+    });
+
+    it('should drop addressable events with a different d tag', async () => {
+      const pathFilter = { kinds: [34128], authors: ['a'.repeat(64)], '#d': ['/index.html'] };
+      const wanted = {
+        id: 'e1',
+        pubkey: 'a'.repeat(64),
+        kind: 34128,
+        tags: [['d', '/index.html']],
+      };
+      const other = { ...wanted, id: 'e2', tags: [['d', '/other.html']] };
+      mockPool({ [relays[0]]: [other, wanted] });
+
+      const events = await (nostrHelper as any).queryRelays(relays.slice(0, 1), pathFilter, 2000);
+
+      expect(events).toEqual([wanted]);
+    });
+
+    it('should drop expired events (NIP-40)', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const event = (id: string, tags: string[][]) => ({
+        id,
+        pubkey: 'a'.repeat(64),
+        kind: 10063,
+        tags,
+      });
+      const current = event('e1', [['expiration', String(now + 3600)]]);
+      const expired = event('e2', [['expiration', String(now - 1)]]);
+      const unparsable = event('e3', [['expiration', 'soon']]);
+      mockPool({ [relays[0]]: [current, expired, unparsable] });
+
+      const events = await (nostrHelper as any).queryRelays(relays.slice(0, 1), filter, 2000);
+
+      expect(events).toEqual([current, unparsable]);
+    });
+
+    it('should wait for every relay instead of returning the first answer', async () => {
+      const pathFilter = { kinds: [34128], authors: ['a'.repeat(64)], '#d': ['/index.html'] };
+      const old = {
+        id: 'old',
+        pubkey: 'a'.repeat(64),
+        kind: 34128,
+        created_at: 1000,
+        tags: [['d', '/index.html']],
+      };
+      const latest = { ...old, id: 'new', created_at: 2000 };
+      mockPool({ [relays[0]]: [old], [relays[1]]: [latest] });
+
+      const events = await (nostrHelper as any).queryRelays(relays.slice(0, 2), pathFilter, 2000);
+
+      expect(NostrHelper.selectLatestEvent(events)).toBe(latest);
+    });
+
+    it('should score relays from their responses', async () => {
+      mockPool({ [relays[0]]: new Error('connection refused') });
+
+      await (nostrHelper as any).queryRelays(relays.slice(0, 2), filter, 2000);
+
+      const { relayScores } = nostrHelper.getStats();
+      expect(relayScores[relays[0]]).toMatchObject({ queries: 1, errorRate: 0.2, eoseMs: null });
+      expect(relayScores[relays[1]]).toMatchObject({ queries: 1, errorRate: 0 });
+      expect(relayScores[relays[1]].eoseMs).toEqual(expect.any(Number));
+      expect(relayScores[relays[1]].score).toBeGreaterThan(relayScores[relays[0]].score);
+    });
+  });
+
+  describe('relay authentication (NIP-42)', () => {
+    const relay = 'wss://private.example.com';
+    const filter = { kinds: [10063], authors: ['a'.repeat(64)] };
+    const event = { id: 'e1', pubkey: 'a'.repeat(64), kind: 10063, tags: [] };
+    const signer = {
+      getPublicKey: jest.fn(async () => 'c'.repeat(64)),
+      signEvent: jest.fn(async (template: any) => ({ ...template, id: 'auth', sig: 'sig' })),
+    };
+
+    // Fake relay that closes subscriptions with auth-required until AUTH succeeds
+    const mockPrivateRelay = (authError?: Error) => {
+      let authenticated = false;
+      const privateRelay = {
+        auth: jest.fn(async (sign: (template: any) => Promise<any>) => {
+          await sign({ kind: 22242, tags: [['relay', relay]], content: '', created_at: 0 });
+          if (authError) {
+            throw authError;
+          }
+          authenticated = true;
+          return 'ok';
+        }),
+        subscribe: jest.fn((_filters: any[], params: any) => {
+          setTimeout(() => {
+            if (authenticated) {
+              params.onevent(event);
+              params.oneose();
+            } else {
+              params.onclose('auth-required: members only');
+            }
+          }, 5);
+          return { close: jest.fn() };
+        }),
+      };
+      (nostrHelper as any).pool = {
+        close: jest.fn(),
+        ensureRelay: jest.fn(async () => privateRelay),
+      };
+      return privateRelay;
+    };
+
+    beforeEach(() => {
+      nostrHelper.closeAllConnections();
+      nostrHelper = new NostrHelper(signer);
+      nostrHelper['config'].updateConfig({ authRelays: [`${relay}/`] });
+    });
+
+    afterEach(() => {
+      nostrHelper['config'].updateConfig({ authRelays: [] });
+    });
+
+    it('should authenticate to opted-in relays and send the query again', async () => {
+      const privateRelay = mockPrivateRelay();
+
+      const events = await (nostrHelper as any).queryRelays([relay], filter, 2000);
+
+      expect(events).toEqual([event]);
+      expect(privateRelay.auth).toHaveBeenCalledTimes(1);
+      expect(privateRelay.subscribe).toHaveBeenCalledTimes(2);
+      expect(signer.signEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: 22242 }));
+      expect(nostrHelper.getStats().auth).toEqual({ enabled: true, attempts: 1, failures: 0 });
+    });
+
+    it('should not authenticate to relays that are not opted in', async () => {
+      nostrHelper['config'].updateConfig({ authRelays: [] });
+      const privateRelay = mockPrivateRelay();
+
+      const events = await (nostrHelper as any).queryRelays([relay], filter, 2000);
+
+      expect(events).toEqual([]);
+      expect(privateRelay.auth).not.toHaveBeenCalled();
+      expect(nostrHelper.getStats().relayScores[relay]).toMatchObject({ errorRate: 0.2 });
+    });
+
+    it('should count a failed authentication as a relay error', async () => {
+      const privateRelay = mockPrivateRelay(new Error('restricted: not a member'));
+
+      const events = await (nostrHelper as any).queryRelays([relay], filter, 2000);
+
+      expect(events).toEqual([]);
+      expect(privateRelay.subscribe).toHaveBeenCalledTimes(1);
+      expect(nostrHelper.getStats().auth).toEqual({ enabled: true, attempts: 1, failures: 1 });
+      expect(nostrHelper.getStats().relayScores[relay]).toMatchObject({ closeRate: 0 });
+    });
+  });
+
   describe('getStats', () => {
     it('should return connection statistics', () => {
       const stats = nostrHelper.getStats();
@@ -0,0 +1,99 @@
+import {
+  applyBasePathToLocation,
+  parseSitePath,
+  prefixBasePath,
+  rewriteCss,
+  rewriteHtml,
+} from '../../helpers/path-routing';
+
+describe('Path Routing', () => {
+  const basePath = '/npub1abc';
+
+  describe('parseSitePath', () => {
+    it('should split the site label from the site path', () => {
+      expect(parseSitePath('/npub1abc/assets/app.js')).toEqual({
+        siteLabel: 'npub1abc',
+        basePath: '/npub1abc',
+        path: '/assets/app.js',
+      });
+    });
+
+    it('should support named sites and missing trailing slashes', () => {
+      expect(parseSitePath('/blog.npub1abc/')?.path).toBe('/');
+      expect(parseSitePath('/blog.npub1abc')).toEqual({
+        siteLabel: 'blog.npub1abc',
+        basePath: '/blog.npub1abc',
+        path: '',
+      });
+    });
+
+    it('should return null for the gateway root', () => {
+      expect(parseSitePath('/')).toBeNull();
+    });
+  });
+
+  describe('prefixBasePath', () => {
+    it('should prefix root-relative URLs only', () => {
+      expect(prefixBasePath('/style.css', basePath)).toBe('/npub1abc/style.css');
+      expect(prefixBasePath('style.css', basePath)).toBe('style.css');
+      expect(prefixBasePath('//cdn.example.com/x.js', basePath)).toBe('//cdn.example.com/x.js');
+      expect(prefixBasePath('https://example.com/', basePath)).toBe('https://example.com/');
+    });
+
+    it('should not prefix URLs twice', () => {
+      expect(prefixBasePath('/npub1abc/style.css', basePath)).toBe('/npub1abc/style.css');
+      expect(prefixBasePath('/npub1abc', basePath)).toBe('/npub1abc');
+    });
+  });
+
+  describe('rewriteHtml', () => {
+    it('should rewrite root-relative attributes and inline styles', () => {
+      const html = [
+        '<link rel="stylesheet" href="/style.css">',
+        "<script src='/app.js'></script>",
+        '<a href=/about/>About</a>',
+        '<a href="relative.html">Relative</a>',
+        '<img src="https://example.com/logo.png">',
+        '<div style="background: url(/bg.png)"></div>',
+      ].join('\n');
+
+      const result = rewriteHtml(html, basePath);
+
+      expect(result).toContain('href="/npub1abc/style.css"');
+      expect(result).toContain("src='/npub1abc/app.js'");
+      expect(result).toContain('href=/npub1abc/about/');
+      expect(result).toContain('href="relative.html"');
+      expect(result).toContain('src="https://example.com/logo.png"');
+      expect(result).toContain('url(/npub1abc/bg.png)');
+    });
+  });
+
+  describe('rewriteCss', () => {
+    it('should rewrite root-relative url() references', () => {
+      const css = `@font-face { src: url("/fonts/a.woff2"); } body { background: url('img/b.png'); }`;
+
+      const result = rewriteCss(css, basePath);
+
+      expect(result).toContain('url("/npub1abc/fonts/a.woff2")');
+      expect(result).toContain("url('img/b.png')");
+    });
+  });
+
+  describe('applyBasePathToLocation', () => {
+    it('should prefix root-relative Location headers', () => {
+      const headers: Record<string, unknown> = {};
+      const res = {
+        setHeader: jest.fn((name: string, value: unknown) => {
+          headers[name] = value;
+        }),
+      } as any;
+
+      applyBasePathToLocation(res, basePath);
+      res.setHeader('Location', '/docs/');
+      res.setHeader('Content-Type', 'text/html');
+
+      expect(headers.Location).toBe('/npub1abc/docs/');
+      expect(headers['Content-Type']).toBe('text/html');
+    });
+  });
+});
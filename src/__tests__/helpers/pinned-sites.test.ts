@@ -0,0 +1,179 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    logNostr: jest.fn(),
+    logBlossom: jest.fn(),
+  },
+}));
+
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BlossomHelper } from '../../helpers/blossom';
+import { NostrHelper } from '../../helpers/nostr';
+import { PinnedSiteService } from '../../helpers/pinned-sites';
+import { ParsedEvent, SiteManifest } from '../../types';
+import { CacheService } from '../../utils/cache';
+import { PinnedSiteStore } from '../../utils/pinned-store';
+
+describe('PinnedSiteService', () => {
+  const pubkey = 'e0d2'.repeat(16);
+  const blob = (text: string) => {
+    const content = new Uint8Array(Buffer.from(text));
+    return { content, sha256: createHash('sha256').update(content).digest('hex') };
+  };
+  const home = blob('<h1>home</h1>');
+  const newHome = blob('<h1>new home</h1>');
+  const guide = blob('<h1>guide</h1>');
+  const post = blob('<h1>first post</h1>');
+  const blobs = [home, newHome, guide, post];
+
+  const published = (path: string, sha256: string, created_at: number): ParsedEvent => ({
+    pubkey,
+    path,
+    sha256,
+    created_at,
+    id: `${created_at}`.padStart(64, '0'),
+  });
+  const blogManifest: SiteManifest = {
+    pubkey,
+    identifier: 'blog',
+    paths: { '/index.html': post.sha256 },
+    created_at: 1700000300,
+  };
+
+  let directory: string;
+  let store: PinnedSiteStore;
+  let nostrHelper: NostrHelper;
+  let blossomHelper: BlossomHelper;
+  let service: PinnedSiteService;
+  let fetchPathTable: jest.SpyInstance;
+  let fetchSiteManifests: jest.SpyInstance;
+  let downloadBlob: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await CacheService.clearAll();
+    directory = mkdtempSync(join(tmpdir(), 'pinned-sites-'));
+    store = new PinnedSiteStore(directory, [pubkey]);
+    nostrHelper = new NostrHelper(null, null, store);
+    blossomHelper = new BlossomHelper(store);
+    service = new PinnedSiteService(store, nostrHelper, blossomHelper);
+
+    fetchPathTable = jest.spyOn(nostrHelper, 'fetchPathTable').mockResolvedValue([
+      published('/index.html', home.sha256, 1700000000),
+      published('/docs/guide.html', guide.sha256, 1700000000),
+    ]);
+    fetchSiteManifests = jest.spyOn(nostrHelper, 'fetchSiteManifests').mockResolvedValue([]);
+    jest.spyOn(nostrHelper, 'getBlossomServers').mockResolvedValue(['https://cdn.example.org']);
+    downloadBlob = jest
+      .spyOn(blossomHelper, 'downloadBlob')
+      .mockImplementation(
+        async (sha256) => blobs.find((candidate) => candidate.sha256 === sha256)?.content ?? null
+      );
+  });
+
+  afterEach(() => {
+    nostrHelper.closeAllConnections();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep stored paths that a partial refresh leaves out', async () => {
+    await service.refresh(pubkey);
+    fetchPathTable.mockResolvedValue([published('/index.html', newHome.sha256, 1700000100)]);
+
+    expect(await service.refresh(pubkey)).toBe(true);
+
+    expect((await store.getMapping(pubkey, '/index.html'))?.sha256).toBe(newHome.sha256);
+    expect((await store.getMapping(pubkey, '/docs/guide.html'))?.sha256).toBe(guide.sha256);
+  });
+
+  it('should not let a relay with an outdated copy roll a path back', async () => {
+    fetchPathTable.mockResolvedValue([published('/index.html', newHome.sha256, 1700000100)]);
+    await service.refresh(pubkey);
+    fetchPathTable.mockResolvedValue([published('/index.html', home.sha256, 1700000000)]);
+
+    await service.refresh(pubkey);
+
+    expect((await store.getMapping(pubkey, '/index.html'))?.sha256).toBe(newHome.sha256);
+  });
+
+  it('should drop stored paths that were deleted since', async () => {
+    await service.refresh(pubkey);
+    await CacheService.setPathDeletion(pubkey, '/docs/guide.html', 1700000050);
+    fetchPathTable.mockResolvedValue([published('/index.html', home.sha256, 1700000000)]);
+
+    await service.refresh(pubkey);
+
+    expect(await store.getMapping(pubkey, '/docs/guide.html')).toBeNull();
+  });
+
+  it('should keep deleted paths out once the cache has forgotten the deletion', async () => {
+    await service.refresh(pubkey);
+    await CacheService.setPathDeletion(pubkey, '/docs/guide.html', 1700000050);
+    await service.refresh(pubkey);
+
+    // A relay that still has the deleted event, after a restart emptied the cache
+    await CacheService.clearAll();
+    const restartedStore = new PinnedSiteStore(directory, [pubkey]);
+    await new PinnedSiteService(restartedStore, nostrHelper, blossomHelper).refresh(pubkey);
+
+    expect(await restartedStore.getMapping(pubkey, '/docs/guide.html')).toBeNull();
+    expect(await restartedStore.getMapping(pubkey, '/index.html')).not.toBeNull();
+  });
+
+  it('should only remove blobs that no stored path points to anymore', async () => {
+    await service.refreshAll();
+    fetchPathTable.mockResolvedValue([published('/index.html', newHome.sha256, 1700000100)]);
+
+    await service.refreshAll();
+
+    expect(await store.hasBlob(home.sha256)).toBe(false);
+    expect(await store.hasBlob(newHome.sha256)).toBe(true);
+    expect(await store.hasBlob(guide.sha256)).toBe(true);
+  });
+
+  it('should pin named sites and download blobs past the file cache', async () => {
+    fetchPathTable.mockResolvedValue([]);
+    fetchSiteManifests.mockResolvedValue([blogManifest]);
+
+    await service.refreshAll();
+
+    expect(await store.getManifest(pubkey, 'blog')).toEqual(blogManifest);
+    expect(await store.hasBlob(post.sha256)).toBe(true);
+    expect(downloadBlob).toHaveBeenCalledWith(post.sha256, ['https://cdn.example.org']);
+    expect(await CacheService.getFileContent(post.sha256)).toBeNull();
+  });
+
+  it('should keep the copy when the relays return nothing', async () => {
+    await service.refresh(pubkey);
+    fetchPathTable.mockResolvedValue([]);
+    downloadBlob.mockClear();
+
+    expect(await service.refresh(pubkey)).toBe(false);
+    expect((await store.getSite(pubkey))?.paths).toHaveLength(2);
+    expect(downloadBlob).not.toHaveBeenCalled();
+  });
+
+  it('should serve the pinned copy while the relays are down', async () => {
+    fetchSiteManifests.mockResolvedValue([blogManifest]);
+    await service.refresh(pubkey);
+    await CacheService.clearAll();
+
+    jest.spyOn(nostrHelper, 'getRelayList').mockResolvedValue([
+      { url: 'wss://relay.example.org', read: true, write: true },
+    ]);
+    jest.spyOn(nostrHelper as any, 'queryRelays').mockRejectedValue(new Error('relays down'));
+
+    expect(await nostrHelper.getStaticFileMapping(pubkey, '/docs/guide.html')).toBe(
+      guide.sha256
+    );
+    expect(await nostrHelper.getStaticFileMapping(pubkey, '/index.html', 'blog')).toBe(
+      post.sha256
+    );
+    await Promise.all(Array.from((nostrHelper as any).revalidations.values()));
+  });
+});
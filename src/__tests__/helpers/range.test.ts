@@ -0,0 +1,224 @@
+import express from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import request from 'supertest';
+import {
+  formatContentRange,
+  isIfRangeSatisfied,
+  parseRangeHeader,
+  prepareRangeResponse,
+  RangeStream,
+} from '../../helpers/range';
+
+// Feed a stream in small chunks, like a download, and collect what comes out
+const collect = async (stream: RangeStream, content: Buffer, chunkSize = 3): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    chunks.push(content.subarray(offset, offset + chunkSize));
+  }
+
+  const output: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => output.push(chunk));
+  await pipeline(Readable.from(chunks), stream);
+  return Buffer.concat(output).toString();
+};
+
+describe('Range Requests', () => {
+  describe('parseRangeHeader', () => {
+    it('should parse single ranges', () => {
+      expect(parseRangeHeader('bytes=0-99', 1000)).toEqual([{ start: 0, end: 99 }]);
+      expect(parseRangeHeader('bytes=500-', 1000)).toEqual([{ start: 500, end: 999 }]);
+      expect(parseRangeHeader('bytes=-100', 1000)).toEqual([{ start: 900, end: 999 }]);
+    });
+
+    it('should clamp ranges to the file size', () => {
+      expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual([{ start: 900, end: 999 }]);
+      expect(parseRangeHeader('bytes=-5000', 1000)).toEqual([{ start: 0, end: 999 }]);
+    });
+
+    it('should parse and coalesce multiple ranges', () => {
+      expect(parseRangeHeader('bytes=0-9, 20-29', 100)).toEqual([
+        { start: 0, end: 9 },
+        { start: 20, end: 29 },
+      ]);
+      expect(parseRangeHeader('bytes=50-59,0-9,5-20', 100)).toEqual([
+        { start: 0, end: 20 },
+        { start: 50, end: 59 },
+      ]);
+    });
+
+    it('should report unsatisfiable ranges', () => {
+      expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=0-10', 0)).toBe('unsatisfiable');
+    });
+
+    it('should ignore malformed headers', () => {
+      expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=10-5', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=abc', 1000)).toBeNull();
+    });
+
+    it('should ignore requests with too many ranges', () => {
+      const specs = Array.from({ length: 21 }, (_, i) => `${i * 10}-${i * 10 + 1}`).join(',');
+      expect(parseRangeHeader(`bytes=${specs}`, 1000)).toBeNull();
+    });
+  });
+
+  describe('isIfRangeSatisfied', () => {
+    const etag = '"abc123"';
+
+    it('should pass without an If-Range header', () => {
+      expect(isIfRangeSatisfied(undefined, etag)).toBe(true);
+    });
+
+    it('should only match the exact ETag', () => {
+      expect(isIfRangeSatisfied('"abc123"', etag)).toBe(true);
+      expect(isIfRangeSatisfied('"other"', etag)).toBe(false);
+      expect(isIfRangeSatisfied('W/"abc123"', etag)).toBe(false);
+      expect(isIfRangeSatisfied('Wed, 21 Oct 2015 07:28:00 GMT', etag)).toBe(false);
+    });
+  });
+
+  describe('RangeStream', () => {
+    const content = Buffer.from('0123456789');
+
+    it('should only pass the bytes of a range', async () => {
+      expect(await collect(new RangeStream([{ start: 2, end: 7 }]), content)).toBe('234567');
+      expect(await collect(new RangeStream([{ start: 9, end: 9 }]), content)).toBe('9');
+    });
+
+    it('should wrap ranges that span chunks in multipart parts', async () => {
+      const stream = new RangeStream(
+        [
+          { start: 1, end: 4 },
+          { start: 8, end: 9 },
+        ],
+        { boundary: 'b', contentType: 'text/plain', size: 10 }
+      );
+
+      expect(await collect(stream, content)).toBe(
+        '--b\r\nContent-Type: text/plain\r\nContent-Range: bytes 1-4/10\r\n\r\n1234\r\n' +
+          '--b\r\nContent-Type: text/plain\r\nContent-Range: bytes 8-9/10\r\n\r\n89\r\n' +
+          '--b--\r\n'
+      );
+    });
+
+    it('should read the whole input before ending', async () => {
+      const stream = new RangeStream([{ start: 0, end: 1 }]);
+      let read = 0;
+      const source = Readable.from([content.subarray(0, 5), content.subarray(5)]).on(
+        'data',
+        (chunk: Buffer) => (read += chunk.length)
+      );
+
+      stream.resume();
+      await pipeline(source, stream);
+
+      expect(read).toBe(content.length);
+    });
+
+    it('should not end the range when the input fails', async () => {
+      const stream = new RangeStream([{ start: 0, end: 9 }]);
+      const output: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => output.push(chunk));
+      const source = new Readable({ read() {} });
+
+      const done = pipeline(source, stream);
+      source.push(content.subarray(0, 5));
+      source.push(content.subarray(5));
+      source.destroy(new Error('SHA256 mismatch'));
+
+      await expect(done).rejects.toThrow('SHA256 mismatch');
+      expect(Buffer.concat(output).length).toBeLessThan(content.length);
+    });
+  });
+
+  describe('prepareRangeResponse', () => {
+    const content = Buffer.from('0123456789');
+    const etag = '"abc123"';
+
+    // Serves the content like the streaming branch of the server
+    const app = express();
+    app.get('/file', async (req, res) => {
+      res.set({ 'Content-Type': 'text/plain', ETag: etag });
+      const range = prepareRangeResponse(req, res, content.length, 'text/plain', etag);
+      if (range === 'unsatisfiable') {
+        res.end();
+        return;
+      }
+      if (!range) {
+        res.set('Content-Length', content.length.toString());
+      }
+      await (range
+        ? pipeline(Readable.from([content]), range, res)
+        : pipeline(Readable.from([content]), res));
+    });
+
+    it('should answer a single range with 206', async () => {
+      const response = await request(app).get('/file').set('Range', 'bytes=2-5');
+
+      expect(response.status).toBe(206);
+      expect(response.headers['content-range']).toBe('bytes 2-5/10');
+      expect(response.headers['content-length']).toBe('4');
+      expect(response.text).toBe('2345');
+    });
+
+    it('should answer several ranges with a multipart/byteranges body', async () => {
+      const response = await request(app)
+        .get('/file')
+        .set('Range', 'bytes=0-1,8-9')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks).toString()));
+        });
+
+      const contentType = response.headers['content-type'];
+      const boundary = contentType.replace('multipart/byteranges; boundary=', '');
+      const body = response.body as string;
+
+      expect(response.status).toBe(206);
+      expect(response.headers['content-length']).toBe(Buffer.byteLength(body).toString());
+      expect(body).toContain(`--${boundary}\r\nContent-Type: text/plain\r\n`);
+      expect(body).toContain('Content-Range: bytes 0-1/10\r\n\r\n01\r\n');
+      expect(body).toContain('Content-Range: bytes 8-9/10\r\n\r\n89\r\n');
+      expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    });
+
+    it('should answer unsatisfiable ranges with 416', async () => {
+      const response = await request(app).get('/file').set('Range', 'bytes=20-');
+
+      expect(response.status).toBe(416);
+      expect(response.headers['content-range']).toBe('bytes */10');
+    });
+
+    it('should serve the full file when If-Range does not match', async () => {
+      const response = await request(app)
+        .get('/file')
+        .set('Range', 'bytes=2-5')
+        .set('If-Range', '"other"');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('0123456789');
+    });
+
+    it('should serve the range when If-Range matches', async () => {
+      const response = await request(app)
+        .get('/file')
+        .set('Range', 'bytes=-3')
+        .set('If-Range', etag);
+
+      expect(response.status).toBe(206);
+      expect(response.text).toBe('789');
+    });
+  });
+
+  describe('formatContentRange', () => {
+    it('should format the Content-Range value', () => {
+      expect(formatContentRange({ start: 0, end: 99 }, 1000)).toBe('bytes 0-99/1000');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { RelayScoreTracker } from '../../helpers/relay-score';
+
+describe('RelayScoreTracker', () => {
+  let tracker: RelayScoreTracker;
+
+  beforeEach(() => {
+    tracker = new RelayScoreTracker(['wss://pinned.example.com']);
+  });
+
+  describe('getScore', () => {
+    it('should score fast relays above slow ones', () => {
+      tracker.recordEose('wss://fast.com', 100);
+      tracker.recordEose('wss://slow.com', 2500);
+
+      expect(tracker.getScore('wss://fast.com')).toBeGreaterThan(
+        tracker.getScore('wss://slow.com')
+      );
+    });
+
+    it('should use time-to-first-event when it is faster than EOSE', () => {
+      tracker.recordEose('wss://a.com', 2000);
+      tracker.recordEose('wss://b.com', 2000);
+      tracker.recordFirstEvent('wss://b.com', 100);
+
+      expect(tracker.getScore('wss://b.com')).toBeGreaterThan(tracker.getScore('wss://a.com'));
+    });
+
+    it('should penalise errors, closes and timeouts', () => {
+      const unknown = tracker.getScore('wss://unknown.com');
+
+      tracker.recordError('wss://error.com');
+      tracker.recordClose('wss://closed.com');
+      tracker.recordTimeout('wss://timeout.com');
+
+      expect(tracker.getScore('wss://error.com')).toBeLessThan(unknown);
+      expect(tracker.getScore('wss://closed.com')).toBeLessThan(unknown);
+      expect(tracker.getScore('wss://timeout.com')).toBeLessThan(unknown);
+    });
+  });
+
+  describe('order', () => {
+    it('should put pinned relays first and sort the rest by score', () => {
+      tracker.recordEose('wss://pinned.example.com', 3000);
+      tracker.recordEose('wss://fast.com', 100);
+      tracker.recordTimeout('wss://flaky.com');
+
+      expect(
+        tracker.order(['wss://flaky.com', 'wss://fast.com', 'wss://pinned.example.com'])
+      ).toEqual(['wss://pinned.example.com', 'wss://fast.com', 'wss://flaky.com']);
+    });
+  });
+
+  describe('selectFanOut', () => {
+    const relays = ['wss://a.com', 'wss://b.com', 'wss://c.com', 'wss://d.com'];
+
+    it('should stop once enough relays are expected to answer', () => {
+      expect(tracker.selectFanOut(relays, 2, 8)).toEqual({
+        selected: ['wss://a.com', 'wss://b.com'],
+        remaining: ['wss://c.com', 'wss://d.com'],
+      });
+    });
+
+    it('should fan out wider when relays are unreliable', () => {
+      for (let i = 0; i < 5; i++) {
+        tracker.recordTimeout('wss://a.com');
+        tracker.recordTimeout('wss://b.com');
+      }
+
+      const { selected } = tracker.selectFanOut(relays, 2.5, 8);
+
+      expect(selected).toEqual(['wss://c.com', 'wss://d.com', 'wss://a.com', 'wss://b.com']);
+    });
+
+    it('should respect the maximum fan-out but always include pinned relays', () => {
+      const { selected } = tracker.selectFanOut([...relays, 'wss://pinned.example.com'], 10, 2);
+
+      expect(selected).toEqual(['wss://pinned.example.com', 'wss://a.com']);
+    });
+
+    it('should query every relay with a target of 0', () => {
+      expect(tracker.selectFanOut(relays, 0, 2).selected).toEqual(relays);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report measurements per relay', () => {
+      tracker.recordFirstEvent('wss://a.com', 80);
+      tracker.recordEose('wss://a.com', 100);
+      tracker.recordEose('wss://a.com', 200);
+
+      expect(tracker.getStats()['wss://a.com']).toMatchObject({
+        queries: 2,
+        eoseMs: 120,
+        firstEventMs: 80,
+        errorRate: 0,
+        closeRate: 0,
+        timeoutRate: 0,
+      });
+    });
+  });
+});
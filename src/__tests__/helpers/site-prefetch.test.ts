@@ -0,0 +1,134 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    logNostr: jest.fn(),
+  },
+}));
+
+import { BlossomHelper } from '../../helpers/blossom';
+import { NostrHelper } from '../../helpers/nostr';
+import { SitePrefetcher } from '../../helpers/site-prefetch';
+import { ConfigManager } from '../../utils/config';
+import { logger } from '../../utils/logger';
+
+describe('SitePrefetcher', () => {
+  const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+  const servers = ['https://blossom.example.com'];
+  const mapping = (path: string, sha256: string) => ({ pubkey, path, sha256, created_at: 100 });
+  const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+  let nostrHelper: { fetchPathTable: jest.Mock; getBlossomServers: jest.Mock };
+  let blossomHelper: { fetchFile: jest.Mock };
+  let prefetcher: SitePrefetcher;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    ConfigManager.getInstance().updateConfig({
+      sitePrefetchEnabled: true,
+      sitePrefetchMaxPaths: 500,
+      sitePrefetchMaxBytes: 0,
+      sitePrefetchConcurrency: 1,
+    });
+
+    nostrHelper = {
+      fetchPathTable: jest.fn().mockResolvedValue([
+        mapping('/app.js', 'b'.repeat(64)),
+        mapping('/index.html', 'a'.repeat(64)),
+        mapping('/bundle.js', 'b'.repeat(64)),
+        mapping('/style.css', 'c'.repeat(64)),
+      ]),
+      getBlossomServers: jest.fn().mockResolvedValue(servers),
+    };
+    blossomHelper = {
+      fetchFile: jest.fn(async (sha256: string) => ({ sha256, contentLength: 1000 })),
+    };
+    prefetcher = new SitePrefetcher(
+      nostrHelper as unknown as NostrHelper,
+      blossomHelper as unknown as BlossomHelper
+    );
+  });
+
+  afterAll(() => {
+    ConfigManager.getInstance().updateConfig({
+      sitePrefetchMaxBytes: 0,
+      sitePrefetchConcurrency: 4,
+    });
+  });
+
+  it('should load the path table once and log it', async () => {
+    await prefetcher.prefetch(pubkey);
+    await prefetcher.prefetch(pubkey);
+
+    expect(nostrHelper.fetchPathTable).toHaveBeenCalledTimes(1);
+    expect(nostrHelper.fetchPathTable).toHaveBeenCalledWith(pubkey, 500);
+    expect(blossomHelper.fetchFile).not.toHaveBeenCalled();
+    expect(mockedLogger.logNostr).toHaveBeenCalledWith(
+      'prefetchSite',
+      pubkey,
+      true,
+      expect.objectContaining({ paths: 4, warmedFiles: 0, warmedBytes: 0 })
+    );
+  });
+
+  it('should do nothing when disabled', async () => {
+    ConfigManager.getInstance().updateConfig({ sitePrefetchEnabled: false });
+
+    await prefetcher.prefetch(pubkey);
+
+    expect(nostrHelper.fetchPathTable).not.toHaveBeenCalled();
+  });
+
+  it('should warm content within the byte budget, index first and each blob once', async () => {
+    ConfigManager.getInstance().updateConfig({ sitePrefetchMaxBytes: 2000 });
+
+    await prefetcher.prefetch(pubkey);
+
+    expect(blossomHelper.fetchFile.mock.calls).toEqual([
+      ['a'.repeat(64), servers, '/index.html'],
+      ['b'.repeat(64), servers, '/app.js'],
+    ]);
+    expect(mockedLogger.logNostr).toHaveBeenCalledWith(
+      'prefetchSite',
+      pubkey,
+      true,
+      expect.objectContaining({ warmedFiles: 2, warmedBytes: 2000 })
+    );
+  });
+
+  it('should fetch up to the configured number of files at once', async () => {
+    ConfigManager.getInstance().updateConfig({
+      sitePrefetchMaxBytes: 10000,
+      sitePrefetchConcurrency: 2,
+    });
+    let active = 0;
+    let maxActive = 0;
+    blossomHelper.fetchFile.mockImplementation(async (sha256: string) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { sha256, contentLength: 1000 };
+    });
+
+    await prefetcher.prefetch(pubkey);
+
+    expect(blossomHelper.fetchFile).toHaveBeenCalledTimes(3);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should log failures and retry on the next visit', async () => {
+    nostrHelper.fetchPathTable.mockRejectedValueOnce(new Error('relays unreachable'));
+
+    await prefetcher.prefetch(pubkey);
+    await prefetcher.prefetch(pubkey);
+
+    expect(mockedLogger.logNostr).toHaveBeenCalledWith('prefetchSite', pubkey, false, {
+      error: 'relays unreachable',
+    });
+    expect(nostrHelper.fetchPathTable).toHaveBeenCalledTimes(2);
+  });
+});
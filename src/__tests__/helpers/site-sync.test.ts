@@ -0,0 +1,363 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { AddressInfo } from 'net';
+import { finalizeEvent, generateSecretKey, getPublicKey, matchFilters, nip19 } from 'nostr-tools';
+import { WebSocket, WebSocketServer } from 'ws';
+import { CacheInvalidationService } from '../../helpers/cache-invalidation';
+import { NostrHelper } from '../../helpers/nostr';
+import { SiteSyncService } from '../../helpers/site-sync';
+import { NostrEvent } from '../../types';
+import { ConfigManager } from '../../utils/config';
+import { EventStore } from '../../utils/event-store';
+import { Negentropy } from '../../utils/negentropy';
+
+/**
+ * Minimal relay holding a fixed set of events; without NIP-77 it answers NEG-OPEN with a notice,
+ * or not at all when `silent`
+ */
+class FakeRelay {
+  public events: NostrEvent[] = [];
+  public received: unknown[][] = [];
+  public listening: Promise<void>;
+  // Takes over the answers when set
+  public onMessage?: (socket: WebSocket) => void;
+  private wss: WebSocketServer;
+
+  constructor(negentropy: boolean | 'silent') {
+    this.wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.listening = new Promise((resolve) => this.wss.once('listening', resolve));
+    this.wss.on('connection', (socket) => {
+      const sessions = new Map<string, Negentropy>();
+      const send = (message: unknown[]) => socket.send(JSON.stringify(message));
+
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        this.received.push(message);
+        if (this.onMessage) {
+          return this.onMessage(socket);
+        }
+        const [type, id] = message;
+
+        if (type === 'REQ') {
+          this.events
+            .filter((event) => matchFilters(message.slice(2), event as any))
+            .forEach((event) => send(['EVENT', id, event]));
+          send(['EOSE', id]);
+        } else if (type === 'CLOSE') {
+          return;
+        } else if (negentropy === 'silent') {
+          return;
+        } else if (!negentropy) {
+          send(['NOTICE', `unsupported message type ${type}`]);
+        } else if (type === 'NEG-OPEN') {
+          const matching = this.events.filter((event) => matchFilters([message[2]], event as any));
+          sessions.set(id, new Negentropy(matching));
+          send(['NEG-MSG', id, sessions.get(id)!.reconcile(message[3]).message]);
+        } else if (type === 'NEG-MSG') {
+          send(['NEG-MSG', id, sessions.get(id)!.reconcile(message[2]).message]);
+        } else if (type === 'NEG-CLOSE') {
+          sessions.delete(id);
+        }
+      });
+    });
+  }
+
+  public get url(): string {
+    return `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}`;
+  }
+
+  // Resolves once the service has disconnected, so all its messages have arrived
+  public idle(): Promise<void> {
+    return Promise.all(
+      Array.from(this.wss.clients).map(
+        (socket) => new Promise((resolve) => socket.once('close', resolve))
+      )
+    ).then(() => undefined);
+  }
+
+  public types(): unknown[] {
+    return this.received.map((message) => message[0]);
+  }
+
+  public close(): Promise<void> {
+    this.wss.clients.forEach((socket) => socket.terminate());
+    return new Promise((resolve) => this.wss.close(() => resolve()));
+  }
+}
+
+describe('SiteSyncService', () => {
+  const secretKey = generateSecretKey();
+  const pubkey = getPublicKey(secretKey);
+  const now = Math.floor(Date.now() / 1000);
+
+  const fileEvent = (path: string, created_at: number, sha256 = 'f'.repeat(64)): NostrEvent =>
+    finalizeEvent(
+      {
+        kind: 34128,
+        created_at,
+        tags: [
+          ['d', path],
+          ['x', sha256],
+        ],
+        content: '',
+      },
+      secretKey
+    ) as NostrEvent;
+
+  const deletion = (path: string, created_at: number): NostrEvent =>
+    finalizeEvent(
+      {
+        kind: 5,
+        created_at,
+        tags: [
+          ['a', `34128:${pubkey}:${path}`],
+          ['k', '34128'],
+        ],
+        content: '',
+      },
+      secretKey
+    ) as NostrEvent;
+
+  let relay: FakeRelay;
+  let nostrHelper: { getRelayList: jest.Mock };
+  let invalidation: { handleEvent: jest.Mock };
+
+  const createService = async (
+    negentropy: boolean | 'silent',
+    eventStore: EventStore | null = null
+  ) => {
+    relay = new FakeRelay(negentropy);
+    await relay.listening;
+    nostrHelper = {
+      getRelayList: jest.fn().mockResolvedValue([{ url: relay.url, read: true, write: true }]),
+    };
+    return new SiteSyncService(
+      nostrHelper as unknown as NostrHelper,
+      invalidation as unknown as CacheInvalidationService,
+      eventStore
+    );
+  };
+
+  const handedPaths = () =>
+    invalidation.handleEvent.mock.calls.map(([event]) => event.tags[0][1]).sort();
+
+  beforeEach(() => {
+    invalidation = { handleEvent: jest.fn().mockResolvedValue(undefined) };
+    ConfigManager.getInstance().updateConfig({ syncPubkeys: [], relayQueryTimeoutMs: 1000 });
+  });
+
+  afterEach(async () => {
+    await relay.close();
+  });
+
+  afterAll(() => {
+    ConfigManager.getInstance().updateConfig({ relayQueryTimeoutMs: 3000 });
+  });
+
+  it('should download only the events missing after a negentropy reconciliation', async () => {
+    const service = await createService(true);
+    relay.events = [fileEvent('/index.html', now - 100), fileEvent('/about.html', now - 100)];
+
+    expect(await service.syncPubkey(pubkey)).toBe(2);
+    expect(handedPaths()).toEqual(['/about.html', '/index.html']);
+    await relay.idle();
+
+    relay.events.push(fileEvent('/blog.html', now - 50));
+    relay.received = [];
+    invalidation.handleEvent.mockClear();
+
+    expect(await service.syncPubkey(pubkey)).toBe(1);
+    await relay.idle();
+    expect(handedPaths()).toEqual(['/blog.html']);
+    expect(relay.types()).toEqual(['NEG-OPEN', 'NEG-CLOSE', 'REQ', 'CLOSE']);
+    expect(relay.received[2][2]).toEqual(
+      expect.objectContaining({ ids: [relay.events[2].id], authors: [pubkey] })
+    );
+    expect(service.getStats()).toEqual(expect.objectContaining({ negentropy: 2, fallback: 0 }));
+  });
+
+  it('should hand on only the newest event of an address', async () => {
+    const service = await createService(true);
+    const newest = fileEvent('/index.html', now - 10, 'a'.repeat(64));
+    relay.events = [fileEvent('/index.html', now - 100), newest];
+
+    await service.syncPubkey(pubkey);
+
+    expect(invalidation.handleEvent).toHaveBeenCalledTimes(1);
+    expect(invalidation.handleEvent).toHaveBeenCalledWith(newest);
+  });
+
+  it('should fall back to since filters on relays without negentropy', async () => {
+    const service = await createService(false);
+    relay.events = [fileEvent('/index.html', now - 100)];
+
+    expect(await service.syncPubkey(pubkey)).toBe(1);
+    await relay.idle();
+    expect(relay.types()).toEqual(['NEG-OPEN', 'REQ', 'CLOSE']);
+    expect(relay.received[1][2]).not.toHaveProperty('since');
+
+    relay.received = [];
+    expect(await service.syncPubkey(pubkey)).toBe(0);
+    await relay.idle();
+    expect(relay.types()).toEqual(['REQ', 'CLOSE']);
+    expect(relay.received[0][2]).toEqual(
+      expect.objectContaining({
+        since: expect.any(Number),
+        kinds: [34128, 15128, 35128, 10002, 10063, 5],
+      })
+    );
+    expect(service.getStats()).toEqual(expect.objectContaining({ negentropy: 0, fallback: 2 }));
+  });
+
+  it('should offer negentropy again after a backoff once a relay refused it', async () => {
+    const service = await createService(false);
+    relay.events = [fileEvent('/index.html', now - 100)];
+    await service.syncPubkey(pubkey);
+    await relay.idle();
+
+    const later = Date.now() + 2 * 60 * 60 * 1000;
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(later);
+    try {
+      relay.received = [];
+      await service.syncPubkey(pubkey);
+      await relay.idle();
+    } finally {
+      dateNow.mockRestore();
+    }
+
+    expect(relay.types()).toEqual(['NEG-OPEN', 'REQ', 'CLOSE']);
+  });
+
+  it('should not give up on negentropy when a relay just does not answer', async () => {
+    const service = await createService('silent');
+    relay.events = [fileEvent('/index.html', now - 100)];
+
+    expect(await service.syncPubkey(pubkey)).toBe(1);
+    await relay.idle();
+
+    relay.received = [];
+    await service.syncPubkey(pubkey);
+    await relay.idle();
+
+    expect(relay.types()).toEqual(['NEG-OPEN', 'REQ', 'CLOSE']);
+    expect(service.getStats()).toEqual(expect.objectContaining({ negentropy: 0, fallback: 2 }));
+  });
+
+  it('should survive a relay that breaks the connection', async () => {
+    const service = await createService(true);
+    relay.onMessage = (socket) => (socket as any)._socket.write(Buffer.from([0xff, 0xff]));
+
+    expect(await service.syncPubkey(pubkey)).toBe(0);
+    expect(service.getStats()).toEqual(expect.objectContaining({ failures: 1 }));
+  });
+
+  it('should apply deletion requests to the event store', async () => {
+    const store = new EventStore(':memory:');
+    const realInvalidation = new CacheInvalidationService(null, store);
+    relay = new FakeRelay(true);
+    await relay.listening;
+    nostrHelper = {
+      getRelayList: jest.fn().mockResolvedValue([{ url: relay.url, read: true, write: true }]),
+    };
+    const service = new SiteSyncService(
+      nostrHelper as unknown as NostrHelper,
+      realInvalidation,
+      store
+    );
+    relay.events = [
+      deletion('/old.html', now - 50),
+      fileEvent('/old.html', now - 100),
+      fileEvent('/index.html', now - 100),
+    ];
+
+    try {
+      expect(await service.syncPubkey(pubkey)).toBe(3);
+
+      const stored = await store.query([{ authors: [pubkey], kinds: [34128] }]);
+      expect(stored.map((event) => event.tags[0][1])).toEqual(['/index.html']);
+    } finally {
+      await realInvalidation.shutdown();
+      await store.close();
+    }
+  });
+
+  it('should apply stored deletion requests to deleted events relays hand back', async () => {
+    const store = new EventStore(':memory:');
+    const realInvalidation = new CacheInvalidationService(null, store);
+    const deleted = fileEvent('/old.html', now - 100);
+    relay = new FakeRelay(true);
+    await relay.listening;
+    nostrHelper = {
+      getRelayList: jest.fn().mockResolvedValue([{ url: relay.url, read: true, write: true }]),
+    };
+    const sync = () =>
+      new SiteSyncService(
+        nostrHelper as unknown as NostrHelper,
+        realInvalidation,
+        store
+      ).syncPubkey(pubkey);
+    relay.events = [deletion('/old.html', now - 50), deleted];
+
+    try {
+      await sync();
+      await relay.idle();
+      expect(await store.query([{ authors: [pubkey], kinds: [5] }])).toHaveLength(1);
+
+      // After a restart, the relay still hands back the deleted event
+      relay.received = [];
+      expect(await sync()).toBe(2);
+      await relay.idle();
+
+      expect(await store.query([{ authors: [pubkey], kinds: [34128] }])).toEqual([]);
+      const requested = relay.received.find((message) => message[0] === 'REQ')!;
+      expect(requested[2]).toEqual(expect.objectContaining({ ids: [deleted.id] }));
+    } finally {
+      await realInvalidation.shutdown();
+      await store.close();
+    }
+  });
+
+  it('should skip events with invalid signatures', async () => {
+    const service = await createService(true);
+    const forged = { ...fileEvent('/index.html', now - 100), content: 'forged' };
+    relay.events = [forged];
+
+    expect(await service.syncPubkey(pubkey)).toBe(0);
+    expect(invalidation.handleEvent).not.toHaveBeenCalled();
+  });
+
+  it('should start from the events already in the event store', async () => {
+    const store = new EventStore(':memory:');
+    const stored = fileEvent('/index.html', now - 100);
+    await store.save(stored);
+
+    try {
+      const service = await createService(true, store);
+      relay.events = [stored, fileEvent('/about.html', now - 100)];
+
+      expect(await service.syncPubkey(pubkey)).toBe(1);
+      expect(handedPaths()).toEqual(['/about.html']);
+    } finally {
+      await store.close();
+    }
+  });
+
+  it('should sync every configured pubkey', async () => {
+    const service = await createService(true);
+    relay.events = [fileEvent('/index.html', now - 100)];
+    ConfigManager.getInstance().updateConfig({ syncPubkeys: [nip19.npubEncode(pubkey)] });
+
+    await service.syncAll();
+
+    expect(nostrHelper.getRelayList).toHaveBeenCalledWith(pubkey);
+    expect(invalidation.handleEvent).toHaveBeenCalledTimes(1);
+    expect(service.getStats()).toEqual(expect.objectContaining({ pubkeys: 1, rounds: 1 }));
+  });
+});
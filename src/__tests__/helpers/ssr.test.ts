@@ -105,8 +105,26 @@ describe('SimpleSSRHelper', () => {
         errorCacheTtlMs: 60000,
         // Query Timeout Configuration
         relayQueryTimeoutMs: 10000,
+        pathBatchWindowMs: 20,
+        // Relay Selection Configuration
+        pinnedRelays: [],
+        relayFanOutTarget: 3,
+        relayMaxFanOut: 8,
+        // Relay Authentication (NIP-42) Configuration
+        gatewaySecretKey: '',
+        authRelays: [],
+        // Event Store Configuration
+        eventStorePath: '',
+        eventStoreRetentionMs: 2592000000,
+        localRelayEnabled: false,
+        syncPubkeys: [],
+        syncIntervalMs: 300000,
+        pinnedPubkeys: [],
+        pinnedSitesPath: './data/pinned',
+        pinnedRefreshIntervalMs: 600000,
         // Advanced Cache Configuration
         cacheTime: 3600,
+        cacheSoftTtlMs: 300000,
         maxFileSize: 52428800, // 50MB in bytes
         // Real-time Cache Invalidation Configuration
         realtimeCacheInvalidation: false,
@@ -115,6 +133,31 @@ describe('SimpleSSRHelper', () => {
         invalidationReconnectDelayMs: 5000,
         // Sliding Expiration Configuration
         slidingExpiration: false,
+        // Custom Domain Configuration
+        customDomainsEnabled: false,
+        customDomainTxtPrefix: '_nostr',
+        // NIP-05 Name Subdomain Configuration
+        nip05Provider: '',
+        nip05RegistryFile: '',
+        nip05CacheTtlMs: 3600000,
+        // Pubkey Subdomain Configuration
+        canonicalPubkeyFormat: 'npub' as const,
+        // Path Routing Configuration
+        pathRouting: false,
+        // Streaming Configuration
+        streamingEnabled: true,
+        streamCacheMaxSize: 10485760,
+        // Blossom Fetch Strategy Configuration
+        blossomFetchStrategy: 'hedged' as const,
+        blossomHedgeDelayMs: 500,
+        blossomCircuitFailureThreshold: 5,
+        blossomCircuitCooldownMs: 30000,
+        blossomRateLimitBackoffMs: 10000,
+        // Site Prefetch Configuration
+        sitePrefetchEnabled: false,
+        sitePrefetchMaxPaths: 500,
+        sitePrefetchMaxBytes: 0,
+        sitePrefetchConcurrency: 4,
       };
 
       mockConfigManager.getConfig.mockReturnValue(disabledConfig);
@@ -7,6 +7,7 @@ jest.mock('../../utils/config', () => ({
       getConfig: jest.fn(() => ({
         cachePath: 'in-memory',
         cacheTime: 60, // 1 minute for tests
+        cacheSoftTtlMs: 30000, // 30 seconds
         fileContentCacheTtlMs: 30000, // 30 seconds
         negativeCacheTtlMs: 10000, // 10 seconds
       })),
@@ -81,7 +82,11 @@ describe('Advanced Caching System', () => {
   });
 
   describe('Relay Lists Cache', () => {
-    const relays = ['wss://relay.damus.io', 'wss://nos.lol', 'wss://relay.primal.net'];
+    const relays = [
+      { url: 'wss://relay.damus.io', read: true, write: true },
+      { url: 'wss://nos.lol', read: true, write: false },
+      { url: 'wss://relay.primal.net', read: false, write: true },
+    ];
 
     it('should cache and retrieve relays for pubkey', async () => {
       // Set relays
@@ -97,6 +102,26 @@ describe('Advanced Caching System', () => {
       const cachedRelays = await CacheService.getRelaysForPubkey('non-existent-pubkey');
       expect(cachedRelays).toBeNull();
     });
+
+    it('should keep the expiration of the relay list event', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const expiration = Math.floor(now / 1000) + 10;
+
+      try {
+        await CacheService.setRelaysForPubkey(testPubkey, relays, expiration);
+        expect(await CacheService.getRelaysEntry(testPubkey)).toEqual({
+          value: relays,
+          stale: false,
+          expiration,
+        });
+
+        dateSpy.mockReturnValue(now + 10000);
+        expect(await CacheService.getRelaysEntry(testPubkey)).toBeNull();
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
   });
 
   describe('Path to Blob Mapping Cache', () => {
@@ -137,6 +162,173 @@ describe('Advanced Caching System', () => {
       cachedEvent = await CacheService.getBlobForPath(testPubkey, testPath);
       expect(cachedEvent).toBeNull();
     });
+
+    it('should report entries past the soft TTL as stale', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      try {
+        await CacheService.setBlobForPath(testPubkey, testPath, testEvent);
+        expect(await CacheService.getBlobForPathEntry(testPubkey, testPath)).toEqual({
+          value: testEvent,
+          stale: false,
+        });
+
+        dateSpy.mockReturnValue(now + 30000);
+        expect(await CacheService.getBlobForPathEntry(testPubkey, testPath)).toEqual({
+          value: testEvent,
+          stale: true,
+        });
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+
+    it('should keep named site paths separate from the root site', async () => {
+      const namedEvent = { ...testEvent, sha256: 'named-site-sha256' };
+
+      await CacheService.setBlobForPath(testPubkey, testPath, testEvent);
+      await CacheService.setBlobForPath(testPubkey, testPath, namedEvent, 'blog');
+
+      expect(await CacheService.getBlobForPath(testPubkey, testPath)).toEqual(testEvent);
+      expect(await CacheService.getBlobForPath(testPubkey, testPath, 'blog')).toEqual(namedEvent);
+      expect(await CacheService.getBlobForPath(testPubkey, testPath, 'docs')).toBeNull();
+    });
+
+    it('should drop a mapping once its event expires (NIP-40)', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const expiring = { ...testEvent, expiration: Math.floor(now / 1000) + 10 };
+
+      try {
+        await CacheService.setBlobForPath(testPubkey, testPath, expiring);
+        expect(await CacheService.getBlobForPath(testPubkey, testPath)).toEqual(expiring);
+
+        dateSpy.mockReturnValue(now + 10000);
+        expect(await CacheService.getBlobForPath(testPubkey, testPath)).toBeNull();
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+
+    it('should not store a mapping whose event has already expired', async () => {
+      const expired = { ...testEvent, expiration: Math.floor(Date.now() / 1000) - 1 };
+
+      await CacheService.setBlobForPath(testPubkey, testPath, testEvent);
+      await CacheService.setBlobForPath(testPubkey, testPath, expired);
+
+      expect(await CacheService.getBlobForPath(testPubkey, testPath)).toBeNull();
+    });
+
+    it('should find a mapping by the id of its event', async () => {
+      const idEvent = { ...testEvent, id: 'event-id' };
+
+      await CacheService.setBlobForPath(testPubkey, testPath, idEvent);
+
+      expect(await CacheService.getBlobForEvent('event-id')).toEqual(idEvent);
+      expect(await CacheService.getBlobForEvent('other-id')).toBeNull();
+    });
+
+    it('should evict and negatively cache a deleted mapping', async () => {
+      await CacheService.setBlobForPath(testPubkey, testPath, testEvent);
+
+      const evicted = await CacheService.setPathDeletion(
+        testPubkey,
+        testPath,
+        testEvent.created_at
+      );
+
+      expect(evicted).toBe(true);
+      expect(await CacheService.getBlobForPath(testPubkey, testPath)).toBeNull();
+      expect(await CacheService.getPathDeletion(testPubkey, testPath)).toBe(testEvent.created_at);
+      const negativeKey = CacheService.getMappingNegativeKey(testPubkey, testPath);
+      expect(await CacheService.isNegativeCached(negativeKey)).toBe(true);
+    });
+
+    it('should keep a mapping re-published after the deletion', async () => {
+      await CacheService.setBlobForPath(testPubkey, testPath, testEvent);
+
+      const evicted = await CacheService.setPathDeletion(
+        testPubkey,
+        testPath,
+        testEvent.created_at - 1
+      );
+
+      expect(evicted).toBe(false);
+      expect(await CacheService.getBlobForPath(testPubkey, testPath)).toEqual(testEvent);
+      expect(await CacheService.getPathDeletion(testPubkey, testPath)).toBe(
+        testEvent.created_at - 1
+      );
+    });
+  });
+
+  describe('Site Manifest Cache', () => {
+    const testManifest = {
+      pubkey: testPubkey,
+      paths: { '/index.html': testSha256, '/style.css': 'fedcba0987654321' },
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    it('should cache and retrieve the path table of a site', async () => {
+      await CacheService.setSiteManifest(testPubkey, testManifest);
+
+      const cached = await CacheService.getSiteManifest(testPubkey);
+
+      expect(cached).toEqual(testManifest);
+    });
+
+    it('should keep named site manifests separate from the root site', async () => {
+      const namedManifest = { ...testManifest, identifier: 'blog', paths: {} };
+
+      await CacheService.setSiteManifest(testPubkey, testManifest);
+      await CacheService.setSiteManifest(testPubkey, namedManifest, 'blog');
+
+      expect(await CacheService.getSiteManifest(testPubkey)).toEqual(testManifest);
+      expect(await CacheService.getSiteManifest(testPubkey, 'blog')).toEqual(namedManifest);
+    });
+
+    it('should evict path mappings of paths a new manifest drops', async () => {
+      const mapping = (path: string) => ({
+        pubkey: testPubkey,
+        path,
+        sha256: testSha256,
+        created_at: 100,
+      });
+      await CacheService.setSiteManifest(testPubkey, testManifest);
+      await CacheService.setBlobForPath(testPubkey, '/index.html', mapping('/index.html'));
+      await CacheService.setBlobForPath(testPubkey, '/style.css', mapping('/style.css'));
+
+      await CacheService.setSiteManifest(testPubkey, {
+        ...testManifest,
+        paths: { '/index.html': testSha256 },
+      });
+
+      expect(await CacheService.getBlobForPath(testPubkey, '/index.html')).not.toBeNull();
+      expect(await CacheService.getBlobForPath(testPubkey, '/style.css')).toBeNull();
+    });
+
+    it('should invalidate a site manifest', async () => {
+      await CacheService.setSiteManifest(testPubkey, testManifest);
+      await CacheService.invalidateSiteManifest(testPubkey);
+
+      expect(await CacheService.getSiteManifest(testPubkey)).toBeNull();
+    });
+
+    it('should drop a manifest once its event expires (NIP-40)', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const expiring = { ...testManifest, expiration: Math.floor(now / 1000) + 10 };
+
+      try {
+        await CacheService.setSiteManifest(testPubkey, expiring);
+        expect(await CacheService.getSiteManifest(testPubkey)).toEqual(expiring);
+
+        dateSpy.mockReturnValue(now + 10000);
+        expect(await CacheService.getSiteManifest(testPubkey)).toBeNull();
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
   });
 
   describe('Blob URLs Cache', () => {
@@ -159,6 +351,32 @@ describe('Advanced Caching System', () => {
       const cachedUrls = await CacheService.getBlobURLs('non-existent-sha256');
       expect(cachedUrls).toBeNull();
     });
+
+    it('should remember the most recent holder first', async () => {
+      const blob = 'b'.repeat(64);
+
+      await CacheService.addBlobServer(blob, 'https://cdn.hzrd149.com');
+      await CacheService.addBlobServer(blob, 'https://blossom.primal.net');
+      await CacheService.addBlobServer(blob, 'https://cdn.hzrd149.com');
+
+      expect(await CacheService.getBlobURLs(blob)).toEqual([
+        'https://cdn.hzrd149.com',
+        'https://blossom.primal.net',
+      ]);
+    });
+
+    it('should forget holders that no longer serve the blob', async () => {
+      const blob = 'c'.repeat(64);
+
+      await CacheService.addBlobServer(blob, 'https://cdn.hzrd149.com');
+      await CacheService.addBlobServer(blob, 'https://blossom.primal.net');
+
+      await CacheService.removeBlobServer(blob, 'https://cdn.hzrd149.com');
+      expect(await CacheService.getBlobURLs(blob)).toEqual(['https://blossom.primal.net']);
+
+      await CacheService.removeBlobServer(blob, 'https://blossom.primal.net');
+      expect(await CacheService.getBlobURLs(blob)).toBeNull();
+    });
   });
 
   describe('File Content Cache', () => {
@@ -227,7 +445,10 @@ describe('Advanced Caching System', () => {
       const path = '/complex/test.html';
       const sha256 = 'complex-test-sha256';
       const servers = ['https://server1.com', 'https://server2.com'];
-      const relays = ['wss://relay1.com', 'wss://relay2.com'];
+      const relays = [
+        { url: 'wss://relay1.com', read: true, write: true },
+        { url: 'wss://relay2.com', read: true, write: false },
+      ];
       const urls = [`https://server1.com/${sha256}`, `https://server2.com/${sha256}`];
       const event = { pubkey, path, sha256, created_at: Date.now() };
       const content = new Uint8Array([1, 2, 3, 4, 5]);
@@ -0,0 +1,30 @@
+import { decodeBase36Pubkey, encodeBase36Pubkey } from '../../utils/base36';
+
+describe('base36 pubkey encoding', () => {
+  const testPubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+
+  it('should encode pubkeys as 50 lowercase characters', () => {
+    const encoded = encodeBase36Pubkey(testPubkey);
+
+    expect(encoded).toBe('0ygl461f4ecz5thkn8eksa36nepjpij86s83ti8yzokopd3ag5');
+    expect(encodeBase36Pubkey('0'.repeat(64))).toBe('0'.repeat(50));
+    expect(encodeBase36Pubkey('f'.repeat(64))).toHaveLength(50);
+  });
+
+  it('should round-trip pubkeys', () => {
+    for (const pubkey of [testPubkey, '0'.repeat(64), 'f'.repeat(64), '0'.repeat(63) + '1']) {
+      expect(decodeBase36Pubkey(encodeBase36Pubkey(pubkey))).toBe(pubkey);
+    }
+  });
+
+  it('should reject invalid encodings', () => {
+    expect(decodeBase36Pubkey('too-short')).toBeNull();
+    expect(decodeBase36Pubkey('A'.repeat(50))).toBeNull();
+    // Larger than 2^256 - 1
+    expect(decodeBase36Pubkey('z'.repeat(50))).toBeNull();
+  });
+
+  it('should throw on invalid hex pubkeys', () => {
+    expect(() => encodeBase36Pubkey('xyz')).toThrow('Invalid hex pubkey');
+  });
+});
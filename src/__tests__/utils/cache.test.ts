@@ -154,7 +154,7 @@ describe('CacheService Sliding Expiration', () => {
     const testDomain = 'npub1xyz.example.com';
     const testPubkey = '1234567890abcdef1234567890abcdef12345678';
     const testServers = ['https://blossom.example.com'];
-    const testRelays = ['wss://relay.example.com'];
+    const testRelays = [{ url: 'wss://relay.example.com', read: true, write: true }];
 
     beforeEach(() => {
       // Mock sliding expiration enabled
@@ -255,6 +255,17 @@ describe('CacheService Sliding Expiration', () => {
       expect(result2).toBe(testValue);
     });
 
+    it('should keep the own TTL of domain entries read without sliding', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await CacheService.setPubkeyForDomain(testKey, testValue, 1000);
+
+      expect(await CacheService.getPubkeyForDomain(testKey, false)).toBe(testValue);
+
+      dateSpy.mockReturnValue(now + 2000);
+      expect(await CacheService.getPubkeyForDomain(testKey, false)).toBeNull();
+    });
+
     it('should refresh TTL when getting blossom servers', async () => {
       const servers = ['https://server1.com', 'https://server2.com'];
 
@@ -267,7 +278,10 @@ describe('CacheService Sliding Expiration', () => {
     });
 
     it('should refresh TTL when getting relays', async () => {
-      const relays = ['wss://relay1.com', 'wss://relay2.com'];
+      const relays = [
+        { url: 'wss://relay1.com', read: true, write: true },
+        { url: 'wss://relay2.com', read: false, write: true },
+      ];
 
       // Set initial value
       await CacheService.setRelaysForPubkey(testKey, relays);
@@ -59,6 +59,7 @@ describe('ConfigManager', () => {
       ]);
       expect(config.cacheTtlSeconds).toBe(60); // From test setup
       expect(config.maxCacheSize).toBe(10); // From test setup
+      expect(config.sitePrefetchEnabled).toBe(false); // Opt-in
     });
   });
 
@@ -0,0 +1,180 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { NostrEvent } from '../../types';
+import { EventFilter, EventStore } from '../../utils/event-store';
+
+describe('EventStore', () => {
+  const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+  const now = Math.floor(Date.now() / 1000);
+  let store: EventStore;
+
+  const event = (overrides: Partial<NostrEvent>): NostrEvent => ({
+    id: 'a'.repeat(64),
+    pubkey,
+    kind: 34128,
+    created_at: now - 100,
+    tags: [],
+    content: '',
+    sig: 'sig',
+    ...overrides,
+  });
+
+  const fileEvent = (id: string, path: string, created_at: number, sha256 = 'f'.repeat(64)) =>
+    event({
+      id: id.repeat(64),
+      created_at,
+      tags: [
+        ['d', path],
+        ['x', sha256],
+      ],
+    });
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should keep only the newest event of an address', async () => {
+    expect(await store.save(fileEvent('1', '/index.html', now - 100))).toBe(true);
+    expect(await store.save(fileEvent('2', '/index.html', now - 50))).toBe(true);
+    expect(await store.save(fileEvent('3', '/index.html', now - 200))).toBe(false);
+    await store.save(fileEvent('4', '/about.html', now - 300));
+
+    const events = await store.query([
+      { authors: [pubkey], kinds: [34128], '#d': ['/index.html'] },
+    ]);
+
+    expect(events.map((e) => e.id)).toEqual(['2'.repeat(64)]);
+    expect(await store.count()).toBe(2);
+  });
+
+  it('should break created_at ties by the lowest id', async () => {
+    await store.save(fileEvent('b', '/index.html', now - 100));
+    await store.save(fileEvent('a', '/index.html', now - 100));
+    await store.save(fileEvent('c', '/index.html', now - 100));
+
+    const events = await store.query([{ kinds: [34128] }]);
+
+    expect(events.map((e) => e.id)).toEqual(['a'.repeat(64)]);
+  });
+
+  it('should treat relay and server lists as replaceable', async () => {
+    await store.save(event({ id: '1'.repeat(64), kind: 10002, tags: [['d', 'ignored']] }));
+    await store.save(
+      event({ id: '2'.repeat(64), kind: 10002, created_at: now - 10, tags: [['r', 'wss://a']] })
+    );
+    await store.save(event({ id: '3'.repeat(64), kind: 10063 }));
+
+    expect((await store.query([{ kinds: [10002] }])).map((e) => e.id)).toEqual(['2'.repeat(64)]);
+    expect(await store.count()).toBe(2);
+  });
+
+  it('should keep every deletion request', async () => {
+    await store.save(event({ id: '1'.repeat(64), kind: 5, tags: [['a', `34128:${pubkey}:/a`]] }));
+    await store.save(event({ id: '2'.repeat(64), kind: 5, tags: [['a', `34128:${pubkey}:/b`]] }));
+
+    expect(await store.query([{ kinds: [5] }])).toHaveLength(2);
+  });
+
+  it('should not store other kinds', async () => {
+    expect(await store.save(event({ kind: 1 }))).toBe(false);
+    expect(await store.count()).toBe(0);
+  });
+
+  it('should match NIP-01 filters', async () => {
+    await store.save(fileEvent('1', '/index.html', now - 300));
+    await store.save(fileEvent('2', '/about.html', now - 200));
+    await store.save(fileEvent('3', '/blog.html', now - 100));
+
+    const ids = async (filter: EventFilter) =>
+      (await store.query([filter])).map((e) => e.id.substring(0, 1));
+
+    expect(await ids({ kinds: [34128] })).toEqual(['3', '2', '1']);
+    expect(await ids({ ids: ['1'.repeat(64)] })).toEqual(['1']);
+    expect(await ids({ since: now - 200 })).toEqual(['3', '2']);
+    expect(await ids({ until: now - 200 })).toEqual(['2', '1']);
+    expect(await ids({ kinds: [34128], limit: 1 })).toEqual(['3']);
+    expect(await ids({ '#x': ['f'.repeat(64)], '#d': ['/about.html'] })).toEqual(['2']);
+    expect(await ids({ authors: ['b'.repeat(64)] })).toEqual([]);
+    expect(await ids({ authors: [] })).toEqual([]);
+    expect(await ids({ kinds: [34128], toString: ['x'] } as EventFilter)).toEqual(['3', '2', '1']);
+  });
+
+  it('should combine several filters without duplicates', async () => {
+    await store.save(fileEvent('1', '/index.html', now - 300));
+    await store.save(fileEvent('2', '/about.html', now - 200));
+
+    const events = await store.query([{ '#d': ['/index.html'] }, { kinds: [34128] }]);
+
+    expect(events.map((e) => e.id.substring(0, 1))).toEqual(['2', '1']);
+  });
+
+  it('should never store or return expired events (NIP-40)', async () => {
+    const expired = fileEvent('1', '/old.html', now - 100);
+    expired.tags.push(['expiration', String(now - 1)]);
+    const expiring = fileEvent('2', '/soon.html', now - 100);
+    expiring.tags.push(['expiration', String(now + 1)]);
+
+    expect(await store.save(expired)).toBe(false);
+    expect(await store.save(expiring)).toBe(true);
+    expect(await store.query([{ '#d': ['/soon.html'] }])).toHaveLength(1);
+
+    jest.spyOn(Date, 'now').mockReturnValue((now + 2) * 1000);
+    try {
+      expect(await store.query([{ '#d': ['/soon.html'] }])).toHaveLength(0);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should delete an address up to a timestamp', async () => {
+    await store.save(fileEvent('1', '/index.html', now - 100));
+    await store.save(fileEvent('2', '/about.html', now - 100));
+
+    await store.deleteAddress(pubkey, 34128, '/index.html', now - 200);
+    expect(await store.count()).toBe(2);
+
+    await store.deleteAddress(pubkey, 34128, '/index.html', now - 100);
+    expect(await store.query([{ '#d': ['/index.html'] }])).toEqual([]);
+    expect(await store.query([{ '#x': ['f'.repeat(64)] }])).toHaveLength(1);
+  });
+
+  it('should remove events not received again since the retention cutoff', async () => {
+    await store.save(fileEvent('1', '/index.html', now - 100));
+    await store.save(fileEvent('2', '/about.html', now - 100));
+
+    jest.spyOn(Date, 'now').mockReturnValue((now + 100) * 1000);
+    try {
+      expect(await store.save(fileEvent('1', '/index.html', now - 100))).toBe(false);
+      expect(await store.prune(now + 50)).toBe(1);
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect((await store.query([{ kinds: [34128] }])).map((e) => e.id)).toEqual(['1'.repeat(64)]);
+    expect(await store.query([{ '#d': ['/about.html'] }])).toEqual([]);
+  });
+
+  it('should tell listeners about stored events only', async () => {
+    const listener = jest.fn();
+    const stop = store.onEvent(listener);
+
+    await store.save(fileEvent('2', '/index.html', now - 100));
+    await store.save(fileEvent('1', '/index.html', now - 200));
+    stop();
+    await store.save(fileEvent('3', '/index.html', now - 50));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: '2'.repeat(64) }));
+  });
+});
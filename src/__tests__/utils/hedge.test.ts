@@ -0,0 +1,103 @@
+import { raceCandidates } from '../../utils/hedge';
+
+describe('raceCandidates', () => {
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Resolves with the candidate name after `ms`, or rejects if `ms` is negative
+  const makeAttempt = (timings: Record<string, number>) => {
+    const started: string[] = [];
+    const aborted: string[] = [];
+
+    const attempt = async (candidate: string, signal: AbortSignal) => {
+      started.push(candidate);
+      signal.addEventListener('abort', () => aborted.push(candidate));
+
+      const ms = timings[candidate];
+      await delay(Math.abs(ms));
+      if (ms < 0) {
+        throw new Error(`${candidate} failed`);
+      }
+      return candidate;
+    };
+
+    return { attempt, started, aborted };
+  };
+
+  it('should try candidates one at a time in sequential mode', async () => {
+    const { attempt, started } = makeAttempt({ a: -10, b: 10, c: 10 });
+    const onError = jest.fn();
+
+    const winner = await raceCandidates(['a', 'b', 'c'], attempt, {
+      strategy: 'sequential',
+      hedgeDelayMs: 1,
+      onError,
+    });
+
+    expect(winner).toEqual({ candidate: 'b', result: 'b' });
+    expect(started).toEqual(['a', 'b']);
+    expect(onError).toHaveBeenCalledWith('a', expect.any(Error));
+  });
+
+  it('should start the next candidate after the hedge delay and cancel the loser', async () => {
+    const { attempt, started, aborted } = makeAttempt({ a: 200, b: 10 });
+
+    const winner = await raceCandidates(['a', 'b'], attempt, {
+      strategy: 'hedged',
+      hedgeDelayMs: 20,
+    });
+
+    expect(winner?.candidate).toBe('b');
+    expect(started).toEqual(['a', 'b']);
+    expect(aborted).toEqual(['a']);
+  });
+
+  it('should not hedge when the first candidate answers quickly', async () => {
+    const { attempt, started } = makeAttempt({ a: 5, b: 5 });
+
+    const winner = await raceCandidates(['a', 'b'], attempt, {
+      strategy: 'hedged',
+      hedgeDelayMs: 100,
+    });
+
+    expect(winner?.candidate).toBe('a');
+    expect(started).toEqual(['a']);
+  });
+
+  it('should start every candidate at once in parallel mode', async () => {
+    const { attempt, started } = makeAttempt({ a: 50, b: 30, c: 5 });
+    const onDiscard = jest.fn();
+
+    const winner = await raceCandidates(['a', 'b', 'c'], attempt, {
+      strategy: 'parallel',
+      hedgeDelayMs: 1000,
+      onDiscard,
+    });
+    await delay(60);
+
+    expect(winner?.candidate).toBe('c');
+    expect(started).toEqual(['a', 'b', 'c']);
+    // Attempts that ignore the abort signal and still succeed are handed back
+    expect(onDiscard).toHaveBeenCalledWith('a', 'a');
+    expect(onDiscard).toHaveBeenCalledWith('b', 'b');
+  });
+
+  it('should return null when every candidate fails', async () => {
+    const { attempt } = makeAttempt({ a: -5, b: -5 });
+
+    const winner = await raceCandidates(['a', 'b'], attempt, {
+      strategy: 'hedged',
+      hedgeDelayMs: 1,
+    });
+
+    expect(winner).toBeNull();
+  });
+
+  it('should return null without candidates', async () => {
+    const attempt = jest.fn();
+
+    const winner = await raceCandidates([], attempt, { strategy: 'parallel', hedgeDelayMs: 0 });
+
+    expect(winner).toBeNull();
+    expect(attempt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { randomBytes } from 'crypto';
+import { Negentropy, NegentropyItem } from '../../utils/negentropy';
+
+describe('Negentropy', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const items = (count: number, created_at = now): NegentropyItem[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: randomBytes(32).toString('hex'),
+      created_at: created_at - (i % 50),
+    }));
+
+  // Run a reconciliation to the end, returns what the initiator learned and the round trips
+  const sync = (ours: NegentropyItem[], theirs: NegentropyItem[]) => {
+    const initiator = new Negentropy(ours);
+    const responder = new Negentropy(theirs);
+    const have: string[] = [];
+    const need: string[] = [];
+    let message: string | null = initiator.initiate();
+    let rounds = 0;
+
+    while (message !== null) {
+      rounds++;
+      const result = initiator.reconcile(responder.reconcile(message).message!);
+      have.push(...result.have);
+      need.push(...result.need);
+      message = result.message;
+    }
+
+    return { have: have.sort(), need: need.sort(), rounds };
+  };
+
+  const ids = (list: NegentropyItem[]) => list.map((item) => item.id).sort();
+
+  it('should find the ids missing on either side', () => {
+    const shared = items(10);
+    const onlyOurs = items(3, now - 1000);
+    const onlyTheirs = items(4, now + 1000);
+
+    const result = sync([...shared, ...onlyOurs], [...shared, ...onlyTheirs]);
+
+    expect(result.have).toEqual(ids(onlyOurs));
+    expect(result.need).toEqual(ids(onlyTheirs));
+  });
+
+  it('should handle empty sets', () => {
+    const theirs = items(5);
+
+    expect(sync([], theirs).need).toEqual(ids(theirs));
+    expect(sync(theirs, []).have).toEqual(ids(theirs));
+    expect(sync([], [])).toEqual({ have: [], need: [], rounds: 1 });
+  });
+
+  it('should finish in one round trip when the sets are equal', () => {
+    const shared = items(500);
+
+    expect(sync(shared, [...shared].reverse())).toEqual({ have: [], need: [], rounds: 1 });
+  });
+
+  it('should narrow down differences in large sets with fingerprints', () => {
+    const shared = items(3000);
+    const onlyOurs = items(2, now - 25);
+    const onlyTheirs = items(3, now - 10);
+
+    const result = sync([...shared, ...onlyOurs], [...shared, ...onlyTheirs]);
+
+    expect(result.have).toEqual(ids(onlyOurs));
+    expect(result.need).toEqual(ids(onlyTheirs));
+    expect(result.rounds).toBeGreaterThan(1);
+  });
+
+  it('should answer other protocol versions with its own', () => {
+    const responder = new Negentropy(items(3));
+
+    expect(responder.reconcile('62').message).toBe('61');
+    expect(() => responder.reconcile('10')).toThrow('invalid negentropy protocol version');
+  });
+});
@@ -0,0 +1,147 @@
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { createHash } from 'crypto';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { nip19 } from 'nostr-tools';
+import { SiteManifest } from '../../types';
+import { PinnedSiteStore } from '../../utils/pinned-store';
+
+describe('PinnedSiteStore', () => {
+  const pubkey = '266815e0c9210dfa324c6cba3573b14bee49da4209a9456f9484e5106cd408a5';
+  const content = new Uint8Array(Buffer.from('<html>pinned</html>'));
+  const sha256 = createHash('sha256').update(content).digest('hex');
+  const mapping = (path: string, hash = sha256, expiration?: number) => ({
+    pubkey,
+    path,
+    sha256: hash,
+    created_at: 100,
+    ...(expiration !== undefined ? { expiration } : {}),
+  });
+
+  const noDeletions = { deletedPaths: {}, deletedSites: {} };
+  const site = (paths: ReturnType<typeof mapping>[], manifests: SiteManifest[] = []) => ({
+    paths,
+    manifests,
+    ...noDeletions,
+    refreshedAt: 1,
+  });
+
+  let directory: string;
+  let store: PinnedSiteStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'pinned-'));
+    store = new PinnedSiteStore(directory, [nip19.npubEncode(pubkey)]);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep path tables across restarts', async () => {
+    await store.setSite(pubkey, site([mapping('/index.html')]));
+
+    const restarted = new PinnedSiteStore(directory, [pubkey]);
+
+    expect(restarted.isPinned(pubkey)).toBe(true);
+    expect(await restarted.getMapping(pubkey, '/index.html')).toEqual(mapping('/index.html'));
+    expect(await restarted.getMapping(pubkey, '/about.html')).toBeNull();
+  });
+
+  it('should ignore pubkeys that are not pinned', async () => {
+    const other = 'b'.repeat(64);
+    await store.setSite(other, site([mapping('/index.html')]));
+
+    expect(await store.getMapping(other, '/index.html')).toBeNull();
+    expect(existsSync(join(directory, 'sites', `${other}.json`))).toBe(false);
+  });
+
+  it('should not return expired mappings (NIP-40)', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await store.setSite(pubkey, {
+      paths: [mapping('/old.html', sha256, now - 1), mapping('/soon.html', sha256, now + 60)],
+      manifests: [],
+      ...noDeletions,
+      refreshedAt: 1,
+    });
+
+    expect(await store.getMapping(pubkey, '/old.html')).toBeNull();
+    expect(await store.getMapping(pubkey, '/soon.html')).not.toBeNull();
+  });
+
+  it('should keep site manifests and the blobs they point to', async () => {
+    const manifest = {
+      pubkey,
+      identifier: 'blog',
+      paths: { '/index.html': sha256 },
+      created_at: 1,
+    };
+    await store.saveBlob(sha256, content);
+    await store.setSite(pubkey, site([], [manifest]));
+
+    expect(await store.getManifest(pubkey, 'blog')).toEqual(manifest);
+    expect(await store.getManifest(pubkey)).toBeNull();
+    expect(await store.removeUnused()).toBe(0);
+    expect(await store.hasBlob(sha256)).toBe(true);
+  });
+
+  it('should keep deletions across restarts and apply them to later tables', async () => {
+    await store.setSite(pubkey, {
+      paths: [mapping('/index.html'), mapping('/old.html')],
+      manifests: [],
+      ...noDeletions,
+      refreshedAt: 1,
+    });
+    await store.deletePath(pubkey, '/old.html', 150);
+    await store.deleteSite(pubkey, '__proto__', 150);
+
+    const restarted = new PinnedSiteStore(directory, [pubkey]);
+    await restarted.setSite(pubkey, {
+      paths: [mapping('/index.html'), mapping('/old.html')],
+      manifests: [{ pubkey, identifier: '__proto__', paths: {}, created_at: 100 }],
+      ...noDeletions,
+      refreshedAt: 2,
+    });
+
+    expect(await restarted.getMapping(pubkey, '/old.html')).toBeNull();
+    expect(await restarted.getMapping(pubkey, '/index.html')).not.toBeNull();
+    expect(await restarted.getManifest(pubkey, '__proto__')).toBeNull();
+    expect((await restarted.getSite(pubkey))?.deletedPaths).toEqual({ '/old.html': 150 });
+  });
+
+  it('should only store blobs that match their hash', async () => {
+    expect(await store.saveBlob(sha256, content)).toBe(true);
+    expect(await store.saveBlob('a'.repeat(64), content)).toBe(false);
+    expect(await store.saveBlob('../escape', content)).toBe(false);
+
+    expect(await store.hasBlob(sha256)).toBe(true);
+    expect(await store.hasBlob('a'.repeat(64))).toBe(false);
+    expect(await store.getBlob(sha256)).toEqual(content);
+    expect(await store.getBlob('../sites')).toBeNull();
+  });
+
+  it('should remove blobs and sites that are no longer pinned', async () => {
+    const unused = new Uint8Array(Buffer.from('unused'));
+    const unusedSha256 = createHash('sha256').update(unused).digest('hex');
+    await store.saveBlob(sha256, content);
+    await store.saveBlob(unusedSha256, unused);
+    await store.setSite(pubkey, site([mapping('/index.html')]));
+
+    expect(await store.removeUnused()).toBe(1);
+    expect(await store.hasBlob(sha256)).toBe(true);
+    expect(await store.hasBlob(unusedSha256)).toBe(false);
+
+    const unpinned = new PinnedSiteStore(directory, []);
+    expect(await unpinned.removeUnused()).toBe(1);
+    expect(existsSync(join(directory, 'sites', `${pubkey}.json`))).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { getPublicKey, nip19, verifyEvent } from 'nostr-tools';
+import {
+  createGatewaySigner,
+  decodePubkey,
+  decodeSecretKey,
+  isAuthRelay,
+  SecretKeySigner,
+} from '../../utils/signer';
+
+describe('Gateway signer', () => {
+  const hexKey = '5'.repeat(64);
+  const secretKey = new Uint8Array(32).fill(0x55);
+
+  describe('decodeSecretKey', () => {
+    it('should decode hex and nsec secret keys', () => {
+      expect(decodeSecretKey(hexKey)).toEqual(secretKey);
+      expect(decodeSecretKey(nip19.nsecEncode(secretKey))).toEqual(secretKey);
+    });
+
+    it('should reject anything else', () => {
+      expect(() => decodeSecretKey('not-a-key')).toThrow('Invalid secret key');
+      expect(() => decodeSecretKey(nip19.npubEncode(getPublicKey(secretKey)))).toThrow(
+        'Invalid secret key'
+      );
+    });
+  });
+
+  describe('decodePubkey', () => {
+    it('should decode hex and npub pubkeys', () => {
+      const pubkey = getPublicKey(secretKey);
+
+      expect(decodePubkey(pubkey.toUpperCase())).toBe(pubkey);
+      expect(decodePubkey(nip19.npubEncode(pubkey))).toBe(pubkey);
+    });
+
+    it('should return null for anything else', () => {
+      expect(decodePubkey('npub1invalid')).toBeNull();
+      expect(decodePubkey(nip19.nsecEncode(secretKey))).toBeNull();
+    });
+  });
+
+  it('should sign events with the secret key', async () => {
+    const signer = new SecretKeySigner(secretKey);
+
+    const event = await signer.signEvent({
+      kind: 22242,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [
+        ['relay', 'wss://private.example.com/'],
+        ['challenge', 'challenge-string'],
+      ],
+      content: '',
+    });
+
+    expect(await signer.getPublicKey()).toBe(getPublicKey(secretKey));
+    expect(event.pubkey).toBe(getPublicKey(secretKey));
+    expect(verifyEvent(event)).toBe(true);
+  });
+
+  it('should only create a signer when a key is configured', () => {
+    expect(createGatewaySigner('')).toBeNull();
+    expect(createGatewaySigner(hexKey)).toBeInstanceOf(SecretKeySigner);
+  });
+
+  it('should match opted-in relays regardless of trailing slash and case', () => {
+    const authRelays = ['wss://Private.example.com'];
+
+    expect(isAuthRelay('wss://private.example.com/', authRelays)).toBe(true);
+    expect(isAuthRelay('wss://public.example.com/', authRelays)).toBe(false);
+  });
+});
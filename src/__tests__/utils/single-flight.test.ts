@@ -0,0 +1,86 @@
+import { SingleFlight } from '../../utils/single-flight';
+
+describe('SingleFlight', () => {
+  // Promise that resolves when `resolve` is called
+  const deferred = <T>() => {
+    let resolve: (value: T) => void = () => undefined;
+    let reject: (error: Error) => void = () => undefined;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('should run one call for concurrent callers of the same key', async () => {
+    const flights = new SingleFlight();
+    const leader = deferred<string>();
+    const fn = jest.fn(() => leader.promise);
+
+    const calls = [flights.run('a', fn), flights.run('a', fn), flights.run('a', fn)];
+    leader.resolve('result');
+
+    expect(await Promise.all(calls)).toEqual(['result', 'result', 'result']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep different keys apart', async () => {
+    const flights = new SingleFlight();
+
+    const [a, b] = await Promise.all([
+      flights.run('a', async () => 'a'),
+      flights.run('b', async () => 'b'),
+    ]);
+
+    expect([a, b]).toEqual(['a', 'b']);
+  });
+
+  it('should share the leader error with followers', async () => {
+    const flights = new SingleFlight();
+    const leader = deferred<string>();
+
+    const first = flights.run('a', () => leader.promise);
+    const second = flights.run('a', () => Promise.resolve('unused'));
+    leader.reject(new Error('relay down'));
+
+    await expect(first).rejects.toThrow('relay down');
+    await expect(second).rejects.toThrow('relay down');
+  });
+
+  it('should start a new call once the previous one settled', async () => {
+    const flights = new SingleFlight();
+    const fn = jest.fn(async () => 'result');
+
+    await flights.run('a', fn);
+    await flights.run('a', fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only join a call that is in flight', async () => {
+    const flights = new SingleFlight();
+    const leader = deferred<string>();
+
+    expect(flights.join('a')).toBeNull();
+    const call = flights.run('a', () => leader.promise);
+    const joined = flights.join<string>('a');
+    leader.resolve('result');
+
+    expect(await joined).toBe('result');
+    await call;
+    expect(flights.join('a')).toBeNull();
+    expect(flights.getStats()).toMatchObject({ calls: 2, deduplicated: 1 });
+  });
+
+  it('should report the dedup rate', async () => {
+    const flights = new SingleFlight();
+    const leader = deferred<string>();
+
+    const calls = [1, 2, 3, 4].map(() => flights.run('a', () => leader.promise));
+    expect(flights.getStats()).toEqual({ calls: 4, deduplicated: 3, dedupRate: 0.75, inFlight: 1 });
+
+    leader.resolve('result');
+    await Promise.all(calls);
+    expect(flights.getStats().inFlight).toBe(0);
+  });
+});
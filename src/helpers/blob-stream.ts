@@ -0,0 +1,70 @@
+import { createHash, Hash } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+export interface BlobVerifierOptions {
+  sha256: string;
+  maxBytes: number;
+  // Content up to this size is collected and handed to onVerified (0 disables collection)
+  collectMaxBytes: number;
+  onVerified?: (content: Buffer | null) => void;
+}
+
+/**
+ * Pass-through stream that checks a blob's size and sha256 while it is being streamed
+ *
+ * The most recent chunk is held back until the hash has been verified, so a client never
+ * receives a complete body for a blob that fails verification.
+ */
+export class BlobVerifier extends Transform {
+  private options: BlobVerifierOptions;
+  private hash: Hash = createHash('sha256');
+  private size = 0;
+  private pending: Buffer | null = null;
+  private chunks: Buffer[] | null;
+
+  constructor(options: BlobVerifierOptions) {
+    super();
+    this.options = options;
+    this.chunks = options.collectMaxBytes > 0 ? [] : null;
+  }
+
+  public get bytesReceived(): number {
+    return this.size;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.size += chunk.length;
+
+    if (this.size > this.options.maxBytes) {
+      callback(new Error(`File too large: more than ${this.options.maxBytes} bytes`));
+      return;
+    }
+
+    this.hash.update(chunk);
+
+    if (this.chunks) {
+      if (this.size <= this.options.collectMaxBytes) {
+        this.chunks.push(chunk);
+      } else {
+        // Too large to keep, stop collecting
+        this.chunks = null;
+      }
+    }
+
+    const previous = this.pending;
+    this.pending = chunk;
+    callback(null, previous || undefined);
+  }
+
+  _flush(callback: TransformCallback): void {
+    const actual = this.hash.digest('hex');
+
+    if (actual !== this.options.sha256) {
+      callback(new Error(`SHA256 mismatch: expected ${this.options.sha256}, got ${actual}`));
+      return;
+    }
+
+    this.options.onVerified?.(this.chunks ? Buffer.concat(this.chunks) : null);
+    callback(null, this.pending || undefined);
+  }
+}
@@ -0,0 +1,323 @@
+import { logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface BlossomHealthOptions {
+  // Consecutive failures that open a server's circuit
+  failureThreshold: number;
+  // How long an open circuit stays open before a trial request is let through
+  cooldownMs: number;
+  // Backoff after a 429 without Retry-After, doubled for every consecutive 429
+  rateLimitBackoffMs: number;
+}
+
+export interface BlossomServerStats {
+  state: CircuitState;
+  requests: number;
+  successRate: number | null;
+  latencyMs: { p50: number; p90: number; p99: number } | null;
+  consecutiveFailures: number;
+  integrityFailures: number;
+  rateLimited: number;
+  backoffUntil: number | null;
+}
+
+interface ServerHealth {
+  // Most recent outcomes and latencies, oldest first
+  outcomes: boolean[];
+  latencies: number[];
+  requests: number;
+  consecutiveFailures: number;
+  integrityFailures: number;
+  rateLimited: number;
+  consecutiveRateLimits: number;
+  backoffUntil: number;
+  openedAt: number | null;
+  // When the trial request of a half-open circuit was let through, null when none is running
+  probeStartedAt: number | null;
+}
+
+// Samples kept per server for success rate and latency percentiles
+const SAMPLE_SIZE = 100;
+
+// Success rate below which a server is tried after healthier ones
+const DEGRADED_SUCCESS_RATE = 0.5;
+
+// Longest backoff applied for repeated 429 responses
+const MAX_RATE_LIMIT_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Per-server health model for Blossom servers
+ *
+ * Tracks success rate, latency percentiles, 429 backoff and integrity failures. A server's
+ * circuit opens after `failureThreshold` consecutive failures; once `cooldownMs` has passed
+ * it is half-open, and a single trial request closes it again or re-opens it. Requests
+ * claim their server with `startRequest`, which only lets that one trial through.
+ */
+export class BlossomHealthTracker {
+  private options: BlossomHealthOptions;
+  private now: () => number;
+  private servers: Map<string, ServerHealth> = new Map();
+
+  constructor(options: BlossomHealthOptions, now: () => number = Date.now) {
+    this.options = options;
+    this.now = now;
+  }
+
+  /**
+   * Record a server that answered, with the time it took to respond
+   */
+  public recordSuccess(server: string, latencyMs: number): void {
+    const health = this.getHealth(server);
+    const wasOpen = health.openedAt !== null;
+
+    this.addSample(health, true, latencyMs);
+    health.consecutiveFailures = 0;
+    health.consecutiveRateLimits = 0;
+    health.openedAt = null;
+    health.probeStartedAt = null;
+
+    if (wasOpen) {
+      logger.info(`🟢 Circuit closed for Blossom server ${server}`);
+    }
+  }
+
+  /**
+   * Record a server that failed to answer (timeout, connection error, 5xx)
+   */
+  public recordFailure(server: string): void {
+    const health = this.getHealth(server);
+
+    this.addSample(health, false);
+    health.consecutiveFailures++;
+    health.probeStartedAt = null;
+
+    const state = this.getState(health);
+    if (state === 'half-open' || (state === 'closed' && this.shouldOpen(health))) {
+      health.openedAt = this.now();
+      logger.warn(
+        `🔴 Circuit opened for Blossom server ${server} after ${health.consecutiveFailures} failures`
+      );
+    }
+  }
+
+  /**
+   * Record a server that served bytes not matching the requested sha256
+   */
+  public recordIntegrityFailure(server: string): void {
+    this.getHealth(server).integrityFailures++;
+    this.recordFailure(server);
+  }
+
+  /**
+   * Record a 429 response, backing off for Retry-After or an exponential delay
+   */
+  public recordRateLimit(server: string, retryAfterMs?: number): void {
+    const health = this.getHealth(server);
+
+    health.requests++;
+    health.rateLimited++;
+    health.consecutiveRateLimits++;
+    health.probeStartedAt = null;
+
+    const backoffMs = Math.min(
+      retryAfterMs ??
+        this.options.rateLimitBackoffMs * Math.pow(2, health.consecutiveRateLimits - 1),
+      MAX_RATE_LIMIT_BACKOFF_MS
+    );
+    health.backoffUntil = this.now() + backoffMs;
+
+    logger.warn(`⏳ Blossom server ${server} rate limited, backing off for ${backoffMs}ms`);
+  }
+
+  /**
+   * Check whether a server should be tried: circuit not open, not backing off and, when
+   * half-open, no trial request running yet
+   */
+  public isAvailable(server: string): boolean {
+    const health = this.servers.get(server);
+    if (!health) {
+      return true;
+    }
+
+    const state = this.getState(health);
+    return (
+      state !== 'open' &&
+      health.backoffUntil <= this.now() &&
+      !(state === 'half-open' && this.isProbing(health))
+    );
+  }
+
+  /**
+   * Claim a server right before sending it a request, returns false if it shouldn't be sent
+   * Claiming a half-open server makes the request its trial, until an outcome is recorded
+   * or the request is cancelled with `cancelRequest`.
+   */
+  public startRequest(server: string): boolean {
+    if (!this.isAvailable(server)) {
+      return false;
+    }
+
+    const health = this.servers.get(server);
+    if (health && this.getState(health) === 'half-open') {
+      health.probeStartedAt = this.now();
+    }
+    return true;
+  }
+
+  /**
+   * Release a request that ended without an outcome (cancelled or abandoned by the client)
+   */
+  public cancelRequest(server: string): void {
+    const health = this.servers.get(server);
+    if (health) {
+      health.probeStartedAt = null;
+    }
+  }
+
+  /**
+   * Order the available servers by health, keeping the given order among equally healthy
+   * servers; servers with an open circuit or backing off are left out
+   */
+  public order(servers: string[]): string[] {
+    const rank = (server: string): number[] => {
+      const health = this.servers.get(server);
+      if (!health) {
+        return [0, 0];
+      }
+
+      const successRate = this.getSuccessRate(health);
+      const degraded = successRate !== null && successRate < DEGRADED_SUCCESS_RATE;
+      const halfOpen = this.getState(health) === 'half-open';
+
+      return [degraded || halfOpen ? 1 : 0, health.integrityFailures];
+    };
+
+    const available = servers.filter((server) => this.isAvailable(server));
+    const ranks = new Map(available.map((server) => [server, rank(server)]));
+
+    return available.sort((a, b) => {
+      const rankA = ranks.get(a)!;
+      const rankB = ranks.get(b)!;
+      const index = rankA.findIndex((value, i) => value !== rankB[i]);
+      return index === -1 ? 0 : rankA[index] - rankB[index];
+    });
+  }
+
+  /**
+   * Get integrity failure counts per server
+   */
+  public getIntegrityFailures(): Record<string, number> {
+    const failures: Record<string, number> = {};
+    for (const [server, health] of this.servers.entries()) {
+      if (health.integrityFailures > 0) {
+        failures[server] = health.integrityFailures;
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Get the health of every server seen so far
+   */
+  public getStats(): Record<string, BlossomServerStats> {
+    const now = this.now();
+    const stats: Record<string, BlossomServerStats> = {};
+
+    for (const [server, health] of this.servers.entries()) {
+      stats[server] = {
+        state: this.getState(health),
+        requests: health.requests,
+        successRate: this.getSuccessRate(health),
+        latencyMs:
+          health.latencies.length > 0
+            ? {
+                p50: percentile(health.latencies, 50),
+                p90: percentile(health.latencies, 90),
+                p99: percentile(health.latencies, 99),
+              }
+            : null,
+        consecutiveFailures: health.consecutiveFailures,
+        integrityFailures: health.integrityFailures,
+        rateLimited: health.rateLimited,
+        backoffUntil: health.backoffUntil > now ? health.backoffUntil : null,
+      };
+    }
+
+    return stats;
+  }
+
+  private getHealth(server: string): ServerHealth {
+    let health = this.servers.get(server);
+    if (!health) {
+      health = {
+        outcomes: [],
+        latencies: [],
+        requests: 0,
+        consecutiveFailures: 0,
+        integrityFailures: 0,
+        rateLimited: 0,
+        consecutiveRateLimits: 0,
+        backoffUntil: 0,
+        openedAt: null,
+        probeStartedAt: null,
+      };
+      this.servers.set(server, health);
+    }
+    return health;
+  }
+
+  private getState(health: ServerHealth): CircuitState {
+    if (health.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - health.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  // A trial request that never reported back stops blocking others after another cooldown
+  private isProbing(health: ServerHealth): boolean {
+    return (
+      health.probeStartedAt !== null &&
+      this.now() - health.probeStartedAt < this.options.cooldownMs
+    );
+  }
+
+  private shouldOpen(health: ServerHealth): boolean {
+    return (
+      this.options.failureThreshold > 0 &&
+      health.consecutiveFailures >= this.options.failureThreshold
+    );
+  }
+
+  private getSuccessRate(health: ServerHealth): number | null {
+    if (health.outcomes.length === 0) {
+      return null;
+    }
+    return health.outcomes.filter(Boolean).length / health.outcomes.length;
+  }
+
+  private addSample(health: ServerHealth, success: boolean, latencyMs?: number): void {
+    health.requests++;
+
+    health.outcomes.push(success);
+    if (health.outcomes.length > SAMPLE_SIZE) {
+      health.outcomes.shift();
+    }
+
+    if (latencyMs !== undefined) {
+      health.latencies.push(latencyMs);
+      if (health.latencies.length > SAMPLE_SIZE) {
+        health.latencies.shift();
+      }
+    }
+  }
+}
+
+/**
+ * Nearest-rank percentile of a list of samples
+ */
+function percentile(samples: number[], p: number): number {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[index];
+}
@@ -1,20 +1,38 @@
 import axios, { AxiosResponse } from 'axios';
 import * as mimeTypes from 'mime-types';
-import { FileResponse } from '../types';
+import { Readable } from 'stream';
+import { FileResponse, FileStream } from '../types';
 import { CacheService } from '../utils/cache';
 import { ConfigManager } from '../utils/config';
+import { raceCandidates, RaceOptions } from '../utils/hedge';
 import { logger } from '../utils/logger';
+import { PinnedSiteStore } from '../utils/pinned-store';
+import { SingleFlight, SingleFlightStats } from '../utils/single-flight';
+import { BlobVerifier } from './blob-stream';
+import { BlossomHealthTracker, BlossomServerStats } from './blossom-health';
 
 export class BlossomHelper {
   private config: ConfigManager;
   private requestTimeout: number;
   private maxFileSizeBytes: number;
-
-  constructor() {
+  private health: BlossomHealthTracker;
+  private pinnedStore: PinnedSiteStore | null;
+  // Concurrent cache misses for the same blob share one download
+  private blobFlights = new SingleFlight();
+  // Streamed downloads, shared once verified if they are small enough to keep in memory
+  private streamFlights = new SingleFlight();
+
+  constructor(pinnedStore: PinnedSiteStore | null = null) {
     this.config = ConfigManager.getInstance();
+    this.pinnedStore = pinnedStore;
     const configData = this.config.getConfig();
     this.requestTimeout = configData.requestTimeoutMs;
     this.maxFileSizeBytes = configData.maxFileSizeMB * 1024 * 1024;
+    this.health = new BlossomHealthTracker({
+      failureThreshold: configData.blossomCircuitFailureThreshold,
+      cooldownMs: configData.blossomCircuitCooldownMs,
+      rateLimitBackoffMs: configData.blossomRateLimitBackoffMs,
+    });
   }
 
   /**
@@ -52,53 +70,98 @@ export class BlossomHelper {
       );
     }
 
-    // Try each server in sequence
-    for (const server of servers) {
-      try {
+    const pinned = await this.getPinnedFile(sha256, path);
+    if (pinned) {
+      return pinned;
+    }
+
+    const file =
+      (await this.streamFlights.join<FileResponse | null>(sha256)) ??
+      (await this.blobFlights.run(sha256, () => this.fetchFromServers(sha256, servers)));
+
+    // A download is shared between paths, so every caller gets the content type of its own
+    return file
+      ? { ...file, contentType: this.resolveContentType(file.contentType, path, file.content) }
+      : null;
+  }
+
+  /**
+   * Download a blob from the first Blossom server that has it, without caching it
+   * For copies that are kept elsewhere, like the pinned site store, so they don't crowd out
+   * the file content cache.
+   */
+  public async downloadBlob(sha256: string, servers: string[]): Promise<Uint8Array | null> {
+    const winner = await raceCandidates(
+      await this.orderServers(sha256, servers),
+      (server, signal) => this.fetchFromServer(server, sha256, signal),
+      this.getRaceOptions<FileResponse>('downloadBlob', sha256)
+    );
+    if (!winner) {
+      return null;
+    }
+
+    await CacheService.addBlobServer(sha256, winner.candidate);
+    logger.logBlossom('downloadBlob', sha256, winner.candidate, true, {
+      size: winner.result.content.length,
+    });
+    return winner.result.content;
+  }
+
+  /**
+   * Download a file from the first Blossom server that has it and cache it
+   * The content type of the result is the one the server sent, empty if it sent none.
+   */
+  private async fetchFromServers(
+    sha256: string,
+    servers: string[]
+  ): Promise<FileResponse | null> {
+    // Race servers per the configured strategy: known holders first, unhealthy servers last
+    const winner = await raceCandidates(
+      await this.orderServers(sha256, servers),
+      (server, signal) => {
         logger.debug(`🌐 Attempting to fetch ${sha256.substring(0, 8)}... from ${server}`);
-        const result = await this.fetchFromServer(server, sha256, path);
-        if (result) {
-          // Cache successful result
-          logger.info(
-            `💾 Caching file content for ${sha256.substring(0, 8)}... (${
-              result.content.length
-            } bytes)`
-          );
-          logger.debug(
-            `Caching details: content type: ${result.content.constructor.name}, length: ${result.content.length}`
-          );
-
-          try {
-            await CacheService.setFileContent(sha256, result.content);
-            logger.info(`✅ File successfully cached for ${sha256.substring(0, 8)}...`);
-
-            // Verify the cache was set correctly
-            const verification = await CacheService.getFileContent(sha256);
-            if (verification) {
-              logger.debug(`🔍 Cache verification successful: ${verification.length} bytes stored`);
-            } else {
-              logger.warn(`⚠️  Cache verification FAILED for ${sha256.substring(0, 8)}...`);
-            }
-          } catch (cacheError) {
-            logger.error(
-              `❌ Failed to cache file content for ${sha256.substring(0, 8)}...:`,
-              cacheError
-            );
-          }
+        return this.fetchFromServer(server, sha256, signal);
+      },
+      this.getRaceOptions<FileResponse>('fetchFile', sha256)
+    );
 
-          logger.logBlossom('fetchFile', sha256, server, true, {
-            size: result.contentLength,
-            contentType: result.contentType,
-            cached: true,
-          });
-          return result;
+    if (winner) {
+      const { candidate: server, result } = winner;
+
+      // Cache successful result
+      logger.info(
+        `💾 Caching file content for ${sha256.substring(0, 8)}... (${result.content.length} bytes)`
+      );
+      logger.debug(
+        `Caching details: content type: ${result.content.constructor.name}, length: ${result.content.length}`
+      );
+
+      try {
+        await CacheService.setFileContent(sha256, result.content);
+        logger.info(`✅ File successfully cached for ${sha256.substring(0, 8)}...`);
+
+        // Verify the cache was set correctly
+        const verification = await CacheService.getFileContent(sha256);
+        if (verification) {
+          logger.debug(`🔍 Cache verification successful: ${verification.length} bytes stored`);
+        } else {
+          logger.warn(`⚠️  Cache verification FAILED for ${sha256.substring(0, 8)}...`);
         }
-      } catch (error) {
-        logger.logBlossom('fetchFile', sha256, server, false, {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        continue; // Try next server
+      } catch (cacheError) {
+        logger.error(
+          `❌ Failed to cache file content for ${sha256.substring(0, 8)}...:`,
+          cacheError
+        );
       }
+
+      await CacheService.addBlobServer(sha256, server);
+
+      logger.logBlossom('fetchFile', sha256, server, true, {
+        size: result.contentLength,
+        contentType: result.contentType,
+        cached: true,
+      });
+      return result;
     }
 
     logger.error(`❌ Failed to fetch file ${sha256.substring(0, 8)}... from all servers`, {
@@ -108,14 +171,38 @@ export class BlossomHelper {
     return null;
   }
 
+  /**
+   * Read a blob of a pinned site from disk
+   * Blobs are addressed by their hash, so the stored copy is served before asking any server.
+   */
+  private async getPinnedFile(sha256: string, path?: string): Promise<FileResponse | null> {
+    const content = await this.pinnedStore?.getBlob(sha256);
+    if (!content) {
+      return null;
+    }
+
+    logger.info(`📌 Pinned file HIT for ${sha256.substring(0, 8)}... (${content.length} bytes)`);
+    return {
+      content,
+      contentType: this.fixMimeType(this.getContentTypeFromPath(path || ''), path || '', content),
+      contentLength: content.length,
+      sha256,
+    };
+  }
+
   /**
    * Fetch file from a specific Blossom server
    */
   private async fetchFromServer(
     server: string,
     sha256: string,
-    path?: string
-  ): Promise<FileResponse | null> {
+    signal?: AbortSignal
+  ): Promise<FileResponse> {
+    if (!this.health.startRequest(server)) {
+      throw new Error(`Circuit open for ${server}`);
+    }
+    const startedAt = Date.now();
+
     try {
       // Ensure server URL doesn't end with slash
       const baseUrl = server.endsWith('/') ? server.slice(0, -1) : server;
@@ -126,6 +213,7 @@ export class BlossomHelper {
       const response: AxiosResponse = await axios.get(url, {
         timeout: this.requestTimeout,
         responseType: 'arraybuffer',
+        signal,
         maxContentLength: this.maxFileSizeBytes,
         maxBodyLength: this.maxFileSizeBytes,
         validateStatus: (status) => status === 200,
@@ -133,6 +221,7 @@ export class BlossomHelper {
           'User-Agent': 'Nostr-Static-Server/1.0.0',
         },
       });
+      const latencyMs = Date.now() - startedAt;
 
       if (!response.data) {
         throw new Error('Empty response body');
@@ -146,61 +235,457 @@ export class BlossomHelper {
         throw new Error(`File too large: ${content.length} bytes (max: ${this.maxFileSizeBytes})`);
       }
 
-      // Get content type from response headers or guess from path
-      let contentType =
-        response.headers['content-type'] ||
-        this.getContentTypeFromPath(path || '') ||
-        'application/octet-stream';
-
-      // Clean up content type (remove charset if present for binary files)
-      if (contentType.includes(';') && !contentType.startsWith('text/')) {
-        contentType = contentType.split(';')[0].trim();
-      }
-
       // Get content length from response or calculate
       const contentLength =
         parseInt(response.headers['content-length'] || '0', 10) || content.length;
 
-      // Validate SHA256 if we want to be extra cautious (optional)
-      if (this.config.getConfig().maxFileSizeMB < 10) {
-        // Only validate smaller files
-        const calculatedHash = await this.calculateSHA256(content);
-        if (calculatedHash !== sha256) {
-          logger.warn(
-            `SHA256 mismatch for file from ${server}: expected ${sha256}, got ${calculatedHash}`
-          );
-          // Don't throw error, just log warning as some servers might serve different content
-        }
+      // Blobs are content-addressed, never serve bytes that don't match the requested hash
+      const calculatedHash = await this.calculateSHA256(content);
+      if (calculatedHash !== sha256) {
+        this.recordIntegrityFailure(server, sha256, calculatedHash);
+        throw new Error(`SHA256 mismatch: expected ${sha256}, got ${calculatedHash}`);
       }
 
-      // Fix incorrect MIME types from Blossom servers
-      contentType = this.fixMimeType(contentType, path || '', content);
+      this.health.recordSuccess(server, latencyMs);
 
       return {
         content,
-        contentType,
+        contentType: response.headers['content-type'] || '',
         contentLength,
         sha256,
       };
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const statusText = error.response?.statusText;
-
-        if (status === 404) {
-          throw new Error(`File not found: ${sha256}`);
-        } else if (status === 413) {
-          throw new Error(`File too large`);
-        } else if (status === 429) {
-          throw new Error(`Rate limited by server`);
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error(`Request timeout (${this.requestTimeout}ms)`);
-        } else {
-          throw new Error(`HTTP ${status} ${statusText}: ${error.message}`);
-        }
+      this.recordServerError(server, error, Date.now() - startedAt, signal);
+      throw this.toFetchError(error, sha256);
+    }
+  }
+
+  /**
+   * Stream file from Blossom servers without buffering it in memory
+   *
+   * The returned stream verifies size and sha256 as it goes and errors out on a mismatch.
+   * Files up to `streamCacheMaxSize` are teed into the file content cache once verified.
+   */
+  public async streamFile(
+    sha256: string,
+    servers: string[],
+    path?: string
+  ): Promise<FileStream | null> {
+    const cached = await CacheService.getFileContent(sha256);
+    if (cached) {
+      logger.info(`🎯 File cache HIT for ${sha256.substring(0, 8)}... (${cached.length} bytes)`);
+      const content = Buffer.from(cached);
+
+      return {
+        stream: Readable.from([content]),
+        contentType: this.fixMimeType(this.getContentTypeFromPath(path || ''), path || '', content),
+        contentLength: content.length,
+        sha256,
+        abort: () => {},
+      };
+    }
+
+    const pinned = await this.getPinnedFile(sha256, path);
+    if (pinned) {
+      return {
+        stream: Readable.from([Buffer.from(pinned.content)]),
+        contentType: pinned.contentType,
+        contentLength: pinned.contentLength,
+        sha256,
+        abort: () => {},
+      };
+    }
+
+    // Wait for a download of the same blob that is already running instead of opening another
+    const running =
+      this.blobFlights.join<FileResponse | null>(sha256) ||
+      this.streamFlights.join<FileResponse | null>(sha256);
+    const shared = running ? await running : null;
+    if (shared) {
+      logger.debug(`Sharing the running download of ${sha256.substring(0, 8)}...`);
+      return {
+        stream: Readable.from([Buffer.from(shared.content)]),
+        contentType: this.resolveContentType(shared.contentType, path, shared.content),
+        contentLength: shared.content.length,
+        sha256,
+        abort: () => {},
+      };
+    }
+
+    logger.info(`💔 File cache MISS for ${sha256.substring(0, 8)}... - streaming from Blossom`);
+
+    let share: (file: FileResponse | null) => void = () => undefined;
+    void this.streamFlights.run(
+      sha256,
+      () => new Promise<FileResponse | null>((resolve) => (share = resolve))
+    );
+
+    const winner = await raceCandidates(
+      await this.orderServers(sha256, servers),
+      (server, signal) => {
+        logger.debug(`🌐 Attempting to stream ${sha256.substring(0, 8)}... from ${server}`);
+        return this.streamFromServer(server, sha256, path, signal, share);
+      },
+      {
+        ...this.getRaceOptions<FileStream>('streamFile', sha256),
+        // A slower server that still opened a stream is no longer needed
+        onDiscard: (_server, fileStream) => fileStream.abort(),
       }
+    );
+
+    if (winner) {
+      await CacheService.addBlobServer(sha256, winner.candidate);
+
+      // Blobs too large to keep aren't shared, and neither are failed streams
+      const { contentLength } = winner.result;
+      if (contentLength === undefined || contentLength > this.getStreamCollectLimit()) {
+        share(null);
+      }
+      winner.result.stream.on('close', () => share(null));
+      return winner.result;
+    }
+
+    share(null);
+    logger.error(`❌ Failed to stream file ${sha256.substring(0, 8)}... from all servers`, {
+      servers,
+      serverCount: servers.length,
+    });
+    return null;
+  }
+
+  /**
+   * Open a streaming download from a specific Blossom server
+   * `onShared` receives the verified content when it was small enough to be collected.
+   */
+  private async streamFromServer(
+    server: string,
+    sha256: string,
+    path?: string,
+    signal?: AbortSignal,
+    onShared?: (file: FileResponse) => void
+  ): Promise<FileStream> {
+    if (!this.health.startRequest(server)) {
+      throw new Error(`Circuit open for ${server}`);
+    }
+    const baseUrl = server.endsWith('/') ? server.slice(0, -1) : server;
+    const url = `${baseUrl}/${sha256}`;
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    const startedAt = Date.now();
+
+    let response: AxiosResponse<Readable>;
+    try {
+      response = await axios.get(url, {
+        timeout: this.requestTimeout,
+        responseType: 'stream',
+        signal: controller.signal,
+        validateStatus: (status) => status === 200,
+        headers: {
+          'User-Agent': 'Nostr-Static-Server/1.0.0',
+        },
+      });
+    } catch (error) {
+      this.recordServerError(server, error, Date.now() - startedAt, signal);
+      throw this.toFetchError(error, sha256);
+    }
+
+    const upstream = response.data;
+    const abort = () => {
+      controller.abort();
+      upstream.destroy();
+    };
+
+    const declaredLength = parseInt(response.headers['content-length'] || '', 10);
+    if (declaredLength > this.maxFileSizeBytes) {
+      abort();
+      throw new Error(`File too large: ${declaredLength} bytes (max: ${this.maxFileSizeBytes})`);
+    }
+
+    // Peek at the first chunk so MIME type correction can inspect the content
+    let firstChunk: Buffer | null;
+    try {
+      firstChunk = await this.readFirstChunk(upstream);
+    } catch (error) {
+      this.recordServerError(server, error, Date.now() - startedAt, signal);
+      abort();
       throw error;
     }
+    const latencyMs = Date.now() - startedAt;
+
+    const serverContentType: string = response.headers['content-type'] || '';
+    const contentType = this.resolveContentType(
+      serverContentType,
+      path,
+      firstChunk || new Uint8Array()
+    );
+
+    const verifier = new BlobVerifier({
+      sha256,
+      maxBytes: this.maxFileSizeBytes,
+      collectMaxBytes: this.getStreamCollectLimit(),
+      onVerified: (content) => {
+        this.health.recordSuccess(server, latencyMs);
+        logger.logBlossom('streamFile', sha256, server, true, {
+          size: verifier.bytesReceived,
+          contentType,
+          cached: !!content,
+        });
+
+        if (content) {
+          onShared?.({
+            content,
+            contentType: serverContentType,
+            contentLength: content.length,
+            sha256,
+          });
+          CacheService.setFileContent(sha256, content).catch((cacheError) => {
+            logger.error(
+              `❌ Failed to cache streamed file ${sha256.substring(0, 8)}...:`,
+              cacheError
+            );
+          });
+        }
+      },
+    });
+
+    verifier.on('error', (error) => {
+      const mismatch = error.message.match(/^SHA256 mismatch: expected \w+, got (\w+)/);
+      if (mismatch) {
+        this.recordIntegrityFailure(server, sha256, mismatch[1]);
+        this.forgetBlobServer(sha256, server);
+      }
+    });
+
+    // Stop the download when the verifier fails or the consumer goes away
+    verifier.on('close', () => {
+      this.health.cancelRequest(server);
+      if (!upstream.readableEnded) {
+        abort();
+      }
+    });
+
+    if (firstChunk) {
+      verifier.write(firstChunk);
+    }
+
+    // Small bodies may already have ended while the stream was paused
+    if (!firstChunk || upstream.readableEnded) {
+      verifier.end();
+    } else {
+      upstream.on('error', (error) => {
+        if (!verifier.destroyed) {
+          this.health.recordFailure(server);
+          verifier.destroy(error);
+        }
+      });
+      upstream.pipe(verifier);
+    }
+
+    return {
+      stream: verifier,
+      contentType,
+      contentLength: Number.isNaN(declaredLength) ? undefined : declaredLength,
+      sha256,
+      abort,
+    };
+  }
+
+  /**
+   * Largest streamed blob that is kept in memory once verified, for the cache and for
+   * requests waiting on the same download
+   */
+  private getStreamCollectLimit(): number {
+    const { streamCacheMaxSize = 0, maxFileSize = Infinity } = this.config.getConfig();
+    return Math.min(streamCacheMaxSize, maxFileSize);
+  }
+
+  /**
+   * Content type to serve a blob at `path` with: the server's type or the one of the path's
+   * extension, corrected when a server sends the wrong type for a common file type
+   */
+  private resolveContentType(
+    serverContentType: string,
+    path: string | undefined,
+    content: Uint8Array
+  ): string {
+    let contentType = serverContentType || this.getContentTypeFromPath(path || '');
+
+    // Clean up content type (remove charset if present for binary files)
+    if (contentType.includes(';') && !contentType.startsWith('text/')) {
+      contentType = contentType.split(';')[0].trim();
+    }
+
+    return this.fixMimeType(contentType, path || '', content);
+  }
+
+  /**
+   * Race options for the configured fetch strategy, logging failed attempts
+   */
+  private getRaceOptions<T>(operation: string, sha256: string): RaceOptions<string, T> {
+    const config = this.config.getConfig();
+
+    return {
+      strategy: config.blossomFetchStrategy,
+      hedgeDelayMs: config.blossomHedgeDelayMs,
+      onError: (server, error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.logBlossom(operation, sha256, server, false, { error: message });
+
+        // Stop trying servers first that no longer hold the blob (or serve other bytes)
+        if (message.startsWith('File not found') || message.startsWith('SHA256 mismatch')) {
+          this.forgetBlobServer(sha256, server);
+        }
+      },
+    };
+  }
+
+  /**
+   * Get integrity failure counts per server
+   */
+  public getIntegrityFailures(): Record<string, number> {
+    return this.health.getIntegrityFailures();
+  }
+
+  /**
+   * Get Blossom server health statistics
+   */
+  public getStats(): {
+    servers: Record<string, BlossomServerStats>;
+    coalescing: Record<'downloads' | 'streams', SingleFlightStats>;
+  } {
+    return {
+      servers: this.health.getStats(),
+      coalescing: {
+        downloads: this.blobFlights.getStats(),
+        streams: this.streamFlights.getStats(),
+      },
+    };
+  }
+
+  /**
+   * Record a server that served content with the wrong hash
+   */
+  private recordIntegrityFailure(server: string, sha256: string, actualSha256: string): void {
+    this.health.recordIntegrityFailure(server);
+    const failures = this.health.getIntegrityFailures()[server];
+
+    logger.warn(`🚨 Integrity failure #${failures} from ${server}`, {
+      expected: sha256,
+      actual: actualSha256,
+    });
+  }
+
+  /**
+   * Remove a server from the blob's known holders in the background
+   */
+  private forgetBlobServer(sha256: string, server: string): void {
+    CacheService.removeBlobServer(sha256, server).catch((cacheError) => {
+      logger.error(
+        `❌ Failed to update blob holders for ${sha256.substring(0, 8)}...:`,
+        cacheError
+      );
+    });
+  }
+
+  /**
+   * Record the outcome of a failed request in the server's health
+   */
+  private recordServerError(
+    server: string,
+    error: unknown,
+    latencyMs: number,
+    signal?: AbortSignal
+  ): void {
+    // Requests cancelled because another server won the race say nothing about this one
+    if (signal?.aborted || axios.isCancel(error)) {
+      this.health.cancelRequest(server);
+      return;
+    }
+
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, headers } = error.response;
+
+      if (status === 429) {
+        this.health.recordRateLimit(server, parseRetryAfter(headers['retry-after']));
+        return;
+      }
+
+      // The server answered, it just doesn't have (or won't serve) the blob
+      if (status < 500) {
+        this.health.recordSuccess(server, latencyMs);
+        return;
+      }
+    }
+
+    // Integrity failures are recorded where they are detected, oversized files aren't a fault
+    if (error instanceof Error && /^(SHA256 mismatch|File too large)/.test(error.message)) {
+      this.health.cancelRequest(server);
+      return;
+    }
+
+    this.health.recordFailure(server);
+  }
+
+  /**
+   * Put servers known to hold the blob first, followed by the pubkey's servers, then
+   * demote unhealthy servers
+   */
+  private async orderServers(sha256: string, servers: string[]): Promise<string[]> {
+    const knownServers = (await CacheService.getBlobURLs(sha256)) || [];
+    return this.health.order([...new Set([...knownServers, ...servers])]);
+  }
+
+  /**
+   * Read the first chunk of a stream and pause it, or null if it ends without data
+   */
+  private readFirstChunk(stream: Readable): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        stream.off('data', onData);
+        stream.off('end', onEnd);
+        stream.off('error', onError);
+      };
+      const onData = (chunk: Buffer) => {
+        cleanup();
+        stream.pause();
+        resolve(chunk);
+      };
+      const onEnd = () => {
+        cleanup();
+        resolve(null);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      stream.on('data', onData);
+      stream.on('end', onEnd);
+      stream.on('error', onError);
+    });
+  }
+
+  /**
+   * Map an upstream request error to a descriptive error
+   */
+  private toFetchError(error: unknown, sha256: string): Error {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const statusText = error.response?.statusText;
+
+      if (status === 404) {
+        return new Error(`File not found: ${sha256}`);
+      } else if (status === 413) {
+        return new Error(`File too large`);
+      } else if (status === 429) {
+        return new Error(`Rate limited by server`);
+      } else if (error.code === 'ECONNABORTED') {
+        return new Error(`Request timeout (${this.requestTimeout}ms)`);
+      } else {
+        return new Error(`HTTP ${status} ${statusText}: ${error.message}`);
+      }
+    }
+    return error instanceof Error ? error : new Error(String(error));
   }
 
   /**
@@ -448,3 +933,20 @@ export class BlossomHelper {
     return hash.digest('hex');
   }
 }
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -1,9 +1,23 @@
 import { SimplePool } from 'nostr-tools';
 import 'websocket-polyfill';
-import { BlossomServerListEvent, NostrEvent, RelayListEvent, StaticFileEvent } from '../types';
+import {
+  BlossomServerListEvent,
+  NostrEvent,
+  ParsedEvent,
+  RelayListEvent,
+  SiteManifestEvent,
+  StaticFileEvent,
+} from '../types';
 import { CacheService } from '../utils/cache';
 import { ConfigManager } from '../utils/config';
+import { EventStore } from '../utils/event-store';
 import { logger } from '../utils/logger';
+import { PinnedSiteStore } from '../utils/pinned-store';
+import { GatewaySigner, isAuthRelay } from '../utils/signer';
+import { NostrHelper } from './nostr';
+
+// Kinds of the site events deletion requests can delete, as written in `k` tags
+const SITE_KINDS = ['34128', '15128', '35128'];
 
 interface InvalidationConnection {
   url: string;
@@ -28,10 +42,23 @@ export class CacheInvalidationService {
   private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
   private isEnabled: boolean = false;
   private isShuttingDown: boolean = false;
-
-  constructor() {
+  // Answers NIP-42 AUTH challenges of the relays listed in `authRelays`
+  private signer: GatewaySigner | null;
+  // Receives the site and list events seen in real time
+  private eventStore: EventStore | null;
+  // Keeps the deletions of pinned sites, which outlive the cache
+  private pinnedStore: PinnedSiteStore | null;
+
+  constructor(
+    signer: GatewaySigner | null = null,
+    eventStore: EventStore | null = null,
+    pinnedStore: PinnedSiteStore | null = null
+  ) {
     this.pool = new SimplePool();
     this.config = ConfigManager.getInstance();
+    this.signer = signer;
+    this.eventStore = eventStore;
+    this.pinnedStore = pinnedStore;
 
     const configData = this.config.getConfig();
     this.isEnabled = configData.realtimeCacheInvalidation;
@@ -118,6 +145,12 @@ export class CacheInvalidationService {
     // Subscribe to static file events (kind 34128)
     this.subscribeToStaticFileEvents(connectedRelays);
 
+    // Subscribe to deletion requests (kind 5) for static file events
+    this.subscribeToDeletionEvents(connectedRelays);
+
+    // Subscribe to site manifest events (kinds 15128 and 35128)
+    this.subscribeToSiteManifestEvents(connectedRelays);
+
     // Subscribe to relay list events (kind 10002)
     this.subscribeToRelayListEvents(connectedRelays);
 
@@ -129,6 +162,37 @@ export class CacheInvalidationService {
     );
   }
 
+  /**
+   * Subscribe on several relays; relays opted in through `authRelays` get their AUTH
+   * challenges (NIP-42) answered with the gateway signer, then the subscription is resent
+   */
+  private subscribeMany(
+    relays: string[],
+    filters: Parameters<SimplePool['subscribeMany']>[1],
+    params: Parameters<SimplePool['subscribeMany']>[2]
+  ): { close: () => void } {
+    const signer = this.signer;
+    const authRelays = this.config.getConfig().authRelays || [];
+    const authenticated = signer ? relays.filter((relay) => isAuthRelay(relay, authRelays)) : [];
+
+    if (!signer || authenticated.length === 0) {
+      return this.pool.subscribeMany(relays, filters, params);
+    }
+
+    const others = relays.filter((relay) => !authenticated.includes(relay));
+    const subs = [
+      this.pool.subscribeMany(authenticated, filters, {
+        ...params,
+        onauth: (template) => signer.signEvent(template),
+      }),
+    ];
+    if (others.length > 0) {
+      subs.push(this.pool.subscribeMany(others, filters, params));
+    }
+
+    return { close: () => subs.forEach((sub) => sub.close()) };
+  }
+
   /**
    * Subscribe to static file mapping events (kind 34128)
    */
@@ -147,7 +211,7 @@ export class CacheInvalidationService {
     );
     logger.debug(`Static file event filter:`, filter);
 
-    const sub = this.pool.subscribeMany(relays, [filter], {
+    const sub = this.subscribeMany(relays, [filter], {
       onevent: (event: NostrEvent) => {
         const eventAge = Math.floor(Date.now() / 1000) - event.created_at;
         logger.info(
@@ -181,6 +245,75 @@ export class CacheInvalidationService {
     logger.debug(`Static file subscription stored with ${relays.length} relays`);
   }
 
+  /**
+   * Subscribe to deletion requests (kind 5, NIP-09) that name a site kind in a `k` tag
+   * Requests without `k` tags are still found by the lookups and the site sync.
+   */
+  private subscribeToDeletionEvents(relays: string[]): void {
+    // Same lookback as static file events, so a replayed deletion still evicts the mapping
+    const lookbackSeconds = 3600; // 1 hour
+    const filter = {
+      kinds: [5], // Deletion requests
+      '#k': SITE_KINDS,
+      since: Math.floor(Date.now() / 1000) - lookbackSeconds, // Include recent events
+    };
+
+    const sub = this.subscribeMany(relays, [filter], {
+      onevent: (event: NostrEvent) => {
+        if (event.kind !== 5) {
+          logger.warn(`⚠️  Received wrong event kind: ${event.kind}, expected 5`);
+          return;
+        }
+
+        this.handleDeletionEvent(event);
+      },
+      oneose: () => {
+        logger.debug('Deletion event subscription established');
+      },
+      onclose: (reasons: string[]) => {
+        logger.warn('Deletion event subscription closed:', reasons);
+        if (!this.isShuttingDown) {
+          this.scheduleReconnect();
+        }
+      },
+    });
+
+    this.subscriptions.set('deletions', sub);
+  }
+
+  /**
+   * Subscribe to site manifest events (kind 15128 root sites, kind 35128 named sites)
+   */
+  private subscribeToSiteManifestEvents(relays: string[]): void {
+    const lookbackSeconds = 3600; // 1 hour
+    const filter = {
+      kinds: [15128, 35128], // Site manifest events
+      since: Math.floor(Date.now() / 1000) - lookbackSeconds, // Include recent events
+    };
+
+    const sub = this.subscribeMany(relays, [filter], {
+      onevent: (event: NostrEvent) => {
+        if (event.kind !== 15128 && event.kind !== 35128) {
+          logger.warn(`⚠️  Received wrong event kind: ${event.kind}, expected 15128 or 35128`);
+          return;
+        }
+
+        this.handleSiteManifestEvent(event as SiteManifestEvent);
+      },
+      oneose: () => {
+        logger.debug('Site manifest event subscription established');
+      },
+      onclose: (reasons: string[]) => {
+        logger.warn('Site manifest event subscription closed:', reasons);
+        if (!this.isShuttingDown) {
+          this.scheduleReconnect();
+        }
+      },
+    });
+
+    this.subscriptions.set('site-manifests', sub);
+  }
+
   /**
    * Subscribe to relay list events (kind 10002)
    */
@@ -190,7 +323,7 @@ export class CacheInvalidationService {
       since: Math.floor(Date.now() / 1000), // Only new events
     };
 
-    const sub = this.pool.subscribeMany(relays, [filter], {
+    const sub = this.subscribeMany(relays, [filter], {
       onevent: (event: NostrEvent) => {
         this.handleRelayListEvent(event as RelayListEvent);
       },
@@ -217,7 +350,7 @@ export class CacheInvalidationService {
       since: Math.floor(Date.now() / 1000), // Only new events
     };
 
-    const sub = this.pool.subscribeMany(relays, [filter], {
+    const sub = this.subscribeMany(relays, [filter], {
       onevent: (event: NostrEvent) => {
         this.handleBlossomServerEvent(event as BlossomServerListEvent);
       },
@@ -235,6 +368,27 @@ export class CacheInvalidationService {
     this.subscriptions.set('blossom-servers', sub);
   }
 
+  /**
+   * Handle a verified event that arrived outside the subscriptions, e.g. from a site sync
+   */
+  public async handleEvent(event: NostrEvent): Promise<void> {
+    switch (event.kind) {
+      case 34128:
+        return this.handleStaticFileEvent(event as StaticFileEvent);
+      case 5:
+        return this.handleDeletionEvent(event);
+      case 15128:
+      case 35128:
+        return this.handleSiteManifestEvent(event as SiteManifestEvent);
+      case 10002:
+        return this.handleRelayListEvent(event as RelayListEvent);
+      case 10063:
+        return this.handleBlossomServerEvent(event as BlossomServerListEvent);
+      default:
+        logger.debug(`Ignoring event of kind ${event.kind}`);
+    }
+  }
+
   /**
    * Handle static file mapping events for cache invalidation
    */
@@ -255,6 +409,11 @@ export class CacheInvalidationService {
         content: event.content?.substring(0, 100) + (event.content?.length > 100 ? '...' : ''),
       });
 
+      if (NostrHelper.isExpired(event)) {
+        logger.info(`⌛ Skipping expired static file event ${eventId}...`);
+        return;
+      }
+
       // Extract path from 'd' tag
       let path: string | null = null;
       for (const tag of event.tags) {
@@ -296,16 +455,36 @@ export class CacheInvalidationService {
         return;
       }
 
+      // Events replayed from before a deletion must not bring the mapping back
+      const deletedAt = await CacheService.getPathDeletion(pubkey, path);
+      if (deletedAt !== null && event.created_at <= deletedAt) {
+        logger.info(`🗑️ Skipping deleted static file event ${eventId} for ${path}`);
+        return;
+      }
+
+      // A relay replaying an older event must not roll the mapping back
+      const cached = await CacheService.getBlobForPath(pubkey, path);
+      if (cached && !NostrHelper.isNewer(event, cached)) {
+        logger.debug(`Skipping static file event ${eventId}, the cached mapping is newer`);
+        return;
+      }
+
       // Create ParsedEvent for cache and UPDATE cache instead of invalidating
-      const parsedEvent = {
+      const parsedEvent: ParsedEvent = {
         pubkey: event.pubkey,
         path: path,
         sha256: sha256,
         created_at: event.created_at,
+        id: event.id,
       };
+      const expiration = NostrHelper.getExpiration(event);
+      if (expiration !== undefined) {
+        parsedEvent.expiration = expiration;
+      }
 
       logger.debug(`📦 Updating cache with new data: ${path} → ${sha256.substring(0, 8)}...`);
       await CacheService.setBlobForPath(pubkey, path, parsedEvent);
+      await this.eventStore?.save(event);
 
       logger.info(
         `✅ Cache UPDATED for static file: ${path} by ${pubkey.substring(
@@ -332,33 +511,215 @@ export class CacheInvalidationService {
   }
 
   /**
-   * Handle relay list events for cache update
+   * Handle deletion requests by evicting the path mappings and site manifests they delete
+   * Mappings are referenced by `a` coordinate (`34128:<pubkey>:<path>`) or by the id of
+   * a cached kind 34128 event, manifests by `a` coordinate (`15128:<pubkey>:` or
+   * `35128:<pubkey>:<identifier>`) or by id; only the author's own events can be deleted.
    */
-  private async handleRelayListEvent(event: RelayListEvent): Promise<void> {
+  private async handleDeletionEvent(event: NostrEvent): Promise<void> {
     try {
       const pubkey = event.pubkey;
 
-      logger.debug(`Processing relay list update for: ${pubkey.substring(0, 8)}...`);
+      // Requests that name the deleted kinds (`k` tags) and leave out the site kinds are not ours
+      const kinds = event.tags.filter((tag) => tag[0] === 'k').map((tag) => tag[1]);
+      if (kinds.length > 0 && !kinds.some((kind) => SITE_KINDS.includes(kind))) {
+        return;
+      }
 
-      // Parse relay tags to extract relay list
-      const userRelays: string[] = [];
-      for (const tag of event.tags) {
-        if (tag[0] === 'r' && tag[1]) {
-          const relayUrl = tag[1];
-          const relayType = tag[2]; // 'read', 'write', or undefined (both)
+      const { paths, sites, eventIds } = NostrHelper.parseDeletionRequest(event);
+      await this.deleteSiteManifests(pubkey, sites, eventIds, event.created_at);
+
+      // Path → created_at up to which its mapping is deleted
+      const deleted = new Map<string, number>();
+      paths.forEach((path) => deleted.set(path, event.created_at));
 
-          // Only include read relays or unspecified (both)
-          if (!relayType || relayType === 'read') {
-            userRelays.push(relayUrl);
+      for (const eventId of eventIds) {
+        const mapping = await CacheService.getBlobForEvent(eventId);
+        if (mapping && mapping.pubkey === pubkey) {
+          deleted.set(mapping.path, Math.max(deleted.get(mapping.path) ?? 0, mapping.created_at));
+        }
+      }
+
+      // Pinned mappings deleted by id, which may be neither cached nor in the event store
+      const pinned = eventIds.length > 0 ? await this.pinnedStore?.getSite(pubkey) : null;
+      for (const mapping of pinned?.paths ?? []) {
+        if (mapping.id && eventIds.includes(mapping.id)) {
+          deleted.set(mapping.path, Math.max(deleted.get(mapping.path) ?? 0, mapping.created_at));
+        }
+      }
+
+      // Stored events deleted by id, whose mappings may not be cached
+      if (this.eventStore && eventIds.length > 0) {
+        const stored = await this.eventStore.query([
+          { ids: eventIds, authors: [pubkey], kinds: [34128] },
+        ]);
+        for (const storedEvent of stored) {
+          const path = storedEvent.tags.find((tag) => tag[0] === 'd')?.[1];
+          if (path) {
+            deleted.set(path, Math.max(deleted.get(path) ?? 0, storedEvent.created_at));
           }
         }
       }
 
+      for (const [path, deletedAt] of deleted.entries()) {
+        await this.eventStore?.deleteAddress(pubkey, 34128, path, deletedAt);
+        await this.pinnedStore?.deletePath(pubkey, path, deletedAt);
+        const evicted = await CacheService.setPathDeletion(pubkey, path, deletedAt);
+        logger.info(
+          `🗑️ Deletion recorded for static file: ${path} by ${pubkey.substring(0, 8)}...` +
+            (evicted ? ' (cache entry evicted)' : '')
+        );
+      }
+
+      // Kept so the deletion outlives a restart, see SiteSyncService
+      await this.eventStore?.save(event);
+    } catch (error) {
+      logger.error('Error handling deletion event for cache invalidation:', error);
+    }
+  }
+
+  /**
+   * Record the deletion of the manifests a deletion request references
+   * Root site manifests deleted by id are found in the cache, named site manifests by
+   * id only in the event store; deletions by `a` coordinate always apply.
+   */
+  private async deleteSiteManifests(
+    pubkey: string,
+    sites: string[],
+    eventIds: string[],
+    createdAt: number
+  ): Promise<void> {
+    // Identifier ('' for the root site) → created_at up to which its manifest is deleted
+    const deleted = new Map<string, number>();
+    sites.forEach((identifier) => deleted.set(identifier, createdAt));
+
+    if (eventIds.length > 0) {
+      const root = await CacheService.getSiteManifest(pubkey);
+      if (root?.id && eventIds.includes(root.id)) {
+        deleted.set('', Math.max(deleted.get('') ?? 0, root.created_at));
+      }
+
+      const stored = this.eventStore
+        ? await this.eventStore.query([
+            { ids: eventIds, authors: [pubkey], kinds: [15128, 35128] },
+          ])
+        : [];
+      for (const storedEvent of stored) {
+        const identifier = storedEvent.tags.find((tag) => tag[0] === 'd')?.[1] ?? '';
+        deleted.set(identifier, Math.max(deleted.get(identifier) ?? 0, storedEvent.created_at));
+      }
+
+      const pinned = await this.pinnedStore?.getSite(pubkey);
+      for (const manifest of pinned?.manifests ?? []) {
+        if (manifest.id && eventIds.includes(manifest.id)) {
+          const identifier = manifest.identifier || '';
+          deleted.set(identifier, Math.max(deleted.get(identifier) ?? 0, manifest.created_at));
+        }
+      }
+    }
+
+    for (const [identifier, deletedAt] of deleted.entries()) {
+      const site = identifier ? `site "${identifier}"` : 'root site';
+      const kind = identifier ? 35128 : 15128;
+      await this.eventStore?.deleteAddress(pubkey, kind, identifier, deletedAt);
+      await this.pinnedStore?.deleteSite(pubkey, identifier || undefined, deletedAt);
+      const evicted = await CacheService.setSiteDeletion(
+        pubkey,
+        identifier || undefined,
+        deletedAt
+      );
+      logger.info(
+        `🗑️ Deletion recorded for ${site} manifest by ${pubkey.substring(0, 8)}...` +
+          (evicted ? ' (cache entry evicted)' : '')
+      );
+    }
+  }
+
+  /**
+   * Handle site manifest events by replacing the cached path table of the site
+   */
+  private async handleSiteManifestEvent(event: SiteManifestEvent): Promise<void> {
+    try {
+      const pubkey = event.pubkey;
+      let identifier: string | undefined;
+
+      if (NostrHelper.isExpired(event)) {
+        logger.debug(`Skipping expired site manifest event ${event.id?.substring(0, 8)}...`);
+        return;
+      }
+
+      if (event.kind === 35128) {
+        identifier = event.tags.find((tag) => tag[0] === 'd' && tag[1])?.[1];
+
+        if (!identifier) {
+          logger.warn(
+            `⚠️  Named site event ${event.id?.substring(0, 8)} missing 'd' tag, skipping`
+          );
+          return;
+        }
+      }
+
+      const cached = await CacheService.getSiteManifest(pubkey, identifier);
+      if (cached && !NostrHelper.isNewer(event, cached)) {
+        logger.debug(
+          `Skipping site manifest event ${event.id?.substring(0, 8)}..., the cached one is newer`
+        );
+        return;
+      }
+
+      const manifest = NostrHelper.toSiteManifest(pubkey, identifier, event);
+
+      await CacheService.setSiteManifest(pubkey, manifest, identifier);
+      await this.eventStore?.save(event);
+
+      logger.info(
+        `✅ Manifest cache UPDATED for ${
+          identifier ? `site "${identifier}"` : 'root site'
+        } by ${pubkey.substring(0, 8)}... (${Object.keys(manifest.paths).length} paths)`
+      );
+    } catch (error) {
+      logger.error('Error handling site manifest event for cache update:', error);
+    }
+  }
+
+  /**
+   * Handle relay list events for cache update
+   */
+  private async handleRelayListEvent(event: RelayListEvent): Promise<void> {
+    try {
+      const pubkey = event.pubkey;
+
+      if (NostrHelper.isExpired(event)) {
+        logger.debug(`Skipping expired relay list event for: ${pubkey.substring(0, 8)}...`);
+        return;
+      }
+
+      // Events can arrive out of order (site sync, catch-up queries): only a newer list wins
+      const cached = await CacheService.getRelaysEntry(pubkey);
+      if (cached?.source && !NostrHelper.isNewer(event, cached.source)) {
+        logger.debug(`Skipping relay list event ${event.id?.substring(0, 8)}..., cached is newer`);
+        return;
+      }
+
+      logger.debug(`Processing relay list update for: ${pubkey.substring(0, 8)}...`);
+
+      // Parse relay tags, keeping read/write markers
+      const userRelays = NostrHelper.parseRelayList(event);
+
       // Update cache with new relay list (or use defaults if empty)
       const config = this.config.getConfig();
-      const finalRelays = userRelays.length > 0 ? userRelays : config.defaultRelays;
-
-      await CacheService.setRelaysForPubkey(pubkey, finalRelays);
+      const finalRelays =
+        userRelays.length > 0
+          ? userRelays
+          : config.defaultRelays.map((url) => ({ url, read: true, write: true }));
+
+      await CacheService.setRelaysForPubkey(
+        pubkey,
+        finalRelays,
+        NostrHelper.getExpiration(event),
+        event
+      );
+      await this.eventStore?.save(event);
 
       logger.info(
         `✅ Relay list cache UPDATED for ${pubkey.substring(0, 8)}... (${
@@ -377,6 +738,20 @@ export class CacheInvalidationService {
     try {
       const pubkey = event.pubkey;
 
+      if (NostrHelper.isExpired(event)) {
+        logger.debug(`Skipping expired blossom server event for: ${pubkey.substring(0, 8)}...`);
+        return;
+      }
+
+      // Events can arrive out of order (site sync, catch-up queries): only a newer list wins
+      const cached = await CacheService.getBlossomServersEntry(pubkey);
+      if (cached?.source && !NostrHelper.isNewer(event, cached.source)) {
+        logger.debug(
+          `Skipping blossom server event ${event.id?.substring(0, 8)}..., cached is newer`
+        );
+        return;
+      }
+
       logger.debug(`Processing blossom server list update for: ${pubkey.substring(0, 8)}...`);
 
       // Parse server tags to extract server list
@@ -391,7 +766,13 @@ export class CacheInvalidationService {
       const config = this.config.getConfig();
       const finalServers = servers.length > 0 ? servers : config.defaultBlossomServers;
 
-      await CacheService.setBlossomServersForPubkey(pubkey, finalServers);
+      await CacheService.setBlossomServersForPubkey(
+        pubkey,
+        finalServers,
+        NostrHelper.getExpiration(event),
+        event
+      );
+      await this.eventStore?.save(event);
 
       logger.info(
         `✅ Blossom server cache UPDATED for ${pubkey.substring(0, 8)}... (${
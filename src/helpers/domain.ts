@@ -0,0 +1,256 @@
+import axios from 'axios';
+import { promises as dns } from 'dns';
+import { promises as fs } from 'fs';
+import { nip19 } from 'nostr-tools';
+import { PubkeyResolution } from '../types';
+import { CacheService } from '../utils/cache';
+import { ConfigManager } from '../utils/config';
+import { logger } from '../utils/logger';
+import { NostrHelper } from './nostr';
+
+const HEX_PUBKEY_REGEX = /^[0-9a-f]{64}$/;
+
+// NIP-05 names served as subdomains must also be valid DNS labels
+const NIP05_SUBDOMAIN_REGEX = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Shape of a NIP-05 `nostr.json` document (also used for the local registry file)
+ */
+interface Nip05Document {
+  names?: Record<string, string>;
+}
+
+/**
+ * Minimal DNS interface used for TXT lookups
+ * Pluggable so tests (or custom setups) can provide their own resolver
+ */
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+/**
+ * Resolves incoming hostnames to site pubkeys
+ *
+ * Subdomains of the base domain are decoded directly, falling back to NIP-05 names
+ * (`alice.example.com`). Any other hostname is treated as a custom domain whose pubkey
+ * is published in a TXT record (e.g. `_nostr.example.org`).
+ */
+export class DomainResolver {
+  private config: ConfigManager;
+  private nostrHelper: NostrHelper;
+  private dnsResolver: DnsResolver;
+  private registry: { mtimeMs: number; names: Record<string, string> } | null = null;
+
+  constructor(nostrHelper: NostrHelper, dnsResolver: DnsResolver = dns) {
+    this.config = ConfigManager.getInstance();
+    this.nostrHelper = nostrHelper;
+    this.dnsResolver = dnsResolver;
+  }
+
+  /**
+   * Resolve a request hostname to a pubkey
+   */
+  public async resolveHostname(hostname: string): Promise<PubkeyResolution> {
+    const config = this.config.getConfig();
+
+    if (hostname.endsWith(`.${config.baseDomain}`)) {
+      const resolution = this.nostrHelper.resolvePubkey(hostname);
+      if (resolution.isValid || !this.isNameLookupEnabled()) {
+        return resolution;
+      }
+
+      const name = hostname.slice(0, -(config.baseDomain.length + 1)).toLowerCase();
+      return this.resolveName(name);
+    }
+
+    if (!config.customDomainsEnabled) {
+      return this.nostrHelper.resolvePubkey(hostname);
+    }
+
+    return this.resolveCustomDomain(hostname);
+  }
+
+  /**
+   * Resolve a NIP-05 name subdomain through the local registry or the identity provider
+   */
+  public async resolveName(name: string): Promise<PubkeyResolution> {
+    const cacheKey = `nip05:${name}`;
+    const invalid: PubkeyResolution = { pubkey: '', subdomain: name, isValid: false };
+
+    if (!NIP05_SUBDOMAIN_REGEX.test(name)) {
+      return invalid;
+    }
+
+    // Check cache first, without sliding so names are looked up again after NIP05_CACHE_TTL_MS
+    const cached = await CacheService.getPubkeyForDomain(cacheKey, false);
+    if (cached) {
+      return this.toResolution(name, cached);
+    }
+
+    // Check negative cache
+    if (await CacheService.isNegativeCached(cacheKey)) {
+      logger.debug(`🚫 Negative cache HIT for NIP-05 name: ${name}`);
+      return invalid;
+    }
+
+    const config = this.config.getConfig();
+    const pubkey =
+      (await this.lookupRegistryName(name)) || (await this.lookupProviderName(name));
+
+    if (pubkey) {
+      await CacheService.setPubkeyForDomain(cacheKey, pubkey, config.nip05CacheTtlMs);
+      logger.info(`🪪 NIP-05 name ${name} → ${pubkey.substring(0, 8)}...`);
+      return this.toResolution(name, pubkey);
+    }
+
+    await CacheService.setNegativeCache(cacheKey);
+    return invalid;
+  }
+
+  /**
+   * Resolve a custom domain through its TXT record, caching the result in pubkeyDomains
+   */
+  public async resolveCustomDomain(hostname: string): Promise<PubkeyResolution> {
+    const domain = hostname.toLowerCase();
+    const negativeKey = `domain:${domain}`;
+    const invalid: PubkeyResolution = { pubkey: '', subdomain: domain, isValid: false };
+
+    // Check cache first
+    const cached = await CacheService.getPubkeyForDomain(domain);
+    if (cached) {
+      return this.toResolution(domain, cached);
+    }
+
+    // Check negative cache
+    if (await CacheService.isNegativeCached(negativeKey)) {
+      logger.debug(`🚫 Negative cache HIT for custom domain: ${domain}`);
+      return invalid;
+    }
+
+    const config = this.config.getConfig();
+    const recordName = `${config.customDomainTxtPrefix}.${domain}`;
+
+    try {
+      logger.debug(`Looking up TXT record ${recordName}`);
+      const records = await this.dnsResolver.resolveTxt(recordName);
+
+      for (const chunks of records) {
+        // Long TXT records are split into 255-byte chunks
+        const pubkey = this.parsePubkey(chunks.join('').trim());
+        if (pubkey) {
+          await CacheService.setPubkeyForDomain(domain, pubkey);
+          logger.info(`🌐 Custom domain ${domain} → ${pubkey.substring(0, 8)}...`);
+          return this.toResolution(domain, pubkey);
+        }
+      }
+
+      logger.warn(`No valid pubkey in TXT record ${recordName}`);
+    } catch (error) {
+      logger.debug(`TXT lookup failed for ${recordName}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await CacheService.setNegativeCache(negativeKey);
+    return invalid;
+  }
+
+  private isNameLookupEnabled(): boolean {
+    const config = this.config.getConfig();
+    return !!(config.nip05Provider || config.nip05RegistryFile);
+  }
+
+  /**
+   * Look up a name in the local registry file, reloading it when the file changes
+   */
+  private async lookupRegistryName(name: string): Promise<string | null> {
+    const { nip05RegistryFile } = this.config.getConfig();
+    if (!nip05RegistryFile) {
+      return null;
+    }
+
+    try {
+      const stats = await fs.stat(nip05RegistryFile);
+      if (!this.registry || this.registry.mtimeMs !== stats.mtimeMs) {
+        const document: Nip05Document = JSON.parse(await fs.readFile(nip05RegistryFile, 'utf8'));
+        this.registry = { mtimeMs: stats.mtimeMs, names: document.names || {} };
+        logger.debug(
+          `Loaded ${Object.keys(this.registry.names).length} names from ${nip05RegistryFile}`
+        );
+      }
+    } catch (error) {
+      logger.warn(`Failed to load NIP-05 registry file ${nip05RegistryFile}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+
+    return this.parseNip05Pubkey(this.registry.names[name]);
+  }
+
+  /**
+   * Look up a name at the configured provider's `/.well-known/nostr.json`
+   */
+  private async lookupProviderName(name: string): Promise<string | null> {
+    const config = this.config.getConfig();
+    if (!config.nip05Provider) {
+      return null;
+    }
+
+    const url = `${config.nip05Provider}/.well-known/nostr.json`;
+
+    try {
+      logger.debug(`Looking up NIP-05 name ${name} at ${url}`);
+      const response = await axios.get<Nip05Document>(url, {
+        params: { name },
+        timeout: config.requestTimeoutMs,
+        // NIP-05 forbids redirects on this endpoint
+        maxRedirects: 0,
+      });
+
+      return this.parseNip05Pubkey(response.data?.names?.[name]);
+    } catch (error) {
+      logger.debug(`NIP-05 lookup failed for ${name}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * NIP-05 documents must use lowercase hex pubkeys
+   */
+  private parseNip05Pubkey(value: unknown): string | null {
+    return typeof value === 'string' && HEX_PUBKEY_REGEX.test(value) ? value : null;
+  }
+
+  /**
+   * Parse a TXT record value as an npub or a hex pubkey
+   */
+  private parsePubkey(value: string): string | null {
+    if (HEX_PUBKEY_REGEX.test(value)) {
+      return value;
+    }
+
+    if (value.startsWith('npub1')) {
+      try {
+        const decoded = nip19.decode(value);
+        if (decoded.type === 'npub') {
+          return decoded.data as string;
+        }
+      } catch (error) {
+        logger.debug(`Invalid npub in TXT record: ${value}`);
+      }
+    }
+
+    return null;
+  }
+
+  private toResolution(domain: string, pubkey: string): PubkeyResolution {
+    return {
+      pubkey,
+      subdomain: domain,
+      isValid: true,
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { IncomingMessage } from 'http';
+import { matchFilters } from 'nostr-tools';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { NostrEvent } from '../types';
+import { EventFilter, EventStore } from '../utils/event-store';
+import { logger } from '../utils/logger';
+
+export const LOCAL_RELAY_PATH = '/relay';
+
+// Open subscriptions allowed per connection
+const MAX_SUBSCRIPTIONS = 20;
+const MAX_FILTERS = 10;
+const MAX_SUBSCRIPTION_ID_LENGTH = 64;
+
+/**
+ * Read-only NIP-01 relay serving the event store over WebSocket
+ *
+ * `REQ` subscriptions get the stored events matching their filters, then `EOSE`, then every
+ * newly stored event that matches until they are closed. Published events are rejected.
+ */
+export class LocalRelay {
+  private wss: WebSocketServer;
+  private store: EventStore;
+
+  constructor(store: EventStore) {
+    this.store = store;
+    this.wss = new WebSocketServer({ noServer: true });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Whether an upgrade request is for the relay: `/relay` on the base domain
+   */
+  public static isRelayRequest(request: IncomingMessage, baseDomain: string): boolean {
+    const hostname = (request.headers.host || '').replace(/:\d+$/, '').toLowerCase();
+    const path = (request.url || '').split('?')[0];
+    return path === LOCAL_RELAY_PATH && hostname === baseDomain.toLowerCase();
+  }
+
+  /**
+   * Accept a WebSocket upgrade request, see `isRelayRequest`
+   */
+  public handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    this.wss.handleUpgrade(request, socket, head, (ws) => {
+      this.wss.emit('connection', ws, request);
+    });
+  }
+
+  public getConnectionCount(): number {
+    return this.wss.clients.size;
+  }
+
+  public close(): Promise<void> {
+    this.wss.clients.forEach((socket) => socket.terminate());
+    return new Promise((resolve) => this.wss.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const subscriptions = new Map<string, EventFilter[]>();
+    const send = (message: unknown[]) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    // Push newly stored events to the subscriptions they match
+    const stopListening = this.store.onEvent((event: NostrEvent) => {
+      for (const [id, filters] of subscriptions.entries()) {
+        if (matchFilters(filters, event)) {
+          send(['EVENT', id, event]);
+        }
+      }
+    });
+
+    socket.on('message', async (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        send(['NOTICE', 'error: could not parse message']);
+        return;
+      }
+
+      if (!Array.isArray(message) || typeof message[0] !== 'string') {
+        send(['NOTICE', 'error: expected a JSON array starting with a message type']);
+        return;
+      }
+
+      const [type, ...args] = message;
+      switch (type) {
+        case 'REQ':
+          await this.handleRequest(args, subscriptions, send);
+          break;
+        case 'CLOSE':
+          subscriptions.delete(args[0]);
+          break;
+        case 'EVENT':
+          send(['OK', args[0]?.id ?? '', false, 'blocked: this relay is read-only']);
+          break;
+        default:
+          send(['NOTICE', `error: unsupported message type ${type}`]);
+      }
+    });
+
+    socket.on('close', () => {
+      stopListening();
+      subscriptions.clear();
+    });
+
+    socket.on('error', (error) => {
+      logger.debug('Local relay connection error:', error);
+    });
+  }
+
+  private async handleRequest(
+    args: unknown[],
+    subscriptions: Map<string, EventFilter[]>,
+    send: (message: unknown[]) => void
+  ): Promise<void> {
+    const [id, ...filters] = args;
+
+    if (typeof id !== 'string' || id.length === 0 || id.length > MAX_SUBSCRIPTION_ID_LENGTH) {
+      send(['NOTICE', 'error: invalid subscription id']);
+      return;
+    }
+
+    if (
+      filters.length === 0 ||
+      filters.length > MAX_FILTERS ||
+      !filters.every((filter) => typeof filter === 'object' && filter !== null)
+    ) {
+      send(['CLOSED', id, 'invalid: expected 1 to 10 filter objects']);
+      return;
+    }
+
+    if (!subscriptions.has(id) && subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      send(['CLOSED', id, 'error: too many subscriptions']);
+      return;
+    }
+
+    // A REQ with an existing id replaces that subscription
+    subscriptions.set(id, filters as EventFilter[]);
+
+    try {
+      const events = await this.store.query(filters as EventFilter[]);
+      events.forEach((event) => send(['EVENT', id, event]));
+      send(['EOSE', id]);
+    } catch (error) {
+      subscriptions.delete(id);
+      logger.warn('Local relay query failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      send(['CLOSED', id, 'error: could not query the event store']);
+    }
+  }
+}
@@ -1,16 +1,59 @@
-import { nip19, SimplePool } from 'nostr-tools';
+import { EventTemplate, nip19, Relay, SimplePool, verifyEvent } from 'nostr-tools';
 import 'websocket-polyfill';
 import {
   BlossomServerListEvent,
+  CachedValue,
   NostrEvent,
+  NostrRelay,
   ParsedEvent,
   PubkeyResolution,
   RelayListEvent,
+  SiteManifest,
+  SiteManifestEvent,
   StaticFileEvent,
 } from '../types';
+import { BASE36_PUBKEY_LENGTH, decodeBase36Pubkey, encodeBase36Pubkey } from '../utils/base36';
 import { CacheService } from '../utils/cache';
 import { ConfigManager } from '../utils/config';
+import { EVENT_STORE_KINDS, EventFilter, EventStore } from '../utils/event-store';
 import { logger } from '../utils/logger';
+import { PinnedSiteStore } from '../utils/pinned-store';
+import { GatewaySigner, isAuthRelay } from '../utils/signer';
+import { SingleFlight, SingleFlightStats } from '../utils/single-flight';
+import { RelayScoreStats, RelayScoreTracker } from './relay-score';
+
+// Site identifiers must be a single DNS label
+const SITE_IDENTIFIER_REGEX = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Longest identifier that fits in one label after a base36 pubkey (`<pubkey><identifier>`)
+const MAX_LABEL_IDENTIFIER_LENGTH = 63 - BASE36_PUBKEY_LENGTH;
+
+const HEX_PUBKEY_REGEX = /^[0-9a-f]{64}$/;
+
+// Bounds for relay hints taken from nprofile subdomains
+const MAX_RELAY_HINTS = 5;
+const MAX_RELAY_HINT_PUBKEYS = 1000;
+
+// Largest number of paths merged into one `#d` filter
+const MAX_PATHS_PER_BATCH = 50;
+
+interface DecodedPubkeyLabel {
+  pubkey: string;
+  format: 'npub' | 'nprofile' | 'hex' | 'base36';
+  relays: string[];
+}
+
+interface PathWaiter {
+  resolve: (event: StaticFileEvent | null) => void;
+  reject: (error: unknown) => void;
+}
+
+// Path lookups for one author waiting to be sent as a single subscription
+interface PathBatch {
+  userRelays: NostrRelay[];
+  waiters: Map<string, PathWaiter[]>;
+  timer?: NodeJS.Timeout;
+}
 
 interface RelayConnection {
   url: string;
@@ -23,13 +66,38 @@ export class NostrHelper {
   private pool: SimplePool;
   private config: ConfigManager;
   private connections: Map<string, RelayConnection> = new Map();
+  private relayHints: Map<string, string[]> = new Map();
+  private relayScores: RelayScoreTracker;
+  // Answers NIP-42 AUTH challenges of the relays listed in `authRelays`
+  private signer: GatewaySigner | null;
+  // Verified events are kept here and looked up before querying relays
+  private eventStore: EventStore | null;
+  // Durable copy of the pinned sites, which answers even when no relay does
+  private pinnedStore: PinnedSiteStore | null;
+  private authStats = { attempts: 0, failures: 0 };
+  // Background refreshes of stale cache entries, one per cache key
+  private revalidations: Map<string, Promise<void>> = new Map();
+  // Concurrent cache misses share a single relay query
+  private relayListFlights = new SingleFlight();
+  private serverListFlights = new SingleFlight();
+  private mappingFlights = new SingleFlight();
+  private pathBatches: Map<string, PathBatch> = new Map();
+  private pathBatchStats = { batches: 0, paths: 0 };
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor() {
+  constructor(
+    signer: GatewaySigner | null = null,
+    eventStore: EventStore | null = null,
+    pinnedStore: PinnedSiteStore | null = null
+  ) {
     this.pool = new SimplePool();
     this.config = ConfigManager.getInstance();
+    this.signer = signer;
+    this.eventStore = eventStore;
+    this.pinnedStore = pinnedStore;
 
     const configData = this.config.getConfig();
+    this.relayScores = new RelayScoreTracker(configData.pinnedRelays);
 
     // Start cleanup interval to remove stale connections
     this.cleanupInterval = setInterval(() => {
@@ -120,30 +188,18 @@ export class NostrHelper {
 
   /**
    * Get active connections for the specified relays, establishing new ones if needed
-   * Prioritizes relays by reliability for faster responses
+   * Keeps the given relay order
    */
   private async getActiveRelays(relays: string[]): Promise<string[]> {
-    // Prioritize relays by reliability/speed (Primal, Damus, and Nostr.band are typically faster)
-    const priorityRelays = [
-      'wss://relay.primal.net',
-      'wss://relay.damus.io',
-      'wss://relay.nostr.band',
-    ];
-
-    const sortedRelays = [
-      ...relays.filter((relay) => priorityRelays.includes(relay)),
-      ...relays.filter((relay) => !priorityRelays.includes(relay)),
-    ];
-
-    const activeRelays: string[] = [];
+    const connected = new Set<string>();
 
     // Establish connections to all relays in parallel
-    const connectionPromises = sortedRelays.map(async (relay) => {
+    const connectionPromises = relays.map(async (relay) => {
       try {
         await this.ensureConnection(relay);
         const connection = this.connections.get(relay);
         if (connection?.isConnected) {
-          activeRelays.push(relay);
+          connected.add(relay);
         }
       } catch (error) {
         logger.warn(`Failed to connect to relay ${relay}:`, error);
@@ -151,11 +207,14 @@ export class NostrHelper {
     });
 
     await Promise.allSettled(connectionPromises);
-    return activeRelays;
+    return relays.filter((relay) => connected.has(relay));
   }
 
   /**
-   * Resolve npub subdomain to pubkey
+   * Resolve pubkey subdomain to pubkey
+   * The pubkey label may be an npub, nprofile, hex or base36 pubkey. Named sites are
+   * addressed as a single `<base36 pubkey><identifier>` label, so one wildcard certificate
+   * covers them; the older `<identifier>.<pubkey>` form is still accepted and redirected.
    */
   public resolvePubkey(hostname: string): PubkeyResolution {
     const config = this.config.getConfig();
@@ -164,21 +223,52 @@ export class NostrHelper {
     // Extract subdomain
     const subdomain = hostname.replace(`.${baseDomain}`, '');
 
-    // Check if it's an npub subdomain
-    if (subdomain.startsWith('npub1')) {
-      try {
-        const decoded = nip19.decode(subdomain);
-        if (decoded.type === 'npub') {
-          const pubkey = decoded.data as string;
-          return {
-            pubkey,
-            npub: subdomain,
-            subdomain,
-            isValid: true,
-          };
+    // Split off the site identifier for named sites
+    const labels = subdomain.split('.');
+    let keyLabel = labels[labels.length - 1];
+    let identifier = labels.length === 2 ? labels[0] : undefined;
+
+    // A base36 pubkey always starts with 0-6, so npub, nprofile and hex labels never match
+    const isSiteLabel =
+      labels.length === 1 &&
+      keyLabel.length > BASE36_PUBKEY_LENGTH &&
+      keyLabel.length <= BASE36_PUBKEY_LENGTH + MAX_LABEL_IDENTIFIER_LENGTH &&
+      /^[0-6]/.test(keyLabel);
+    if (isSiteLabel) {
+      identifier = keyLabel.substring(BASE36_PUBKEY_LENGTH);
+      keyLabel = keyLabel.substring(0, BASE36_PUBKEY_LENGTH);
+    }
+
+    if (
+      labels.length <= 2 &&
+      (identifier === undefined || SITE_IDENTIFIER_REGEX.test(identifier))
+    ) {
+      const decoded = this.decodePubkeyLabel(keyLabel);
+      if (decoded) {
+        const { pubkey, format, relays } = decoded;
+
+        if (relays.length > 0) {
+          this.addRelayHints(pubkey, relays);
         }
-      } catch (error) {
-        logger.error(`Invalid npub in subdomain: ${subdomain}`, { error });
+
+        const npub = format === 'npub' ? keyLabel : nip19.npubEncode(pubkey);
+        let canonicalLabel = keyLabel;
+        if (format !== config.canonicalPubkeyFormat) {
+          canonicalLabel =
+            config.canonicalPubkeyFormat === 'base36' ? encodeBase36Pubkey(pubkey) : npub;
+        }
+
+        return {
+          pubkey,
+          npub,
+          subdomain,
+          isValid: true,
+          identifier,
+          relays: relays.length > 0 ? relays : undefined,
+          canonicalSubdomain: identifier
+            ? NostrHelper.getSiteLabel(pubkey, identifier, canonicalLabel)
+            : canonicalLabel,
+        };
       }
     }
 
@@ -190,24 +280,117 @@ export class NostrHelper {
   }
 
   /**
-   * Get relay list for a pubkey (NIP-65)
+   * Subdomain of a named site: one `<base36 pubkey><identifier>` label when the identifier
+   * fits, `<identifier>.<pubkey label>` for longer identifiers
+   */
+  public static getSiteLabel(pubkey: string, identifier: string, pubkeyLabel: string): string {
+    if (identifier.length <= MAX_LABEL_IDENTIFIER_LENGTH) {
+      return `${encodeBase36Pubkey(pubkey)}${identifier}`;
+    }
+    return `${identifier}.${pubkeyLabel}`;
+  }
+
+  /**
+   * Decode a single subdomain label into a pubkey
+   */
+  private decodePubkeyLabel(label: string): DecodedPubkeyLabel | null {
+    if (label.startsWith('npub1') || label.startsWith('nprofile1')) {
+      try {
+        const decoded = nip19.decode(label);
+        if (decoded.type === 'npub') {
+          return { pubkey: decoded.data as string, format: 'npub', relays: [] };
+        }
+        if (decoded.type === 'nprofile') {
+          const profile = decoded.data as nip19.ProfilePointer;
+          const relays = (profile.relays || [])
+            .filter((relay) => relay.startsWith('wss://') || relay.startsWith('ws://'))
+            .slice(0, MAX_RELAY_HINTS);
+          return { pubkey: profile.pubkey, format: 'nprofile', relays };
+        }
+      } catch (error) {
+        logger.error(`Invalid pubkey in subdomain: ${label}`, { error });
+      }
+      return null;
+    }
+
+    if (HEX_PUBKEY_REGEX.test(label)) {
+      return { pubkey: label, format: 'hex', relays: [] };
+    }
+
+    const pubkey = decodeBase36Pubkey(label);
+    return pubkey ? { pubkey, format: 'base36', relays: [] } : null;
+  }
+
+  /**
+   * Remember relay hints for a pubkey so relay list discovery can use them
    */
-  public async getRelayList(pubkey: string): Promise<string[]> {
+  private addRelayHints(pubkey: string, relays: string[]): void {
+    this.relayHints.delete(pubkey);
+    this.relayHints.set(pubkey, relays);
+
+    // Evict the oldest entries once the map is full
+    if (this.relayHints.size > MAX_RELAY_HINT_PUBKEYS) {
+      const oldest = this.relayHints.keys().next().value;
+      if (oldest) {
+        this.relayHints.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Get relay list for a pubkey (NIP-65), with read and write markers
+   * Falls back to the default relays (and relay hints) as read/write relays
+   */
+  public async getRelayList(pubkey: string): Promise<NostrRelay[]> {
     // Check cache first
-    const cached = await CacheService.getRelaysForPubkey(pubkey);
+    const cached = await CacheService.getRelaysEntry(pubkey);
     if (cached) {
       logger.debug(
-        `🎯 Relay list cache HIT for pubkey: ${pubkey.substring(0, 8)}... (${cached.length} relays)`
+        `🎯 Relay list cache HIT for pubkey: ${pubkey.substring(0, 8)}... (${
+          cached.value.length
+        } relays)`
       );
-      return cached;
+      if (cached.stale) {
+        this.revalidate(`relays:${pubkey}`, () => this.fetchRelayList(pubkey, cached));
+      }
+      return cached.value;
     }
 
     logger.debug(
       `💔 Relay list cache MISS for pubkey: ${pubkey.substring(0, 8)}... - querying Nostr`
     );
 
+    return this.relayListFlights.run(pubkey, async () => {
+      // A stored relay list answers right away, the relays are asked in the background
+      const stored = await this.getStoredEvent({ authors: [pubkey], kinds: [10002] });
+      const relays = stored ? NostrHelper.parseRelayList(stored) : [];
+      if (stored && relays.length > 0) {
+        const expiration = NostrHelper.getExpiration(stored);
+        await CacheService.setRelaysForPubkey(pubkey, relays, expiration, stored);
+        this.revalidate(`relays:${pubkey}`, () =>
+          this.fetchRelayList(pubkey, { value: relays, stale: true, expiration, source: stored })
+        );
+        return relays;
+      }
+
+      return this.fetchRelayList(pubkey);
+    });
+  }
+
+  /**
+   * Fetch a relay list from the relays and cache it
+   * When refreshing a stale entry, the `previous` list is kept if no relay list turns up.
+   */
+  private async fetchRelayList(
+    pubkey: string,
+    previous?: CachedValue<NostrRelay[]>
+  ): Promise<NostrRelay[]> {
     const config = this.config.getConfig();
-    const relays = config.defaultRelays;
+
+    // Relay hints from nprofile subdomains are queried alongside the default relays
+    const hints = this.relayHints.get(pubkey) || [];
+    const relays = [...new Set([...hints, ...config.defaultRelays])];
+    const fallback = relays.map((url) => ({ url, read: true, write: true }));
 
     try {
       logger.debug(`Fetching relay list for pubkey: ${pubkey.substring(0, 8)}...`);
@@ -222,41 +405,82 @@ export class NostrHelper {
 
       if (events.length === 0) {
         logger.debug(
-          `No relay list found for pubkey: ${pubkey.substring(0, 8)}..., using defaults`
+          `No relay list found for pubkey: ${pubkey.substring(0, 8)}..., using ${
+            previous ? 'cached' : 'default'
+          } relays`
         );
-        await CacheService.setRelaysForPubkey(pubkey, relays);
-        return relays;
+        if (previous) {
+          await CacheService.setRelaysForPubkey(
+            pubkey,
+            previous.value,
+            previous.expiration,
+            previous.source
+          );
+          return previous.value;
+        }
+        await CacheService.setRelaysForPubkey(pubkey, fallback);
+        return fallback;
       }
 
-      const event = events[0] as RelayListEvent;
-      const userRelays: string[] = [];
-
-      // Parse relay tags
-      for (const tag of event.tags) {
-        if (tag[0] === 'r' && tag[1]) {
-          const relayUrl = tag[1];
-          const relayType = tag[2]; // 'read', 'write', or undefined (both)
-
-          // Only include read relays or unspecified (both)
-          if (!relayType || relayType === 'read') {
-            userRelays.push(relayUrl);
-          }
-        }
+      // Relays behind on the author's updates never roll the cached list back
+      const latest = NostrHelper.selectLatestEvent(events) as RelayListEvent;
+      if (previous?.source && !NostrHelper.isNewer(latest, previous.source)) {
+        await CacheService.setRelaysForPubkey(
+          pubkey,
+          previous.value,
+          previous.expiration,
+          previous.source
+        );
+        return previous.value;
       }
 
-      const finalRelays = userRelays.length > 0 ? userRelays : relays;
-      await CacheService.setRelaysForPubkey(pubkey, finalRelays);
+      const userRelays = NostrHelper.parseRelayList(latest);
+      const finalRelays = userRelays.length > 0 ? userRelays : fallback;
+      await CacheService.setRelaysForPubkey(
+        pubkey,
+        finalRelays,
+        NostrHelper.getExpiration(latest),
+        latest
+      );
 
-      logger.logNostr('getRelayList', pubkey, true, { relayCount: finalRelays.length });
+      logger.logNostr('getRelayList', pubkey, true, {
+        relayCount: finalRelays.length,
+        writeRelays: finalRelays.filter((relay) => relay.write).length,
+      });
       return finalRelays;
     } catch (error) {
       logger.logNostr('getRelayList', pubkey, false, {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
-      // Return default relays on error
-      await CacheService.setRelaysForPubkey(pubkey, relays);
-      return relays;
+      // Keep the cached relays on a failed refresh, otherwise use the defaults
+      if (previous) {
+        return previous.value;
+      }
+      await CacheService.setRelaysForPubkey(pubkey, fallback);
+      return fallback;
+    }
+  }
+
+  /**
+   * Parse the `r` tags of a relay list event (kind 10002)
+   * Relays without a marker are both read and write relays
+   */
+  public static parseRelayList(event: NostrEvent): NostrRelay[] {
+    const relays = new Map<string, NostrRelay>();
+
+    for (const tag of event.tags) {
+      if (tag[0] !== 'r' || !tag[1]) {
+        continue;
+      }
+
+      const marker = tag[2]; // 'read', 'write', or undefined (both)
+      const relay = relays.get(tag[1]) || { url: tag[1], read: false, write: false };
+      relay.read = relay.read || !marker || marker === 'read';
+      relay.write = relay.write || !marker || marker === 'write';
+      relays.set(tag[1], relay);
     }
+
+    return Array.from(relays.values());
   }
 
   /**
@@ -264,20 +488,60 @@ export class NostrHelper {
    */
   public async getBlossomServers(pubkey: string): Promise<string[]> {
     // Check cache first
-    const cached = await CacheService.getBlossomServersForPubkey(pubkey);
+    const cached = await CacheService.getBlossomServersEntry(pubkey);
     if (cached) {
       logger.debug(
         `🎯 Blossom servers cache HIT for pubkey: ${pubkey.substring(0, 8)}... (${
-          cached.length
+          cached.value.length
         } servers)`
       );
-      return cached;
+      if (cached.stale) {
+        this.revalidate(`servers:${pubkey}`, () => this.fetchBlossomServers(pubkey, cached));
+      }
+      return cached.value;
     }
 
     logger.debug(
       `💔 Blossom servers cache MISS for pubkey: ${pubkey.substring(0, 8)}... - querying Nostr`
     );
 
+    return this.serverListFlights.run(pubkey, async () => {
+      // A stored server list answers right away, the relays are asked in the background
+      const stored = await this.getStoredEvent({ authors: [pubkey], kinds: [10063] });
+      const servers = stored ? NostrHelper.parseServerList(stored) : [];
+      if (stored && servers.length > 0) {
+        const expiration = NostrHelper.getExpiration(stored);
+        await CacheService.setBlossomServersForPubkey(pubkey, servers, expiration, stored);
+        this.revalidate(`servers:${pubkey}`, () =>
+          this.fetchBlossomServers(pubkey, {
+            value: servers,
+            stale: true,
+            expiration,
+            source: stored,
+          })
+        );
+        return servers;
+      }
+
+      return this.fetchBlossomServers(pubkey);
+    });
+  }
+
+  /**
+   * Parse the `server` tags of a Blossom server list event (kind 10063)
+   */
+  private static parseServerList(event: NostrEvent): string[] {
+    return event.tags.filter((tag) => tag[0] === 'server' && tag[1]).map((tag) => tag[1]);
+  }
+
+  /**
+   * Fetch a Blossom server list from the relays and cache it
+   * When refreshing a stale entry, the `previous` list is kept if no server list turns up.
+   */
+  private async fetchBlossomServers(
+    pubkey: string,
+    previous?: CachedValue<string[]>
+  ): Promise<string[]> {
     const userRelays = await this.getRelayList(pubkey);
 
     try {
@@ -289,31 +553,49 @@ export class NostrHelper {
         limit: 1,
       };
 
-      const events = await this.queryRelays(userRelays, filter, 10000);
+      const events = await this.queryOutboxRelays(userRelays, filter, 10000);
 
       if (events.length === 0) {
         logger.debug(
-          `No Blossom servers found for pubkey: ${pubkey.substring(0, 8)}..., using defaults`
+          `No Blossom servers found for pubkey: ${pubkey.substring(0, 8)}..., using ${
+            previous ? 'cached' : 'default'
+          } servers`
         );
+        if (previous) {
+          await CacheService.setBlossomServersForPubkey(
+            pubkey,
+            previous.value,
+            previous.expiration,
+            previous.source
+          );
+          return previous.value;
+        }
         const config = this.config.getConfig();
-        const defaultServers = config.defaultBlossomServers;
-        await CacheService.setBlossomServersForPubkey(pubkey, defaultServers);
-        return defaultServers;
+        await CacheService.setBlossomServersForPubkey(pubkey, config.defaultBlossomServers);
+        return config.defaultBlossomServers;
       }
 
-      const event = events[0] as BlossomServerListEvent;
-      const servers: string[] = [];
-
-      // Parse server tags
-      for (const tag of event.tags) {
-        if (tag[0] === 'server' && tag[1]) {
-          servers.push(tag[1]);
-        }
+      // Relays behind on the author's updates never roll the cached list back
+      const event = NostrHelper.selectLatestEvent(events) as BlossomServerListEvent;
+      if (previous?.source && !NostrHelper.isNewer(event, previous.source)) {
+        await CacheService.setBlossomServersForPubkey(
+          pubkey,
+          previous.value,
+          previous.expiration,
+          previous.source
+        );
+        return previous.value;
       }
+      const servers = NostrHelper.parseServerList(event);
 
       const config = this.config.getConfig();
       const finalServers = servers.length > 0 ? servers : config.defaultBlossomServers;
-      await CacheService.setBlossomServersForPubkey(pubkey, finalServers);
+      await CacheService.setBlossomServersForPubkey(
+        pubkey,
+        finalServers,
+        NostrHelper.getExpiration(event),
+        event
+      );
 
       logger.logNostr('getBlossomServers', pubkey, true, { serverCount: finalServers.length });
       return finalServers;
@@ -321,7 +603,10 @@ export class NostrHelper {
       logger.logNostr('getBlossomServers', pubkey, false, {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
-      // Return default servers on error
+      // Keep the cached servers on a failed refresh, otherwise use the defaults
+      if (previous) {
+        return previous.value;
+      }
       const config = this.config.getConfig();
       const defaultServers = config.defaultBlossomServers;
       await CacheService.setBlossomServersForPubkey(pubkey, defaultServers);
@@ -330,214 +615,1244 @@ export class NostrHelper {
   }
 
   /**
-   * Get static file mapping for a specific path (kind 34128)
+   * Get static file mapping for a specific path
+   * The site manifest (kind 15128, or 35128 for named sites) is consulted first,
+   * root sites then fall back to per-path kind 34128 events
    */
-  public async getStaticFileMapping(pubkey: string, path: string): Promise<string | null> {
+  public async getStaticFileMapping(
+    pubkey: string,
+    path: string,
+    identifier?: string
+  ): Promise<string | null> {
+    const site = this.describeSite(pubkey, identifier);
+    const negativeKey = CacheService.getMappingNegativeKey(pubkey, path, identifier);
+
+    // A manifest answers every path of the site after a single lookup
+    const manifest = await this.getSiteManifest(pubkey, identifier);
+    if (manifest && manifest.paths[path]) {
+      logger.debug(
+        `📜 Manifest HIT for ${path} from ${site} → ${manifest.paths[path].substring(0, 8)}...`
+      );
+      return manifest.paths[path];
+    }
+
+    // Named sites only exist as manifests, there are no per-path events to fall back to
+    if (identifier) {
+      if (path !== '/404.html') {
+        logger.debug(`No manifest entry for ${path}, trying /404.html fallback`);
+        return this.getStaticFileMapping(pubkey, '/404.html', identifier);
+      }
+
+      logger.debug(`No file mapping found for ${path} from ${site}`);
+      await CacheService.setNegativeCache(negativeKey);
+      return null;
+    }
+
     // Check cache first
-    const cached = await CacheService.getBlobForPath(pubkey, path);
+    const cached = await CacheService.getBlobForPathEntry(pubkey, path);
     if (cached) {
+      const sha256 = cached.value.sha256;
       logger.debug(
-        `🎯 File mapping cache HIT for ${path} from pubkey: ${pubkey.substring(
-          0,
-          8
-        )}... → ${cached.sha256.substring(0, 8)}...`
+        `🎯 File mapping cache HIT for ${path} from ${site} → ${sha256.substring(0, 8)}...`
       );
-      return cached.sha256;
+      if (cached.stale) {
+        this.revalidate(`path:${pubkey}${path}`, () =>
+          this.refreshStaticFileMapping(pubkey, path, cached.value)
+        );
+      }
+      return sha256;
     }
 
-    // Check negative cache
-    if (await CacheService.isNegativeCached(`mapping:${pubkey}:${path}`)) {
+    // A pinned site answers from its durable copy, even while its relays are failing
+    const pinned = await this.getPinnedMapping(pubkey, path);
+    if (pinned) {
       logger.debug(
-        `🚫 Negative cache HIT for ${path} from pubkey: ${pubkey.substring(
-          0,
-          8
-        )}... - returning null`
+        `📌 Pinned site HIT for ${path} from ${site} → ${pinned.sha256.substring(0, 8)}...`
       );
+      await CacheService.setBlobForPath(pubkey, path, pinned);
+      this.revalidate(`path:${pubkey}${path}`, () =>
+        this.refreshStaticFileMapping(pubkey, path, pinned)
+      );
+      return pinned.sha256;
+    }
+
+    // Check negative cache
+    if (await CacheService.isNegativeCached(negativeKey)) {
+      logger.debug(`🚫 Negative cache HIT for ${path} from ${site} - returning null`);
       return null;
     }
 
-    logger.debug(
-      `💔 File mapping cache MISS for ${path} from pubkey: ${pubkey.substring(
-        0,
-        8
-      )}... - querying Nostr`
-    );
+    // A stored event answers right away, the relays are asked in the background
+    const storedMapping = await this.getStoredMapping(pubkey, path);
+    if (storedMapping) {
+      logger.debug(
+        `🗄️ Event store HIT for ${path} from ${site} → ${storedMapping.sha256.substring(0, 8)}...`
+      );
+      await CacheService.setBlobForPath(pubkey, path, storedMapping);
+      this.revalidate(`path:${pubkey}${path}`, () =>
+        this.refreshStaticFileMapping(pubkey, path, storedMapping)
+      );
+      return storedMapping.sha256;
+    }
+
+    logger.debug(`💔 File mapping cache MISS for ${path} from ${site} - querying Nostr`);
 
     const userRelays = await this.getRelayList(pubkey);
-    const config = this.config.getConfig();
 
     try {
-      logger.debug(`Fetching file mapping for ${path} from pubkey: ${pubkey.substring(0, 8)}...`);
-
-      const filter = {
-        authors: [pubkey],
-        kinds: [34128],
-        '#d': [path],
-        limit: 1,
-      };
+      logger.debug(`Fetching file mapping for ${path} from ${site}`);
 
-      // Prepare relay sets for concurrent querying
-      const defaultRelays = config.defaultRelays.filter((relay) => !userRelays.includes(relay));
-      const allRelaysCombined = [...userRelays, ...defaultRelays];
+      const event = await this.fetchStaticFileEvent(userRelays, pubkey, path);
 
-      // Try user relays first with shorter timeout, then concurrent fallback
-      let events = await this.queryRelays(
-        userRelays,
-        filter,
-        Math.min(config.relayQueryTimeoutMs, 2000)
-      );
-
-      // If no events found, try both user relays + default relays concurrently with remaining time
-      if (events.length === 0 && allRelaysCombined.length > userRelays.length) {
-        logger.debug(`No mapping found on user relays, trying all relays concurrently for ${path}`);
-
-        // Use all relays with a slightly longer timeout for the comprehensive search
-        events = await this.queryRelays(allRelaysCombined, filter, config.relayQueryTimeoutMs);
-      }
-
-      if (events.length === 0) {
+      if (!event) {
         // Try fallback to /404.html if not found
         if (path !== '/404.html') {
           logger.debug(`No mapping found for ${path}, trying /404.html fallback`);
           return this.getStaticFileMapping(pubkey, '/404.html');
         }
 
-        logger.debug(`No file mapping found for ${path} from pubkey: ${pubkey.substring(0, 8)}...`);
-        await CacheService.setNegativeCache(`mapping:${pubkey}:${path}`);
+        logger.debug(`No file mapping found for ${path} from ${site}`);
+        await CacheService.setNegativeCache(negativeKey);
         return null;
       }
 
-      const event = events[0] as StaticFileEvent;
-      let sha256: string | null = null;
-
-      // Find the x tag containing the SHA256 hash
-      for (const tag of event.tags) {
-        if (tag[0] === 'x' && tag[1]) {
-          sha256 = tag[1];
-          break;
-        }
-      }
+      const parsedEvent = NostrHelper.parseStaticFileEvent(event, path);
 
-      if (!sha256) {
+      if (!parsedEvent) {
         logger.error(`Static file event missing SHA256 hash for path: ${path}`);
-        await CacheService.setNegativeCache(`mapping:${pubkey}:${path}`);
+        await CacheService.setNegativeCache(negativeKey);
         return null;
       }
 
-      // Create ParsedEvent for cache
-      const parsedEvent: ParsedEvent = {
-        pubkey: event.pubkey,
-        path: path,
-        sha256: sha256,
-        created_at: event.created_at,
-      };
-
       await CacheService.setBlobForPath(pubkey, path, parsedEvent);
       logger.logNostr('getStaticFileMapping', pubkey, true, {
         path,
-        sha256: sha256.substring(0, 8) + '...',
+        sha256: parsedEvent.sha256.substring(0, 8) + '...',
       });
-      return sha256;
+      return parsedEvent.sha256;
     } catch (error) {
       logger.logNostr('getStaticFileMapping', pubkey, false, {
         path,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
-      await CacheService.setNegativeCache(`mapping:${pubkey}:${path}`);
+      await CacheService.setNegativeCache(negativeKey);
       return null;
     }
   }
 
   /**
-   * Query multiple relays with timeout using persistent connections
-   * Optimized for fast responses - terminates early when events are found
+   * Refresh a stale path mapping, replacing it only with a newer event
+   * The cached mapping is kept (and its soft TTL restarted) when nothing newer is found.
    */
-  private async queryRelays(
-    relays: string[],
-    filter: any,
-    timeoutMs: number = 10000
-  ): Promise<NostrEvent[]> {
-    // Ensure connections are established
-    const activeRelays = await this.getActiveRelays(relays);
+  private async refreshStaticFileMapping(
+    pubkey: string,
+    path: string,
+    cached: ParsedEvent
+  ): Promise<void> {
+    const userRelays = await this.getRelayList(pubkey);
+    const event = await this.fetchStaticFileEvent(userRelays, pubkey, path);
+    const parsedEvent = event ? NostrHelper.parseStaticFileEvent(event, path) : null;
+
+    if (parsedEvent && parsedEvent.created_at > cached.created_at) {
+      const site = this.describeSite(pubkey);
+      const previous = cached.sha256.substring(0, 8);
+      logger.info(
+        `🔁 File mapping changed for ${path} from ${site}: ${previous}... → ` +
+          `${parsedEvent.sha256.substring(0, 8)}...`
+      );
+      await CacheService.setBlobForPath(pubkey, path, parsedEvent);
+      return;
+    }
 
-    if (activeRelays.length === 0) {
-      logger.warn('No active relay connections available for query', { relays });
-      return [];
+    // A deletion found by the lookup has already evicted the mapping
+    const deletedAt = await CacheService.getPathDeletion(pubkey, path);
+    if (deletedAt !== null && cached.created_at <= deletedAt) {
+      return;
     }
 
-    logger.debug(`Querying ${activeRelays.length}/${relays.length} active relays`, {
-      active: activeRelays,
-      total: relays.length,
-    });
+    logger.debug(`File mapping unchanged for ${path} from ${this.describeSite(pubkey)}`);
+    await CacheService.setBlobForPath(pubkey, path, cached);
+  }
 
-    return new Promise((resolve, reject) => {
-      const events: NostrEvent[] = [];
-      const timeout = setTimeout(() => {
-        resolve(events); // Return what we have so far
-      }, timeoutMs);
+  /**
+   * Fetch every static file event (kind 34128) of a pubkey with one query and cache the
+   * newest mapping of each path, so later path lookups are answered from the cache
+   */
+  public async fetchPathTable(pubkey: string, maxPaths: number): Promise<ParsedEvent[]> {
+    const userRelays = await this.getRelayList(pubkey);
+    const filter = {
+      authors: [pubkey],
+      kinds: [34128],
+      limit: maxPaths,
+    };
 
-      let completedRelays = 0;
-      let hasFoundEvents = false;
-      const totalRelays = activeRelays.length;
+    const events = (await this.queryOutboxRelays(userRelays, filter)) as StaticFileEvent[];
 
-      if (totalRelays === 0) {
-        clearTimeout(timeout);
-        resolve(events);
-        return;
+    const latest = new Map<string, StaticFileEvent>();
+    for (const event of events) {
+      const path = NostrHelper.getDTag(event);
+      if (path) {
+        const current = latest.get(path);
+        latest.set(path, current ? NostrHelper.selectLatestEvent([current, event])! : event);
       }
+    }
+    await this.removeDeletedEvents(userRelays, pubkey, latest);
 
-      try {
-        const sub = this.pool.subscribeMany(activeRelays, [filter], {
-          onevent(event) {
-            events.push(event);
-
-            // For file mapping queries (kind 34128), we typically only need one result
-            // Terminate early to improve response time
-            if (filter.kinds && filter.kinds.includes(34128) && events.length >= 1) {
-              if (!hasFoundEvents) {
-                hasFoundEvents = true;
-                // Give a small grace period for potentially better/newer results
-                setTimeout(() => {
-                  clearTimeout(timeout);
-                  sub.close();
-                  resolve(events);
-                }, 200); // 200ms grace period
-              }
-            }
-          },
-          oneose() {
-            completedRelays++;
-            if (completedRelays === totalRelays || hasFoundEvents) {
-              clearTimeout(timeout);
-              sub.close();
-              resolve(events);
-            }
-          },
-          onclose() {
-            completedRelays++;
-            if (completedRelays === totalRelays) {
-              clearTimeout(timeout);
-              resolve(events);
-            }
-          },
-        });
+    const mappings: ParsedEvent[] = [];
+    for (const [path, event] of latest.entries()) {
+      const mapping = NostrHelper.parseStaticFileEvent(event, path);
+      if (!mapping || mappings.length >= maxPaths) {
+        continue;
+      }
 
-        // Update last used time for all active relays
-        const now = Date.now();
-        activeRelays.forEach((relay) => {
-          const connection = this.connections.get(relay);
-          if (connection) {
-            connection.lastUsed = now;
-          }
-        });
-      } catch (error) {
-        logger.error('Error querying relays:', error);
-        clearTimeout(timeout);
-        resolve(events);
+      // Never replace a newer mapping, e.g. one stored by real-time invalidation
+      const cached = await CacheService.getBlobForPath(pubkey, path);
+      if (cached && cached.created_at >= mapping.created_at) {
+        mappings.push(cached);
+        continue;
+      }
+
+      await CacheService.setBlobForPath(pubkey, path, mapping);
+      mappings.push(mapping);
+    }
+
+    logger.debug(`Loaded ${mappings.length} path mappings for ${this.describeSite(pubkey)}`);
+    return mappings;
+  }
+
+  /**
+   * Load every site manifest of an author: the root site's (kind 15128) and those of its
+   * named sites (kind 35128)
+   * Deleted manifests are left out, the others are cached like `getSiteManifest` does.
+   */
+  public async fetchSiteManifests(pubkey: string): Promise<SiteManifest[]> {
+    const userRelays = await this.getRelayList(pubkey);
+    const filter = { authors: [pubkey], kinds: [15128, 35128] };
+    const events = (await this.queryOutboxRelays(userRelays, filter)) as SiteManifestEvent[];
+
+    // Identifier ('' for the root site) → newest manifest event
+    const latest = new Map<string, SiteManifestEvent>();
+    for (const event of events) {
+      const identifier = event.kind === 35128 ? NostrHelper.getDTag(event) : '';
+      if (identifier === undefined || (event.kind === 35128 && identifier === '')) {
+        continue;
+      }
+      const current = latest.get(identifier);
+      latest.set(identifier, current ? NostrHelper.selectLatestEvent([current, event])! : event);
+    }
+
+    const manifests: SiteManifest[] = [];
+    for (const [name, event] of latest.entries()) {
+      const identifier = name || undefined;
+      if (await this.isManifestDeleted(userRelays, event, identifier)) {
+        continue;
+      }
+
+      // Never replace a newer manifest, e.g. one stored by real-time invalidation
+      const manifest = NostrHelper.toSiteManifest(pubkey, identifier, event);
+      const cached = await CacheService.getSiteManifestEntry(pubkey, identifier);
+      if (cached && !NostrHelper.isNewer(manifest, cached.value)) {
+        manifests.push(cached.value);
+        continue;
+      }
+
+      await CacheService.setSiteManifest(pubkey, manifest, identifier);
+      manifests.push(manifest);
+    }
+
+    logger.debug(`Loaded ${manifests.length} site manifests for ${this.describeSite(pubkey)}`);
+    return manifests;
+  }
+
+  /**
+   * Query the newest static file event (kind 34128) for a path
+   */
+  private fetchStaticFileEvent(
+    userRelays: NostrRelay[],
+    pubkey: string,
+    path: string
+  ): Promise<StaticFileEvent | null> {
+    return this.mappingFlights.run(`path:${pubkey}${path}`, () =>
+      this.batchPathLookup(userRelays, pubkey, path)
+    );
+  }
+
+  /**
+   * Queue a path lookup, so lookups for the same author made within the batch window
+   * are sent as one subscription with a multi-value `#d` filter
+   */
+  private batchPathLookup(
+    userRelays: NostrRelay[],
+    pubkey: string,
+    path: string
+  ): Promise<StaticFileEvent | null> {
+    const windowMs = this.config.getConfig().pathBatchWindowMs;
+
+    return new Promise((resolve, reject) => {
+      let batch = this.pathBatches.get(pubkey);
+      if (!batch) {
+        batch = { userRelays, waiters: new Map() };
+        this.pathBatches.set(pubkey, batch);
+        if (windowMs > 0) {
+          batch.timer = setTimeout(() => this.flushPathBatch(pubkey), windowMs);
+        }
+      }
+
+      const waiters = batch.waiters.get(path) || [];
+      waiters.push({ resolve, reject });
+      batch.waiters.set(path, waiters);
+
+      if (windowMs === 0 || batch.waiters.size >= MAX_PATHS_PER_BATCH) {
+        this.flushPathBatch(pubkey);
       }
     });
   }
 
+  /**
+   * Send a batch of path lookups and hand each waiter the newest event for its path
+   */
+  private async flushPathBatch(pubkey: string): Promise<void> {
+    const batch = this.pathBatches.get(pubkey);
+    if (!batch) {
+      return;
+    }
+
+    this.pathBatches.delete(pubkey);
+    clearTimeout(batch.timer);
+
+    const paths = Array.from(batch.waiters.keys());
+    this.pathBatchStats.batches++;
+    this.pathBatchStats.paths += paths.length;
+
+    if (paths.length > 1) {
+      logger.debug(
+        `📦 Batching ${paths.length} path lookups for ${this.describeSite(pubkey)} into one REQ`
+      );
+    }
+
+    try {
+      // No limit: relays that keep older versions of an address could fill it and leave
+      // paths out, so every version is fetched and the newest one per path is picked here
+      const filter = {
+        authors: [pubkey],
+        kinds: [34128],
+        '#d': paths,
+      };
+
+      const events = (await this.queryOutboxRelays(
+        batch.userRelays,
+        filter
+      )) as StaticFileEvent[];
+
+      const latest = new Map<string, StaticFileEvent>();
+      for (const path of paths) {
+        const matching = events.filter((event) => NostrHelper.getDTag(event) === path);
+        const event = NostrHelper.selectLatestEvent(matching);
+        if (event) {
+          latest.set(path, event);
+        }
+      }
+      await this.removeDeletedEvents(batch.userRelays, pubkey, latest);
+
+      for (const [path, waiters] of batch.waiters.entries()) {
+        waiters.forEach((waiter) => waiter.resolve(latest.get(path) || null));
+      }
+    } catch (error) {
+      for (const waiters of batch.waiters.values()) {
+        waiters.forEach((waiter) => waiter.reject(error));
+      }
+    }
+  }
+
+  /**
+   * Turn a static file event into a path mapping, null if it has no `x` tag
+   */
+  private static parseStaticFileEvent(event: StaticFileEvent, path: string): ParsedEvent | null {
+    // Find the x tag containing the SHA256 hash
+    const sha256 = event.tags.find((tag) => tag[0] === 'x' && tag[1])?.[1];
+    if (!sha256) {
+      return null;
+    }
+
+    const mapping: ParsedEvent = {
+      pubkey: event.pubkey,
+      path,
+      sha256,
+      created_at: event.created_at,
+      id: event.id,
+    };
+    const expiration = NostrHelper.getExpiration(event);
+    if (expiration !== undefined) {
+      mapping.expiration = expiration;
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Drop the events of paths their author deleted (NIP-09) from a path → event map
+   *
+   * Kind 5 deletion requests referencing the events by id or by `a` coordinate are looked up
+   * on the author's write relays. Deletions are remembered in the cache, so a relay that
+   * ignores them can't bring a mapping back; an event re-published after a deletion is kept.
+   */
+  private async removeDeletedEvents(
+    userRelays: NostrRelay[],
+    pubkey: string,
+    latest: Map<string, StaticFileEvent>
+  ): Promise<void> {
+    if (latest.size === 0) {
+      return;
+    }
+
+    const deletions = await this.fetchDeletionRequests(
+      userRelays,
+      pubkey,
+      Array.from(latest.values())
+    );
+
+    const deletedPaths = new Map<string, number>();
+    const deletedIds = new Set<string>();
+    for (const deletion of deletions) {
+      if (deletion.kind !== 5 || deletion.pubkey !== pubkey) {
+        continue;
+      }
+
+      const request = NostrHelper.parseDeletionRequest(deletion);
+      for (const path of request.paths) {
+        deletedPaths.set(path, Math.max(deletedPaths.get(path) ?? 0, deletion.created_at));
+      }
+      request.eventIds.forEach((id) => deletedIds.add(id));
+    }
+
+    for (const [path, event] of latest.entries()) {
+      let deletedAt = Math.max(
+        deletedPaths.get(path) ?? 0,
+        (await CacheService.getPathDeletion(pubkey, path)) ?? 0
+      );
+      if (deletedIds.has(event.id)) {
+        deletedAt = Math.max(deletedAt, event.created_at);
+      }
+
+      if (deletedAt > 0 && event.created_at <= deletedAt) {
+        const site = this.describeSite(pubkey);
+        logger.debug(`🗑️ Ignoring deleted file mapping for ${path} from ${site}`);
+        await CacheService.setPathDeletion(pubkey, path, deletedAt);
+        await this.eventStore?.deleteAddress(pubkey, 34128, path, deletedAt).catch((error) => {
+          logger.warn(`Failed to remove deleted event for ${path} from the event store:`, error);
+        });
+        latest.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Query the author's write relays for deletion requests (kind 5) of site events,
+   * referencing them by id or by `a` coordinate, with one REQ holding both filters
+   */
+  private async fetchDeletionRequests(
+    userRelays: NostrRelay[],
+    pubkey: string,
+    events: NostrEvent[]
+  ): Promise<NostrEvent[]> {
+    const config = this.config.getConfig();
+    const writeRelays = userRelays.filter((relay) => relay.write).map((relay) => relay.url);
+    const relays = writeRelays.length > 0 ? writeRelays : config.defaultRelays;
+    const timeoutMs = Math.min(config.relayQueryTimeoutMs, 2000);
+
+    const coordinates = events.map(
+      (event) => `${event.kind}:${pubkey}:${NostrHelper.getDTag(event) ?? ''}`
+    );
+    const ids = events.map((event) => event.id);
+
+    return this.queryRelays(
+      relays,
+      [
+        { authors: [pubkey], kinds: [5], '#a': coordinates },
+        { authors: [pubkey], kinds: [5], '#e': ids },
+      ],
+      timeoutMs
+    );
+  }
+
+  /**
+   * What a deletion request (kind 5, NIP-09) deletes: paths and sites by the `a` coordinate
+   * of the author's own kind 34128 events and manifests (`''` for the root site's kind
+   * 15128 manifest, the identifier for kind 35128), and event ids
+   */
+  public static parseDeletionRequest(event: NostrEvent): {
+    paths: string[];
+    sites: string[];
+    eventIds: string[];
+  } {
+    const coordinates = (kind: number) => {
+      const prefix = `${kind}:${event.pubkey}:`;
+      return event.tags
+        .filter((tag) => tag[0] === 'a' && tag[1]?.startsWith(prefix))
+        .map((tag) => tag[1].substring(prefix.length));
+    };
+
+    const paths = coordinates(34128).filter((path) => path.length > 0);
+    const sites = [
+      ...coordinates(15128).map(() => ''),
+      ...coordinates(35128).filter((identifier) => identifier.length > 0),
+    ];
+    const eventIds = event.tags.filter((tag) => tag[0] === 'e' && tag[1]).map((tag) => tag[1]);
+
+    return { paths, sites, eventIds };
+  }
+
+  /**
+   * Refresh a stale cache entry in the background, at most one refresh per key at a time
+   */
+  private revalidate(key: string, refresh: () => Promise<unknown>): void {
+    if (this.revalidations.has(key)) {
+      return;
+    }
+
+    logger.debug(`♻️ Serving stale ${key.substring(0, 40)}..., refreshing in the background`);
+
+    const revalidation = refresh()
+      .then(() => undefined)
+      .catch((error) => {
+        logger.warn(`Background refresh failed for ${key.substring(0, 40)}...`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .finally(() => {
+        this.revalidations.delete(key);
+      });
+
+    this.revalidations.set(key, revalidation);
+  }
+
+  /**
+   * Get the full path table of a site from its manifest event
+   * Kind 15128 for the root site, kind 35128 keyed by `d` tag for named sites.
+   * Sites without a manifest are cached with an empty path table.
+   */
+  public async getSiteManifest(pubkey: string, identifier?: string): Promise<SiteManifest | null> {
+    const site = this.describeSite(pubkey, identifier);
+    const key = `manifest:${pubkey}:${identifier || ''}`;
+
+    // Check cache first
+    const cached = await CacheService.getSiteManifestEntry(pubkey, identifier);
+    if (cached) {
+      logger.debug(
+        `🎯 Manifest cache HIT for ${site} (${Object.keys(cached.value.paths).length} paths)`
+      );
+      if (cached.stale) {
+        this.revalidate(key, () => this.refreshSiteManifest(pubkey, identifier, cached.value));
+      }
+      return cached.value;
+    }
+
+    logger.debug(`💔 Manifest cache MISS for ${site} - querying Nostr`);
+
+    return this.mappingFlights.run(key, async () => {
+      // A pinned site answers from its durable copy, even while its relays are failing
+      const pinned = await this.getPinnedManifest(pubkey, identifier);
+      if (pinned) {
+        logger.debug(`📌 Pinned site HIT for the manifest of ${site}`);
+        await CacheService.setSiteManifest(pubkey, pinned, identifier);
+        this.revalidate(key, () => this.refreshSiteManifest(pubkey, identifier, pinned));
+        return pinned;
+      }
+
+      // A stored manifest answers right away, the relays are asked in the background
+      const stored = await this.getStoredManifest(pubkey, identifier);
+      if (stored) {
+        logger.debug(`🗄️ Event store HIT for the manifest of ${site}`);
+        await CacheService.setSiteManifest(pubkey, stored, identifier);
+        this.revalidate(key, () => this.refreshSiteManifest(pubkey, identifier, stored));
+        return stored;
+      }
+
+      return this.fetchSiteManifest(pubkey, identifier);
+    });
+  }
+
+  /**
+   * Fetch a site manifest from the relays and cache it
+   */
+  private async fetchSiteManifest(
+    pubkey: string,
+    identifier?: string
+  ): Promise<SiteManifest | null> {
+    const userRelays = await this.getRelayList(pubkey);
+
+    try {
+      const event = await this.fetchManifestEvent(userRelays, pubkey, identifier);
+      const manifest = NostrHelper.toSiteManifest(pubkey, identifier, event);
+
+      await CacheService.setSiteManifest(pubkey, manifest, identifier);
+      logger.logNostr('getSiteManifest', pubkey, true, {
+        identifier,
+        pathCount: Object.keys(manifest.paths).length,
+      });
+      return manifest;
+    } catch (error) {
+      logger.logNostr('getSiteManifest', pubkey, false, {
+        identifier,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Refresh a stale site manifest, replacing it only with a newer event
+   * The cached manifest is kept (and its soft TTL restarted) when nothing newer is found.
+   */
+  private async refreshSiteManifest(
+    pubkey: string,
+    identifier: string | undefined,
+    cached: SiteManifest
+  ): Promise<void> {
+    const userRelays = await this.getRelayList(pubkey);
+    const event = await this.fetchManifestEvent(userRelays, pubkey, identifier);
+
+    if (event && NostrHelper.isNewer(event, cached)) {
+      logger.info(`🔁 Manifest changed for ${this.describeSite(pubkey, identifier)}`);
+      const manifest = NostrHelper.toSiteManifest(pubkey, identifier, event);
+      await CacheService.setSiteManifest(pubkey, manifest, identifier);
+      return;
+    }
+
+    // A deletion found by the lookup has already evicted the manifest
+    const deletedAt = await CacheService.getSiteDeletion(pubkey, identifier);
+    if (deletedAt !== null && cached.created_at <= deletedAt) {
+      return;
+    }
+
+    logger.debug(`Manifest unchanged for ${this.describeSite(pubkey, identifier)}`);
+    await CacheService.setSiteManifest(pubkey, cached, identifier);
+  }
+
+  /**
+   * Query the newest manifest event of a site, null if there is none or it was deleted
+   */
+  private async fetchManifestEvent(
+    userRelays: NostrRelay[],
+    pubkey: string,
+    identifier?: string
+  ): Promise<SiteManifestEvent | null> {
+    const filter = identifier
+      ? {
+          authors: [pubkey],
+          kinds: [35128],
+          '#d': [identifier],
+          limit: 1,
+        }
+      : {
+          authors: [pubkey],
+          kinds: [15128],
+          limit: 1,
+        };
+
+    const events = await this.queryOutboxRelays(userRelays, filter);
+    const event = NostrHelper.selectLatestEvent(events) as SiteManifestEvent | null;
+
+    if (!event || (await this.isManifestDeleted(userRelays, event, identifier))) {
+      return null;
+    }
+    return event;
+  }
+
+  /**
+   * Manifest of a site from the event store, unless it was deleted since (NIP-09)
+   * A deleted manifest that is still stored is removed from it.
+   */
+  private async getStoredManifest(
+    pubkey: string,
+    identifier?: string
+  ): Promise<SiteManifest | null> {
+    const filter: EventFilter = identifier
+      ? { authors: [pubkey], kinds: [35128], '#d': [identifier] }
+      : { authors: [pubkey], kinds: [15128] };
+    const stored = await this.getStoredEvent(filter);
+    if (!stored) {
+      return null;
+    }
+
+    const deletedAt = await CacheService.getSiteDeletion(pubkey, identifier);
+    if (deletedAt === null || stored.created_at > deletedAt) {
+      return NostrHelper.toSiteManifest(pubkey, identifier, stored as SiteManifestEvent);
+    }
+
+    await this.eventStore
+      ?.deleteAddress(pubkey, stored.kind, identifier || '', deletedAt)
+      .catch((error) => {
+        logger.warn('Failed to remove a deleted manifest from the event store:', error);
+      });
+    return null;
+  }
+
+  /**
+   * Build the cached path table of a site, empty when it has no manifest event
+   */
+  public static toSiteManifest(
+    pubkey: string,
+    identifier: string | undefined,
+    event: SiteManifestEvent | null
+  ): SiteManifest {
+    if (!event) {
+      return { pubkey, identifier, paths: {}, created_at: 0 };
+    }
+
+    return {
+      pubkey,
+      identifier,
+      paths: NostrHelper.parseManifestPaths(event),
+      created_at: event.created_at,
+      id: event.id,
+      expiration: NostrHelper.getExpiration(event),
+    };
+  }
+
+  /**
+   * Check whether the author deleted a manifest event (NIP-09), by id or by `a` coordinate
+   * Deletions are remembered in the cache, like those of path mappings.
+   */
+  private async isManifestDeleted(
+    userRelays: NostrRelay[],
+    event: SiteManifestEvent,
+    identifier?: string
+  ): Promise<boolean> {
+    const pubkey = event.pubkey;
+    const deletions = await this.fetchDeletionRequests(userRelays, pubkey, [event]);
+
+    let deletedAt = (await CacheService.getSiteDeletion(pubkey, identifier)) ?? 0;
+    for (const deletion of deletions) {
+      if (deletion.kind !== 5 || deletion.pubkey !== pubkey) {
+        continue;
+      }
+
+      const request = NostrHelper.parseDeletionRequest(deletion);
+      if (request.sites.includes(identifier || '')) {
+        deletedAt = Math.max(deletedAt, deletion.created_at);
+      }
+      if (request.eventIds.includes(event.id)) {
+        deletedAt = Math.max(deletedAt, event.created_at);
+      }
+    }
+
+    if (deletedAt === 0 || event.created_at > deletedAt) {
+      return false;
+    }
+
+    logger.debug(`🗑️ Ignoring deleted manifest of ${this.describeSite(pubkey, identifier)}`);
+    await CacheService.setSiteDeletion(pubkey, identifier, deletedAt);
+    await this.eventStore
+      ?.deleteAddress(pubkey, event.kind, identifier || '', deletedAt)
+      .catch((error) => {
+        logger.warn('Failed to remove a deleted manifest from the event store:', error);
+      });
+    return true;
+  }
+
+  /**
+   * Extract the path → sha256 table from a manifest event's `path` tags
+   */
+  public static parseManifestPaths(event: NostrEvent): Record<string, string> {
+    const paths: Record<string, string> = {};
+
+    for (const tag of event.tags) {
+      if (tag[0] === 'path' && tag[1] && tag[2]) {
+        paths[tag[1]] = tag[2];
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Pick the newest event: highest `created_at`, ties broken by the lowest id (NIP-01)
+   */
+  public static selectLatestEvent<T extends NostrEvent>(events: T[]): T | null {
+    let latest: T | null = null;
+
+    for (const event of events) {
+      if (!latest || NostrHelper.isNewer(event, latest)) {
+        latest = event;
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * Check whether `a` replaces `b` under the same rule as `selectLatestEvent`
+   * A cached copy without an id only loses to a later `created_at`.
+   */
+  public static isNewer(
+    a: { created_at: number; id?: string },
+    b: { created_at: number; id?: string }
+  ): boolean {
+    if (a.created_at !== b.created_at) {
+      return a.created_at > b.created_at;
+    }
+    return a.id !== undefined && b.id !== undefined && a.id < b.id;
+  }
+
+  /**
+   * The NIP-40 `expiration` of an event (unix seconds), undefined if it has no valid one
+   */
+  public static getExpiration(event: NostrEvent): number | undefined {
+    const value = event.tags.find((tag) => tag[0] === 'expiration')?.[1];
+    const expiration = value !== undefined ? Number(value) : NaN;
+    return Number.isInteger(expiration) ? expiration : undefined;
+  }
+
+  /**
+   * Check whether an event has expired (NIP-40); expired events are never served or cached
+   */
+  public static isExpired(event: NostrEvent): boolean {
+    const expiration = NostrHelper.getExpiration(event);
+    return expiration !== undefined && expiration <= Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Check that an event is by a requested author, of a requested kind and, for
+   * addressable events, has a requested `d` tag
+   */
+  private static matchesFilter(event: NostrEvent, filter: any): boolean {
+    if (filter.authors && !filter.authors.includes(event.pubkey)) {
+      return false;
+    }
+
+    if (filter.kinds && !filter.kinds.includes(event.kind)) {
+      return false;
+    }
+
+    if (filter['#d']) {
+      const dTag = NostrHelper.getDTag(event);
+      if (dTag === undefined || !filter['#d'].includes(dTag)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private static getDTag(event: NostrEvent): string | undefined {
+    return event.tags.find((tag) => tag[0] === 'd')?.[1];
+  }
+
+  /**
+   * Query for an author's own events following the outbox model (NIP-65)
+   *
+   * The author's write relays are asked first, then their read relays, then every relay
+   * including the defaults. Each tier is only queried when the previous one found nothing;
+   * for a filter with several `#d` values, the next tier is asked for the unanswered ones.
+   */
+  private async queryOutboxRelays(
+    userRelays: NostrRelay[],
+    filter: any,
+    timeoutMs?: number
+  ): Promise<NostrEvent[]> {
+    const config = this.config.getConfig();
+    const fullTimeoutMs = timeoutMs ?? config.relayQueryTimeoutMs;
+    const tierTimeoutMs = Math.min(fullTimeoutMs, 2000);
+
+    const writeRelays = userRelays.filter((relay) => relay.write).map((relay) => relay.url);
+    const readRelays = userRelays
+      .filter((relay) => relay.read && !relay.write)
+      .map((relay) => relay.url);
+    const defaultRelays = config.defaultRelays.filter(
+      (relay) => !writeRelays.includes(relay) && !readRelays.includes(relay)
+    );
+
+    const tiers = [
+      { name: 'write', relays: writeRelays, timeoutMs: tierTimeoutMs },
+      { name: 'read', relays: readRelays, timeoutMs: tierTimeoutMs },
+      {
+        name: 'all',
+        relays: defaultRelays.length > 0 ? [...writeRelays, ...readRelays, ...defaultRelays] : [],
+        timeoutMs: fullTimeoutMs,
+      },
+    ].filter((tier) => tier.relays.length > 0);
+
+    const found: NostrEvent[] = [];
+    let pending = filter;
+
+    for (const [index, tier] of tiers.entries()) {
+      if (index > 0) {
+        logger.debug(`No events found on previous relays, trying ${tier.name} relays`, {
+          filter: pending,
+        });
+      }
+
+      const events = await this.queryRelays(tier.relays, pending, tier.timeoutMs);
+      found.push(...events);
+      if (events.length === 0) {
+        continue;
+      }
+
+      if (!pending['#d']) {
+        return found;
+      }
+
+      const answered = new Set(events.map((event) => NostrHelper.getDTag(event)));
+      const unanswered = pending['#d'].filter((d: string) => !answered.has(d));
+      if (unanswered.length === 0) {
+        return found;
+      }
+      pending = { ...pending, '#d': unanswered };
+    }
+
+    return found;
+  }
+
+  /**
+   * Newest event matching a filter in the event store, null without a store or on errors
+   */
+  private async getStoredEvent(filter: EventFilter): Promise<NostrEvent | null> {
+    if (!this.eventStore) {
+      return null;
+    }
+
+    try {
+      return NostrHelper.selectLatestEvent(await this.eventStore.query([filter]));
+    } catch (error) {
+      logger.warn('Event store query failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Mapping of a path from the event store, unless it was deleted since (NIP-09)
+   * A deleted event that is still stored, e.g. because the deletion arrived while the store
+   * was unavailable, is removed from it.
+   */
+  private async getStoredMapping(pubkey: string, path: string): Promise<ParsedEvent | null> {
+    const stored = await this.getStoredEvent({ authors: [pubkey], kinds: [34128], '#d': [path] });
+    const mapping = stored
+      ? NostrHelper.parseStaticFileEvent(stored as StaticFileEvent, path)
+      : null;
+    if (!mapping) {
+      return null;
+    }
+
+    const deletedAt = await CacheService.getPathDeletion(pubkey, path);
+    if (deletedAt === null || mapping.created_at > deletedAt) {
+      return mapping;
+    }
+
+    logger.debug(`🗑️ Removing deleted file mapping for ${path} from the event store`);
+    await this.eventStore?.deleteAddress(pubkey, 34128, path, deletedAt).catch((error) => {
+      logger.warn(`Failed to remove deleted event for ${path} from the event store:`, error);
+    });
+    return null;
+  }
+
+  /**
+   * Mapping of a path of a pinned site, unless it was deleted since (NIP-09)
+   * A deletion only the cache knows about is written to the pinned store, which outlives it.
+   */
+  private async getPinnedMapping(pubkey: string, path: string): Promise<ParsedEvent | null> {
+    if (!this.pinnedStore?.isPinned(pubkey)) {
+      return null;
+    }
+
+    const mapping = await this.pinnedStore.getMapping(pubkey, path);
+    const deletedAt = mapping ? await CacheService.getPathDeletion(pubkey, path) : null;
+    if (!mapping || deletedAt === null || mapping.created_at > deletedAt) {
+      return mapping;
+    }
+
+    await this.pinnedStore.deletePath(pubkey, path, deletedAt).catch((error) => {
+      logger.warn(`Failed to remove deleted path ${path} from the pinned site store:`, error);
+    });
+    return null;
+  }
+
+  /**
+   * Manifest of a pinned site, unless it was deleted since (NIP-09)
+   * A deletion only the cache knows about is written to the pinned store, which outlives it.
+   */
+  private async getPinnedManifest(
+    pubkey: string,
+    identifier?: string
+  ): Promise<SiteManifest | null> {
+    if (!this.pinnedStore?.isPinned(pubkey)) {
+      return null;
+    }
+
+    const manifest = await this.pinnedStore.getManifest(pubkey, identifier);
+    const deletedAt = manifest ? await CacheService.getSiteDeletion(pubkey, identifier) : null;
+    if (!manifest || deletedAt === null || manifest.created_at > deletedAt) {
+      return manifest;
+    }
+
+    await this.pinnedStore.deleteSite(pubkey, identifier, deletedAt).catch((error) => {
+      logger.warn('Failed to remove a deleted manifest from the pinned site store:', error);
+    });
+    return null;
+  }
+
+  /**
+   * Keep a verified event in the event store, without waiting for the write
+   */
+  private storeEvent(event: NostrEvent): void {
+    if (!this.eventStore || !EVENT_STORE_KINDS.includes(event.kind)) {
+      return;
+    }
+
+    this.eventStore.save(event).catch((error) => {
+      logger.warn(`Failed to store event ${event.id}:`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }
+
+  /**
+   * Short label for a site, used in log messages
+   */
+  private describeSite(pubkey: string, identifier?: string): string {
+    const label = `pubkey: ${pubkey.substring(0, 8)}...`;
+    return identifier ? `site "${identifier}" of ${label}` : label;
+  }
+
+  /**
+   * Query multiple relays with timeout using persistent connections
+   *
+   * Relays are queried in score order (pinned relays first), and only as many as the
+   * configured fan-out needs. The rest are queried with the remaining time when the
+   * selected relays come back empty. An array of filters is sent as one REQ.
+   */
+  private async queryRelays(
+    relays: string[],
+    filter: any,
+    timeoutMs: number = 10000
+  ): Promise<NostrEvent[]> {
+    const config = this.config.getConfig();
+    const startedAt = Date.now();
+
+    const { selected, remaining } = this.relayScores.selectFanOut(
+      [...new Set([...config.pinnedRelays, ...relays])],
+      config.relayFanOutTarget,
+      config.relayMaxFanOut
+    );
+
+    const events = await this.subscribeRelays(selected, filter, timeoutMs);
+    const timeLeftMs = timeoutMs - (Date.now() - startedAt);
+
+    if (events.length === 0 && remaining.length > 0 && timeLeftMs > 0) {
+      logger.debug(`Nothing found on ${selected.length} relays, widening to the remaining relays`, {
+        remaining,
+      });
+      return this.subscribeRelays(remaining, filter, timeLeftMs);
+    }
+
+    return events;
+  }
+
+  /**
+   * Subscribe to each relay separately so every relay's response can be measured
+   *
+   * Waits for every relay to answer (or the timeout), so a stale relay answering first
+   * can't hide a newer event. Events with a bad signature, matching none of the filters or
+   * expired (NIP-40) are dropped.
+   */
+  private async subscribeRelays(
+    relays: string[],
+    filter: any,
+    timeoutMs: number
+  ): Promise<NostrEvent[]> {
+    // Ensure connections are established
+    const activeRelays = await this.getActiveRelays(relays);
+
+    if (activeRelays.length === 0) {
+      logger.warn('No active relay connections available for query', { relays });
+      return [];
+    }
+
+    const filters: any[] = Array.isArray(filter) ? filter : [filter];
+
+    logger.debug(`Querying ${activeRelays.length}/${relays.length} active relays`, {
+      active: activeRelays,
+      total: relays.length,
+    });
+
+    return new Promise((resolve) => {
+      const events: NostrEvent[] = [];
+      const seenIds = new Set<string>();
+      const subscriptions: { close: () => void }[] = [];
+      // Relays that have neither sent EOSE nor closed the subscription
+      const pending = new Set(activeRelays);
+      const startedAt = Date.now();
+      let settled = false;
+
+      const finish = () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        subscriptions.forEach((subscription) => subscription.close());
+        resolve(events);
+      };
+
+      const timeout = setTimeout(() => {
+        pending.forEach((relay) => this.relayScores.recordTimeout(relay));
+        finish(); // Return what we have so far
+      }, timeoutMs);
+
+      const settleRelay = (relay: string) => {
+        pending.delete(relay);
+        if (pending.size === 0) {
+          finish();
+        }
+      };
+
+      const onEvent = (relay: string, event: NostrEvent, isFirst: boolean) => {
+        if (isFirst) {
+          this.relayScores.recordFirstEvent(relay, Date.now() - startedAt);
+        }
+
+        if (settled || seenIds.has(event.id)) {
+          return;
+        }
+        seenIds.add(event.id);
+
+        const matches = filters.some((candidate) => NostrHelper.matchesFilter(event, candidate));
+        if (!matches || !verifyEvent(event)) {
+          logger.warn(`Discarding invalid or unrequested event ${event.id} from ${relay}`);
+          return;
+        }
+        if (NostrHelper.isExpired(event)) {
+          logger.debug(`Discarding expired event ${event.id} from ${relay}`);
+          return;
+        }
+        events.push(event);
+        this.storeEvent(event);
+      };
+
+      activeRelays.forEach(async (relayUrl) => {
+        try {
+          const relay = await this.pool.ensureRelay(relayUrl, { connectionTimeout: timeoutMs });
+          if (settled) {
+            return;
+          }
+
+          let isFirst = true;
+          let authAttempted = false;
+
+          const subscribe = () => {
+            const subscription = relay.subscribe(filters, {
+              // Our own timeout decides when a relay took too long
+              eoseTimeout: timeoutMs + 1000,
+              onevent: (event) => {
+                onEvent(relayUrl, event, isFirst);
+                isFirst = false;
+              },
+              oneose: () => {
+                if (pending.has(relayUrl)) {
+                  this.relayScores.recordEose(relayUrl, Date.now() - startedAt);
+                  settleRelay(relayUrl);
+                }
+              },
+              onclose: (reason) => {
+                if (!pending.has(relayUrl) || settled) {
+                  return;
+                }
+
+                if (!reason.startsWith('auth-required:')) {
+                  logger.debug(`Relay ${relayUrl} closed the subscription: ${reason}`);
+                  this.relayScores.recordClose(relayUrl);
+                  settleRelay(relayUrl);
+                  return;
+                }
+
+                // Authenticate once, then send the query again on the authenticated connection
+                if (!authAttempted && this.canAuthenticate(relayUrl)) {
+                  authAttempted = true;
+                  this.authenticate(relayUrl, relay, timeoutMs)
+                    .then(() => {
+                      if (pending.has(relayUrl) && !settled) {
+                        subscribe();
+                      }
+                    })
+                    .catch((error) => {
+                      logger.warn(`Authentication to ${relayUrl} failed:`, {
+                        error: error instanceof Error ? error.message : 'Unknown error',
+                      });
+                      this.relayScores.recordError(relayUrl);
+                      settleRelay(relayUrl);
+                    });
+                  return;
+                }
+
+                // A relay we can't read from is not an answer
+                logger.debug(`Relay ${relayUrl} requires authentication: ${reason}`);
+                this.relayScores.recordError(relayUrl);
+                settleRelay(relayUrl);
+              },
+            });
+            subscriptions.push(subscription);
+          };
+
+          subscribe();
+        } catch (error) {
+          if (pending.has(relayUrl) && !settled) {
+            logger.debug(`Failed to query relay ${relayUrl}:`, error);
+            this.relayScores.recordError(relayUrl);
+            settleRelay(relayUrl);
+          }
+        }
+      });
+
+      // Update last used time for all active relays
+      const now = Date.now();
+      activeRelays.forEach((relay) => {
+        const connection = this.connections.get(relay);
+        if (connection) {
+          connection.lastUsed = now;
+        }
+      });
+    });
+  }
+
+  /**
+   * Whether AUTH challenges of a relay may be answered: a signer is configured and the relay
+   * is opted in through `authRelays`
+   */
+  private canAuthenticate(relayUrl: string): boolean {
+    return this.signer !== null && isAuthRelay(relayUrl, this.config.getConfig().authRelays);
+  }
+
+  /**
+   * Answer the relay's AUTH challenge (NIP-42) with an event signed by the gateway signer
+   */
+  private async authenticate(
+    relayUrl: string,
+    relay: Pick<Relay, 'auth'>,
+    timeoutMs: number
+  ): Promise<void> {
+    const signer = this.signer!;
+    this.authStats.attempts++;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      // A signer that never answers must not hold the query up past its timeout
+      await Promise.race([
+        relay.auth((template: EventTemplate) => signer.signEvent(template)),
+        new Promise((_resolve, reject) => {
+          timer = setTimeout(() => reject(new Error('auth timed out')), timeoutMs);
+        }),
+      ]);
+      logger.debug(`🔐 Authenticated to ${relayUrl}`);
+    } catch (error) {
+      this.authStats.failures++;
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Close connections to specific relays
    */
@@ -576,6 +1891,10 @@ export class NostrHelper {
   public getStats(): {
     activeConnections: number;
     connectedRelays: string[];
+    relayScores: Record<string, RelayScoreStats>;
+    coalescing: Record<'relayLists' | 'serverLists' | 'mappings', SingleFlightStats>;
+    pathBatches: { batches: number; paths: number };
+    auth: { enabled: boolean; attempts: number; failures: number };
   } {
     const connectedRelays: string[] = [];
     let activeConnections = 0;
@@ -590,6 +1909,14 @@ export class NostrHelper {
     return {
       activeConnections,
       connectedRelays,
+      relayScores: this.relayScores.getStats(),
+      coalescing: {
+        relayLists: this.relayListFlights.getStats(),
+        serverLists: this.serverListFlights.getStats(),
+        mappings: this.mappingFlights.getStats(),
+      },
+      pathBatches: { ...this.pathBatchStats },
+      auth: { enabled: this.signer !== null, ...this.authStats },
     };
   }
 }
@@ -0,0 +1,93 @@
+import { Response } from 'express';
+
+/**
+ * Site addressed by the first path segment in path routing mode
+ */
+export interface SitePath {
+  // First path segment, written like a subdomain (`npub1xxx` or `<base36 pubkey>blog`)
+  siteLabel: string;
+  // Prefix to put in front of root-relative site URLs (e.g. `/npub1xxx`)
+  basePath: string;
+  // Path within the site; empty when the request has no trailing slash (`/npub1xxx`)
+  path: string;
+}
+
+// Attributes that commonly carry root-relative URLs in static sites
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'poster', 'data'];
+
+/**
+ * Split a gateway request path (`/<site>/<path>`) into the site label and the site path
+ */
+export function parseSitePath(requestPath: string): SitePath | null {
+  const match = requestPath.match(/^\/([^/]+)(\/.*)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const siteLabel = match[1].toLowerCase();
+  return {
+    siteLabel,
+    basePath: `/${siteLabel}`,
+    path: match[2] || '',
+  };
+}
+
+/**
+ * Prefix a root-relative URL with the base path, leaving other URLs untouched
+ */
+export function prefixBasePath(url: string, basePath: string): string {
+  if (!url.startsWith('/') || url.startsWith('//')) {
+    return url;
+  }
+
+  if (url === basePath || url.startsWith(`${basePath}/`) || url.startsWith(`${basePath}?`)) {
+    return url;
+  }
+
+  return `${basePath}${url}`;
+}
+
+/**
+ * Rewrite root-relative URLs in HTML attributes and inline styles
+ *
+ * Root-relative links are rewritten rather than injecting a `<base>` element, because a
+ * `<base>` would also change how relative links resolve on pages below the site root.
+ */
+export function rewriteHtml(html: string, basePath: string): string {
+  const attributePattern = new RegExp(
+    `(\\s(?:${URL_ATTRIBUTES.join('|')})\\s*=\\s*)(["']?)(\\/[^"'\\s>]*)`,
+    'gi'
+  );
+
+  const rewritten = html.replace(
+    attributePattern,
+    (_match, prefix: string, quote: string, url: string) =>
+      `${prefix}${quote}${prefixBasePath(url, basePath)}`
+  );
+
+  return rewriteCss(rewritten, basePath);
+}
+
+/**
+ * Rewrite root-relative `url()` references in CSS
+ */
+export function rewriteCss(css: string, basePath: string): string {
+  return css.replace(
+    /url\(\s*(["']?)(\/[^"')\s]*)/gi,
+    (_match, quote: string, url: string) => `url(${quote}${prefixBasePath(url, basePath)}`
+  );
+}
+
+/**
+ * Prefix root-relative `Location` headers set on this response with the base path
+ */
+export function applyBasePathToLocation(res: Response, basePath: string): void {
+  const setHeader = res.setHeader.bind(res);
+
+  res.setHeader = (name: string, value: number | string | readonly string[]) => {
+    if (name.toLowerCase() === 'location' && typeof value === 'string') {
+      return setHeader(name, prefixBasePath(value, basePath));
+    }
+    return setHeader(name, value);
+  };
+}
@@ -0,0 +1,231 @@
+import { ParsedEvent, SiteManifest } from '../types';
+import { CacheService } from '../utils/cache';
+import { ConfigManager } from '../utils/config';
+import { logger } from '../utils/logger';
+import { PinnedSiteStore } from '../utils/pinned-store';
+import { BlossomHelper } from './blossom';
+import { NostrHelper } from './nostr';
+
+// Most paths loaded per pinned site
+const MAX_PINNED_PATHS = 5000;
+
+/**
+ * Keeps the durable copy of the pinned sites up to date
+ *
+ * Every `pinnedRefreshIntervalMs`, the path table and site manifests (root and named sites)
+ * of each pinned pubkey are loaded from its relays, and every blob they point to that isn't
+ * stored yet is downloaded straight to the store. Relays can answer with part of a site, so
+ * what they return is merged into the stored copy: a path or manifest only leaves it when it
+ * is deleted (NIP-09) or expires (NIP-40), and the blobs it points to stay until then.
+ */
+export class PinnedSiteService {
+  private config: ConfigManager;
+  private store: PinnedSiteStore;
+  private nostrHelper: NostrHelper;
+  private blossomHelper: BlossomHelper;
+  private timer?: NodeJS.Timeout;
+  private round: Promise<void> | null = null;
+
+  constructor(store: PinnedSiteStore, nostrHelper: NostrHelper, blossomHelper: BlossomHelper) {
+    this.config = ConfigManager.getInstance();
+    this.store = store;
+    this.nostrHelper = nostrHelper;
+    this.blossomHelper = blossomHelper;
+  }
+
+  /**
+   * Refresh now and then every `pinnedRefreshIntervalMs`
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.refreshAll();
+    this.timer = setInterval(
+      () => void this.refreshAll(),
+      this.config.getConfig().pinnedRefreshIntervalMs
+    );
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Refresh every pinned site, then drop blobs no pinned path points to anymore
+   * Joins the round already running.
+   */
+  public refreshAll(): Promise<void> {
+    if (!this.round) {
+      this.round = this.runRound().finally(() => {
+        this.round = null;
+      });
+    }
+    return this.round;
+  }
+
+  /**
+   * Refresh one pinned site, returns whether anything was found to merge into its copy
+   */
+  public async refresh(pubkey: string): Promise<boolean> {
+    const startedAt = Date.now();
+    const [mappings, manifests] = await Promise.all([
+      this.nostrHelper.fetchPathTable(pubkey, MAX_PINNED_PATHS),
+      this.nostrHelper.fetchSiteManifests(pubkey),
+    ]);
+
+    if (mappings.length === 0 && manifests.length === 0) {
+      logger.warn(`Nothing found for pinned site ${pubkey.substring(0, 8)}..., keeping copy`);
+      return false;
+    }
+
+    // Deletions seen in the cache are stored with the site, the store drops what they cover
+    const stored = await this.store.getSite(pubkey);
+    const deletedPaths = new Map<string, number>();
+    const deletedSites = new Map<string, number>();
+    await this.store.setSite(pubkey, {
+      paths: await this.mergePaths(pubkey, stored?.paths ?? [], mappings, deletedPaths),
+      manifests: await this.mergeManifests(
+        pubkey,
+        stored?.manifests ?? [],
+        manifests,
+        deletedSites
+      ),
+      deletedPaths: Object.fromEntries(deletedPaths),
+      deletedSites: Object.fromEntries(deletedSites),
+      refreshedAt: Date.now(),
+    });
+
+    const site = await this.store.getSite(pubkey);
+    const downloaded = await this.downloadBlobs(pubkey, PinnedSiteStore.getBlobs(site));
+
+    logger.logNostr('refreshPinnedSite', pubkey, true, {
+      paths: site?.paths.length ?? 0,
+      manifests: site?.manifests.length ?? 0,
+      downloadedBlobs: downloaded,
+      durationMs: Date.now() - startedAt,
+    });
+    return true;
+  }
+
+  private async runRound(): Promise<void> {
+    for (const pubkey of this.store.getPubkeys()) {
+      try {
+        await this.refresh(pubkey);
+      } catch (error) {
+        logger.logNostr('refreshPinnedSite', pubkey, false, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    try {
+      const removed = await this.store.removeUnused();
+      if (removed > 0) {
+        logger.info(`Removed ${removed} blobs no pinned site uses anymore`);
+      }
+    } catch (error) {
+      logger.warn('Failed to clean up the pinned site store:', error);
+    }
+  }
+
+  /**
+   * Newest mapping of every path, stored or fetched, leaving out deleted and expired ones
+   * Deletions found in the cache are added to `deleted`.
+   */
+  private async mergePaths(
+    pubkey: string,
+    stored: ParsedEvent[],
+    fetched: ParsedEvent[],
+    deleted: Map<string, number>
+  ): Promise<ParsedEvent[]> {
+    const merged = PinnedSiteService.merge(stored, fetched, (value) => value.path);
+    const paths: ParsedEvent[] = [];
+    for (const mapping of merged) {
+      const deletedAt = await CacheService.getPathDeletion(pubkey, mapping.path);
+      if (deletedAt !== null) {
+        deleted.set(mapping.path, deletedAt);
+      }
+      if (deletedAt === null || mapping.created_at > deletedAt) {
+        paths.push(mapping);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Newest manifest of every site, stored or fetched, leaving out deleted and expired ones
+   * Deletions found in the cache are added to `deleted`, keyed by identifier.
+   */
+  private async mergeManifests(
+    pubkey: string,
+    stored: SiteManifest[],
+    fetched: SiteManifest[],
+    deleted: Map<string, number>
+  ): Promise<SiteManifest[]> {
+    const merged = PinnedSiteService.merge(stored, fetched, (value) => value.identifier || '');
+    const manifests: SiteManifest[] = [];
+    for (const manifest of merged) {
+      const deletedAt = await CacheService.getSiteDeletion(pubkey, manifest.identifier);
+      if (deletedAt !== null) {
+        deleted.set(manifest.identifier || '', deletedAt);
+      }
+      if (deletedAt === null || manifest.created_at > deletedAt) {
+        manifests.push(manifest);
+      }
+    }
+    return manifests;
+  }
+
+  /**
+   * Newest of the stored and fetched values with the same key, unless it has expired
+   */
+  private static merge<T extends { created_at: number; id?: string; expiration?: number }>(
+    stored: T[],
+    fetched: T[],
+    key: (value: T) => string
+  ): T[] {
+    const merged = new Map<string, T>();
+    for (const value of [...stored, ...fetched]) {
+      const current = merged.get(key(value));
+      if (!current || NostrHelper.isNewer(value, current)) {
+        merged.set(key(value), value);
+      }
+    }
+
+    const now = Date.now();
+    return Array.from(merged.values()).filter(
+      (value) => value.expiration === undefined || value.expiration * 1000 > now
+    );
+  }
+
+  /**
+   * Download the blobs of a site that aren't stored yet, returns how many were stored
+   * Blobs go straight to the store, not through the file content cache. Blobs that fail
+   * are left out and tried again on the next refresh.
+   */
+  private async downloadBlobs(pubkey: string, blobs: Set<string>): Promise<number> {
+
+    const servers = await this.nostrHelper.getBlossomServers(pubkey);
+    let downloaded = 0;
+
+    for (const sha256 of blobs) {
+      if (await this.store.hasBlob(sha256)) {
+        continue;
+      }
+
+      const content = await this.blossomHelper.downloadBlob(sha256, servers);
+      if (content && (await this.store.saveBlob(sha256, content))) {
+        downloaded++;
+      } else {
+        logger.warn(
+          `Failed to pin blob ${sha256.substring(0, 8)}... of ${pubkey.substring(0, 8)}...`
+        );
+      }
+    }
+
+    return downloaded;
+  }
+}
@@ -0,0 +1,248 @@
+import { randomBytes } from 'crypto';
+import { Request, Response } from 'express';
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Inclusive byte range within a file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Requests with more ranges than this are served in full instead
+const MAX_RANGES = 20;
+
+/**
+ * Parse a `Range` header against a file size
+ *
+ * Returns the satisfiable ranges (sorted, overlapping ranges coalesced), `'unsatisfiable'`
+ * when none of them can be served (416), or null when the header should be ignored.
+ */
+export function parseRangeHeader(
+  header: string,
+  size: number
+): ByteRange[] | 'unsatisfiable' | null {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const specs = match[1].split(',').map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) {
+    return null;
+  }
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)-(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) {
+      return null;
+    }
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffixLength = parseInt(parts[2], 10);
+      if (suffixLength > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] === '' ? Infinity : parseInt(parts[2], 10);
+
+    if (end < start) {
+      return null;
+    }
+
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return 'unsatisfiable';
+  }
+
+  return coalesceRanges(ranges);
+}
+
+/**
+ * Check an `If-Range` precondition against the response ETag
+ *
+ * Only strong ETags are compared; date validators never match because blobs are
+ * content-addressed and served without `Last-Modified`.
+ */
+export function isIfRangeSatisfied(ifRange: string | undefined, etag: string): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  return ifRange.trim() === etag;
+}
+
+/**
+ * Format a `Content-Range` header value
+ */
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+/**
+ * Layout of a `multipart/byteranges` body
+ */
+interface MultipartLayout {
+  boundary: string;
+  // Content type of the file, repeated in every part
+  contentType: string;
+  size: number;
+}
+
+function partHeader(layout: MultipartLayout, range: ByteRange): string {
+  return (
+    `--${layout.boundary}\r\n` +
+    `Content-Type: ${layout.contentType}\r\n` +
+    `Content-Range: ${formatContentRange(range, layout.size)}\r\n\r\n`
+  );
+}
+
+function partsTrailer(layout: MultipartLayout): string {
+  return `--${layout.boundary}--\r\n`;
+}
+
+/**
+ * Pass-through stream that only lets the bytes of the given ranges through
+ *
+ * The ranges must be sorted and not overlap, as returned by `parseRangeHeader`. With a
+ * multipart layout every range is wrapped in a `multipart/byteranges` part. The whole input
+ * is still read, so a verifying stream upstream sees every byte, and the last piece of
+ * output is held back until the input ends: a blob that fails verification never reaches
+ * the client complete.
+ */
+export class RangeStream extends Transform {
+  private ranges: ByteRange[];
+  private multipart: MultipartLayout | null;
+  private offset = 0;
+  private index = 0;
+  private pending: Buffer | null = null;
+
+  constructor(ranges: ByteRange[], multipart: MultipartLayout | null = null) {
+    super();
+    this.ranges = ranges;
+    this.multipart = multipart;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const chunkStart = this.offset;
+    this.offset += chunk.length;
+
+    while (this.index < this.ranges.length) {
+      const range = this.ranges[this.index];
+      if (range.start >= this.offset) {
+        break;
+      }
+
+      if (this.multipart && range.start >= chunkStart) {
+        this.hold(Buffer.from(partHeader(this.multipart, range)));
+      }
+      this.hold(
+        chunk.subarray(Math.max(range.start - chunkStart, 0), range.end + 1 - chunkStart)
+      );
+
+      if (range.end >= this.offset) {
+        break;
+      }
+      if (this.multipart) {
+        this.hold(Buffer.from('\r\n'));
+      }
+      this.index++;
+    }
+
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.multipart) {
+      this.hold(Buffer.from(partsTrailer(this.multipart)));
+    }
+    callback(null, this.pending || undefined);
+  }
+
+  // Push the piece held back so far and hold back this one
+  private hold(piece: Buffer): void {
+    if (this.pending) {
+      this.push(this.pending);
+    }
+    this.pending = piece;
+  }
+}
+
+/**
+ * Answer the Range header of a request for a file that is streamed in full
+ *
+ * Sets the 206 status and headers and returns the `RangeStream` to pipe the file through,
+ * sets a 416 and returns `'unsatisfiable'` (the caller only ends the response), or returns
+ * null when the file is served in full: no Range, an If-Range mismatch or a header to ignore.
+ */
+export function prepareRangeResponse(
+  req: Request,
+  res: Response,
+  size: number,
+  contentType: string,
+  etag: string
+): RangeStream | 'unsatisfiable' | null {
+  const rangeHeader = req.get('Range');
+  if (!rangeHeader || !isIfRangeSatisfied(req.get('If-Range'), etag)) {
+    return null;
+  }
+
+  const ranges = parseRangeHeader(rangeHeader, size);
+  if (ranges === 'unsatisfiable') {
+    res.status(416).set({ 'Content-Range': `bytes */${size}`, 'Content-Length': '0' });
+    return 'unsatisfiable';
+  }
+
+  if (!ranges) {
+    return null;
+  }
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    res.status(206).set({
+      'Content-Range': formatContentRange(range, size),
+      'Content-Length': (range.end - range.start + 1).toString(),
+    });
+    return new RangeStream(ranges);
+  }
+
+  const layout = { boundary: randomBytes(12).toString('hex'), contentType, size };
+  const length = ranges.reduce(
+    (total, range) =>
+      // Part header, the range itself and the CRLF after it
+      total + Buffer.byteLength(partHeader(layout, range)) + (range.end - range.start + 1) + 2,
+    Buffer.byteLength(partsTrailer(layout))
+  );
+  res.status(206).set({
+    'Content-Type': `multipart/byteranges; boundary=${layout.boundary}`,
+    'Content-Length': length.toString(),
+  });
+  return new RangeStream(ranges, layout);
+}
+
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [{ ...sorted[0] }];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
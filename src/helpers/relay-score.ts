@@ -0,0 +1,209 @@
+export interface RelayScoreStats {
+  score: number;
+  queries: number;
+  eoseMs: number | null;
+  firstEventMs: number | null;
+  errorRate: number;
+  closeRate: number;
+  timeoutRate: number;
+}
+
+export interface RelayFanOut {
+  // Relays to query now, in query order
+  selected: string[];
+  // Relays left out, queried only when the selected ones come back empty
+  remaining: string[];
+}
+
+interface RelayMetrics {
+  queries: number;
+  // Exponentially weighted moving averages
+  eoseMs: number | null;
+  firstEventMs: number | null;
+  errorRate: number;
+  closeRate: number;
+  timeoutRate: number;
+}
+
+// Weight of the latest sample in the moving averages
+const EWMA_ALPHA = 0.2;
+
+// Latency assumed for relays without EOSE samples yet
+const UNKNOWN_LATENCY_MS = 500;
+
+/**
+ * Measured relay scoring for query ordering and fan-out
+ *
+ * Each query outcome updates a relay's time-to-EOSE, time-to-first-event, and error, close
+ * and timeout rates. The score is the chance that a relay answers, discounted by how long
+ * it takes to answer; relays the gateway hasn't queried yet get the benefit of the doubt.
+ */
+export class RelayScoreTracker {
+  private pinnedRelays: string[];
+  private relays: Map<string, RelayMetrics> = new Map();
+
+  constructor(pinnedRelays: string[] = []) {
+    this.pinnedRelays = pinnedRelays;
+  }
+
+  /**
+   * Record the time from sending a query to the relay's first event
+   */
+  public recordFirstEvent(relay: string, elapsedMs: number): void {
+    const metrics = this.getMetrics(relay);
+    metrics.firstEventMs = ewma(metrics.firstEventMs, elapsedMs);
+  }
+
+  /**
+   * Record a relay that answered a query with EOSE
+   */
+  public recordEose(relay: string, elapsedMs: number): void {
+    const metrics = this.recordOutcome(relay, { error: 0, close: 0, timeout: 0 });
+    metrics.eoseMs = ewma(metrics.eoseMs, elapsedMs);
+  }
+
+  /**
+   * Record a relay that could not be reached
+   */
+  public recordError(relay: string): void {
+    this.recordOutcome(relay, { error: 1, close: 0, timeout: 0 });
+  }
+
+  /**
+   * Record a relay that closed the subscription before EOSE
+   */
+  public recordClose(relay: string): void {
+    this.recordOutcome(relay, { error: 0, close: 1, timeout: 0 });
+  }
+
+  /**
+   * Record a relay that did not answer before the query timed out
+   */
+  public recordTimeout(relay: string): void {
+    this.recordOutcome(relay, { error: 0, close: 0, timeout: 1 });
+  }
+
+  /**
+   * Score between 0 and 1, higher is better
+   */
+  public getScore(relay: string): number {
+    const metrics = this.relays.get(relay);
+    const latencies = [metrics?.eoseMs, metrics?.firstEventMs].filter(
+      (value): value is number => typeof value === 'number'
+    );
+    const latency = latencies.length > 0 ? Math.min(...latencies) : UNKNOWN_LATENCY_MS;
+
+    return this.getReliability(relay) / (1 + latency / 1000);
+  }
+
+  /**
+   * Order relays for a query: pinned relays first, then by score
+   */
+  public order(relays: string[]): string[] {
+    const pinned = this.pinnedRelays.filter((relay) => relays.includes(relay));
+    const scores = new Map(relays.map((relay) => [relay, this.getScore(relay)]));
+
+    const scored = relays
+      .filter((relay) => !pinned.includes(relay))
+      .sort((a, b) => scores.get(b)! - scores.get(a)!);
+
+    return [...pinned, ...scored];
+  }
+
+  /**
+   * Pick the relays to query, adding relays in score order until the expected number of
+   * answering relays reaches `target` (pinned relays are always queried)
+   *
+   * A target of 0 queries every relay.
+   */
+  public selectFanOut(relays: string[], target: number, max: number): RelayFanOut {
+    const ordered = this.order(relays);
+    if (target <= 0) {
+      return { selected: ordered, remaining: [] };
+    }
+
+    const selected: string[] = [];
+    let expectedAnswers = 0;
+
+    for (const relay of ordered) {
+      const pinned = this.pinnedRelays.includes(relay);
+      if (!pinned && (expectedAnswers >= target || selected.length >= max)) {
+        continue;
+      }
+
+      selected.push(relay);
+      expectedAnswers += this.getReliability(relay);
+    }
+
+    return {
+      selected,
+      remaining: ordered.filter((relay) => !selected.includes(relay)),
+    };
+  }
+
+  /**
+   * Get the score and measurements of every relay queried so far
+   */
+  public getStats(): Record<string, RelayScoreStats> {
+    const stats: Record<string, RelayScoreStats> = {};
+
+    for (const [relay, metrics] of this.relays.entries()) {
+      stats[relay] = {
+        score: Math.round(this.getScore(relay) * 1000) / 1000,
+        queries: metrics.queries,
+        eoseMs: metrics.eoseMs === null ? null : Math.round(metrics.eoseMs),
+        firstEventMs: metrics.firstEventMs === null ? null : Math.round(metrics.firstEventMs),
+        errorRate: metrics.errorRate,
+        closeRate: metrics.closeRate,
+        timeoutRate: metrics.timeoutRate,
+      };
+    }
+
+    return stats;
+  }
+
+  /**
+   * Chance that a relay answers a query
+   */
+  private getReliability(relay: string): number {
+    const metrics = this.relays.get(relay);
+    if (!metrics) {
+      return 1;
+    }
+    return (1 - metrics.errorRate) * (1 - metrics.closeRate) * (1 - metrics.timeoutRate);
+  }
+
+  private recordOutcome(
+    relay: string,
+    outcome: { error: number; close: number; timeout: number }
+  ): RelayMetrics {
+    const metrics = this.getMetrics(relay);
+
+    metrics.queries++;
+    metrics.errorRate = ewma(metrics.errorRate, outcome.error);
+    metrics.closeRate = ewma(metrics.closeRate, outcome.close);
+    metrics.timeoutRate = ewma(metrics.timeoutRate, outcome.timeout);
+
+    return metrics;
+  }
+
+  private getMetrics(relay: string): RelayMetrics {
+    let metrics = this.relays.get(relay);
+    if (!metrics) {
+      metrics = {
+        queries: 0,
+        eoseMs: null,
+        firstEventMs: null,
+        errorRate: 0,
+        closeRate: 0,
+        timeoutRate: 0,
+      };
+      this.relays.set(relay, metrics);
+    }
+    return metrics;
+  }
+}
+
+function ewma(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + EWMA_ALPHA * (sample - previous);
+}
@@ -0,0 +1,125 @@
+import { ParsedEvent } from '../types';
+import { ConfigManager } from '../utils/config';
+import { logger } from '../utils/logger';
+import { BlossomHelper } from './blossom';
+import { NostrHelper } from './nostr';
+
+// Bound on the pubkeys remembered as prefetched
+const MAX_PREFETCHED_PUBKEYS = 1000;
+
+/**
+ * Loads the whole path table of a site on its first visit
+ *
+ * One `kinds:[34128], authors:[pubkey]` query fills the path mapping cache for every path,
+ * then file content is optionally downloaded into the cache until `sitePrefetchMaxBytes`
+ * have been fetched. A site is prefetched again once its cache entries may have expired
+ * (`cacheTime`).
+ */
+export class SitePrefetcher {
+  private config: ConfigManager;
+  private nostrHelper: NostrHelper;
+  private blossomHelper: BlossomHelper;
+  // When each pubkey was last prefetched, oldest first
+  private prefetched: Map<string, number> = new Map();
+
+  constructor(nostrHelper: NostrHelper, blossomHelper: BlossomHelper) {
+    this.config = ConfigManager.getInstance();
+    this.nostrHelper = nostrHelper;
+    this.blossomHelper = blossomHelper;
+  }
+
+  /**
+   * Prefetch a site unless it was prefetched recently
+   * Never rejects, so callers can leave it running in the background.
+   */
+  public async prefetch(pubkey: string): Promise<void> {
+    const config = this.config.getConfig();
+    if (!config.sitePrefetchEnabled) {
+      return;
+    }
+
+    const lastPrefetch = this.prefetched.get(pubkey);
+    if (lastPrefetch !== undefined && Date.now() - lastPrefetch < config.cacheTime * 1000) {
+      return;
+    }
+    this.remember(pubkey);
+
+    const startedAt = Date.now();
+
+    try {
+      const mappings = await this.nostrHelper.fetchPathTable(pubkey, config.sitePrefetchMaxPaths);
+      const warmed =
+        config.sitePrefetchMaxBytes > 0 && mappings.length > 0
+          ? await this.warmContent(pubkey, mappings)
+          : { files: 0, bytes: 0 };
+
+      logger.logNostr('prefetchSite', pubkey, true, {
+        paths: mappings.length,
+        warmedFiles: warmed.files,
+        warmedBytes: warmed.bytes,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      // Let the next visit try again
+      this.prefetched.delete(pubkey);
+      logger.logNostr('prefetchSite', pubkey, false, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Download file content into the cache until the byte budget is used up
+   * `/index.html` goes first, every blob is fetched once even if several paths share it.
+   */
+  private async warmContent(
+    pubkey: string,
+    mappings: ParsedEvent[]
+  ): Promise<{ files: number; bytes: number }> {
+    const config = this.config.getConfig();
+    const servers = await this.nostrHelper.getBlossomServers(pubkey);
+
+    const queue: ParsedEvent[] = [];
+    const seen = new Set<string>();
+    const ordered = [...mappings].sort(
+      (a, b) => Number(b.path === '/index.html') - Number(a.path === '/index.html')
+    );
+    for (const mapping of ordered) {
+      if (!seen.has(mapping.sha256)) {
+        seen.add(mapping.sha256);
+        queue.push(mapping);
+      }
+    }
+
+    const warmed = { files: 0, bytes: 0 };
+
+    const worker = async () => {
+      while (queue.length > 0 && warmed.bytes < config.sitePrefetchMaxBytes) {
+        const mapping = queue.shift()!;
+        const file = await this.blossomHelper.fetchFile(mapping.sha256, servers, mapping.path);
+        if (file) {
+          warmed.files++;
+          warmed.bytes += file.contentLength;
+        }
+      }
+    };
+
+    const workers = Math.min(config.sitePrefetchConcurrency, queue.length);
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return warmed;
+  }
+
+  private remember(pubkey: string): void {
+    this.prefetched.delete(pubkey);
+    this.prefetched.set(pubkey, Date.now());
+
+    // Evict the oldest entries once the map is full
+    if (this.prefetched.size > MAX_PREFETCHED_PUBKEYS) {
+      const oldest = this.prefetched.keys().next().value;
+      if (oldest) {
+        this.prefetched.delete(oldest);
+      }
+    }
+  }
+}
@@ -0,0 +1,515 @@
+import { matchFilters, verifyEvent } from 'nostr-tools';
+import { WebSocket } from 'ws';
+import { NostrEvent } from '../types';
+import { ConfigManager } from '../utils/config';
+import { EventStore } from '../utils/event-store';
+import { logger } from '../utils/logger';
+import { Negentropy, NegentropyItem } from '../utils/negentropy';
+import { decodePubkey } from '../utils/signer';
+import { CacheInvalidationService } from './cache-invalidation';
+import { NostrHelper } from './nostr';
+
+// Static file events, site manifests, relay lists, Blossom server lists and deletion requests
+const SYNC_KINDS = [34128, 15128, 35128, 10002, 10063, 5];
+// Ids fetched per REQ after a negentropy reconciliation
+const IDS_PER_REQUEST = 100;
+// `since` fallback: overlap with the previous sync, for clock skew between authors and us
+const SINCE_OVERLAP_SECONDS = 600;
+// Wait before asking a relay that refused negentropy again, doubled on every refusal
+const NEGENTROPY_RETRY_MS = 60 * 60 * 1000;
+const NEGENTROPY_MAX_RETRY_MS = 24 * 60 * 60 * 1000;
+
+type SyncFilter = { authors: string[]; kinds: number[]; ids?: string[]; since?: number };
+
+interface SyncState {
+  // Every event id received so far, with its created_at, as our side of the reconciliation
+  known: Map<string, number>;
+  // Newest created_at handed on per address (`kind:d`)
+  newest: Map<string, number>;
+  // Deletion requests received so far, by id
+  deletions: Map<string, NostrEvent>;
+  // Start of the last successful sync per relay (unix seconds)
+  lastSync: Map<string, number>;
+}
+
+interface NegentropyRefusal {
+  refusals: number;
+  retryAt: number;
+}
+
+/**
+ * Whether a relay message value has the shape of a Nostr event (the signature is checked apart)
+ */
+function isNostrEvent(value: unknown): value is NostrEvent {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.id === 'string' &&
+    typeof event.pubkey === 'string' &&
+    typeof event.created_at === 'number' &&
+    typeof event.kind === 'number' &&
+    typeof event.content === 'string' &&
+    typeof event.sig === 'string' &&
+    Array.isArray(event.tags) &&
+    event.tags.every(
+      (tag) => Array.isArray(tag) && tag.every((item) => typeof item === 'string')
+    )
+  );
+}
+
+/**
+ * One WebSocket connection to a relay, speaking just enough NIP-01 and NIP-77 for a sync
+ */
+class SyncConnection {
+  private socket: WebSocket;
+  private listeners: Set<(message: unknown[]) => void> = new Set();
+  private serial = 0;
+
+  private constructor(socket: WebSocket) {
+    this.socket = socket;
+    socket.on('message', (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (Array.isArray(message)) {
+        this.listeners.forEach((listener) => listener(message as unknown[]));
+      }
+    });
+  }
+
+  public static open(url: string, timeoutMs: number): Promise<SyncConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url, { handshakeTimeout: timeoutMs });
+      socket.once('open', () => resolve(new SyncConnection(socket)));
+      // Kept for the whole connection: an error after the handshake ends the connection at
+      // once, and the 'close' that follows fails the pending exchange
+      socket.on('error', (error) => {
+        logger.debug(`Sync connection to ${url} failed: ${error.message}`);
+        reject(error);
+        if (socket.readyState !== WebSocket.CONNECTING) {
+          socket.terminate();
+        }
+      });
+    });
+  }
+
+  /**
+   * Events matching the filters, verified; rejects if the relay doesn't send EOSE in time
+   */
+  public request(filters: SyncFilter[], timeoutMs: number): Promise<NostrEvent[]> {
+    const id = `sync-${++this.serial}`;
+    const events: NostrEvent[] = [];
+
+    return this.exchange(timeoutMs, ['REQ', id, ...filters], (message, done) => {
+      if (message[1] !== id) {
+        return;
+      }
+
+      if (message[0] === 'EVENT') {
+        const event = message[2];
+        if (isNostrEvent(event) && matchFilters(filters, event) && verifyEvent(event)) {
+          events.push(event);
+        }
+      } else if (message[0] === 'EOSE') {
+        this.send(['CLOSE', id]);
+        done(null, events);
+      } else if (message[0] === 'CLOSED') {
+        done(new Error(`subscription closed: ${message[2]}`));
+      }
+    });
+  }
+
+  /**
+   * Reconcile our events with the relay's (NIP-77) and return the ids only the relay has,
+   * null if the relay refuses the reconciliation (NEG-ERR, or a notice about NEG-OPEN);
+   * rejects if the relay ends the exchange any other way, e.g. by not answering
+   */
+  public async reconcile(
+    filter: SyncFilter,
+    items: NegentropyItem[],
+    timeoutMs: number
+  ): Promise<string[] | null> {
+    const id = `neg-${++this.serial}`;
+    const negentropy = new Negentropy(items);
+    const need: string[] = [];
+
+    return this.exchange<string[] | null>(
+      timeoutMs,
+      ['NEG-OPEN', id, filter, negentropy.initiate()],
+      (message, done, extend) => {
+        if (message[0] === 'NOTICE') {
+          // Relays without NIP-77 usually answer unknown messages with a notice naming them;
+          // other notices can be about anything
+          if (/NEG-OPEN|negentropy/i.test(String(message[1]))) {
+            logger.debug(`Negentropy refused: ${message[1]}`);
+            done(null, null);
+          }
+        } else if (message[1] !== id) {
+          return;
+        } else if (message[0] === 'NEG-ERR') {
+          logger.debug(`Negentropy refused: ${message[2]}`);
+          done(null, null);
+        } else if (message[0] === 'CLOSED') {
+          done(new Error(`negentropy closed: ${message[2]}`));
+        } else if (message[0] === 'NEG-MSG') {
+          const result = negentropy.reconcile(String(message[2]));
+          need.push(...result.need);
+          if (result.message === null) {
+            this.send(['NEG-CLOSE', id]);
+            done(null, need);
+          } else {
+            this.send(['NEG-MSG', id, result.message]);
+            extend();
+          }
+        }
+      }
+    );
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+
+  private send(message: unknown[]): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Send a message and feed the replies to `handle` until it calls `done`; `extend` restarts
+   * the timeout when a multi-message exchange makes progress
+   */
+  private exchange<T>(
+    timeoutMs: number,
+    message: unknown[],
+    handle: (
+      message: unknown[],
+      done: (error: Error | null, result?: T) => void,
+      extend: () => void
+    ) => void
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (this.socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('connection closed'));
+        return;
+      }
+
+      let timer: NodeJS.Timeout;
+
+      const done = (error: Error | null, result?: T) => {
+        clearTimeout(timer);
+        this.listeners.delete(listener);
+        this.socket.off('close', onClose);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result as T);
+        }
+      };
+      const extend = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => done(new Error('timed out')), timeoutMs);
+      };
+      const listener = (reply: unknown[]) => {
+        try {
+          handle(reply, done, extend);
+        } catch (error) {
+          done(error instanceof Error ? error : new Error(String(error)));
+        }
+      };
+      const onClose = () => done(new Error('connection closed'));
+
+      this.listeners.add(listener);
+      this.socket.once('close', onClose);
+      extend();
+      this.send(message);
+    });
+  }
+}
+
+/**
+ * Keeps the sites of the configured pubkeys (`syncPubkeys`) fully synced
+ *
+ * Every `syncIntervalMs`, the static file events, site manifests, relay list, Blossom server list
+ * and deletion requests of each pubkey are reconciled with its write relays using negentropy
+ * (NIP-77), so only events the gateway hasn't seen are downloaded. Relays that refuse NIP-77 are
+ * asked for the events created since their previous sync instead, and offered negentropy again
+ * after a backoff. The newest
+ * event of each address, then every new deletion request, is handed to the invalidation service,
+ * which updates the caches and the event store. Deletion requests are kept in the event store;
+ * when a relay hands back an event one of them deletes, the request is handed on again.
+ */
+export class SiteSyncService {
+  private config: ConfigManager;
+  private nostrHelper: NostrHelper;
+  private invalidation: CacheInvalidationService;
+  private eventStore: EventStore | null;
+  private states: Map<string, SyncState> = new Map();
+  // Relays that refused a negentropy reconciliation, until they are asked again
+  private negentropyRefusals: Map<string, NegentropyRefusal> = new Map();
+  private timer?: NodeJS.Timeout;
+  private round: Promise<void> | null = null;
+  private stats = { rounds: 0, negentropy: 0, fallback: 0, failures: 0, events: 0 };
+
+  constructor(
+    nostrHelper: NostrHelper,
+    invalidation: CacheInvalidationService,
+    eventStore: EventStore | null = null
+  ) {
+    this.config = ConfigManager.getInstance();
+    this.nostrHelper = nostrHelper;
+    this.invalidation = invalidation;
+    this.eventStore = eventStore;
+  }
+
+  /**
+   * Sync now and then every `syncIntervalMs`, if any pubkeys are configured
+   */
+  public start(): void {
+    const config = this.config.getConfig();
+    if (config.syncPubkeys.length === 0 || this.timer) {
+      return;
+    }
+
+    logger.info(`Site sync enabled for ${config.syncPubkeys.length} pubkeys`);
+    void this.syncAll();
+    this.timer = setInterval(() => void this.syncAll(), config.syncIntervalMs);
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Sync every configured pubkey, one at a time; joins the round already running
+   */
+  public syncAll(): Promise<void> {
+    if (!this.round) {
+      this.round = this.runRound().finally(() => {
+        this.round = null;
+      });
+    }
+    return this.round;
+  }
+
+  /**
+   * Sync one pubkey with its write relays, returns the number of events handed on
+   */
+  public async syncPubkey(pubkey: string): Promise<number> {
+    const state = await this.getState(pubkey);
+    const userRelays = await this.nostrHelper.getRelayList(pubkey);
+    const writeRelays = userRelays.filter((relay) => relay.write).map((relay) => relay.url);
+    const relays = writeRelays.length > 0 ? writeRelays : userRelays.map((relay) => relay.url);
+
+    const received: NostrEvent[] = [];
+    for (const relay of relays) {
+      try {
+        received.push(...(await this.syncRelay(relay, pubkey, state)));
+      } catch (error) {
+        this.stats.failures++;
+        logger.warn(`Site sync with ${relay} failed:`, {
+          pubkey: pubkey.substring(0, 8),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Hand on the newest event of each address, unless an equal or newer one was
+    const latest = new Map<string, NostrEvent>();
+    const deletions = new Map<string, NostrEvent>();
+    for (const event of received) {
+      state.known.set(event.id, event.created_at);
+      if (event.kind === 5) {
+        deletions.set(event.id, event);
+        state.deletions.set(event.id, event);
+        continue;
+      }
+      const address = SiteSyncService.getAddress(event);
+      const current = latest.get(address);
+      latest.set(address, current ? NostrHelper.selectLatestEvent([current, event])! : event);
+    }
+
+    const handedOn: NostrEvent[] = [];
+    for (const [address, event] of latest.entries()) {
+      if ((state.newest.get(address) ?? -1) >= event.created_at) {
+        continue;
+      }
+      state.newest.set(address, event.created_at);
+      await this.invalidation.handleEvent(event);
+      handedOn.push(event);
+    }
+
+    // Deletion requests go last, so they also remove events handed on in this sync; earlier
+    // ones go again when a relay that ignored them handed back an event they delete
+    let handed = handedOn.length;
+    for (const event of state.deletions.values()) {
+      if (
+        deletions.has(event.id) ||
+        handedOn.some((deleted) => SiteSyncService.deletes(event, deleted))
+      ) {
+        await this.invalidation.handleEvent(event);
+        handed++;
+      }
+    }
+
+    this.stats.events += handed;
+    return handed;
+  }
+
+  public getStats(): {
+    pubkeys: number;
+    rounds: number;
+    negentropy: number;
+    fallback: number;
+    failures: number;
+    events: number;
+  } {
+    return { pubkeys: this.config.getConfig().syncPubkeys.length, ...this.stats };
+  }
+
+  private async runRound(): Promise<void> {
+    const startedAt = Date.now();
+    let events = 0;
+
+    for (const value of this.config.getConfig().syncPubkeys) {
+      const pubkey = decodePubkey(value);
+      if (!pubkey) {
+        logger.warn(`Skipping invalid sync pubkey: ${value}`);
+        continue;
+      }
+
+      try {
+        events += await this.syncPubkey(pubkey);
+      } catch (error) {
+        this.stats.failures++;
+        logger.warn(`Site sync failed for ${pubkey.substring(0, 8)}...:`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.stats.rounds++;
+    logger.info(`🔄 Site sync round done: ${events} new events in ${Date.now() - startedAt}ms`);
+  }
+
+  /**
+   * Events of a pubkey on one relay that we haven't seen yet
+   */
+  private async syncRelay(
+    relayUrl: string,
+    pubkey: string,
+    state: SyncState
+  ): Promise<NostrEvent[]> {
+    const timeoutMs = this.config.getConfig().relayQueryTimeoutMs;
+    const filter = { authors: [pubkey], kinds: SYNC_KINDS };
+    const startedAt = Math.floor(Date.now() / 1000);
+
+    const connection = await SyncConnection.open(relayUrl, timeoutMs);
+    try {
+      let events: NostrEvent[] | null = null;
+
+      const refusal = this.negentropyRefusals.get(relayUrl);
+      if (!refusal || refusal.retryAt <= Date.now()) {
+        const items = Array.from(state.known.entries()).map(([id, created_at]) => ({
+          id,
+          created_at,
+        }));
+        let need: string[] | null | undefined;
+        try {
+          need = await connection.reconcile(filter, items, timeoutMs);
+        } catch (error) {
+          // Not a refusal: fall back for this sync only
+          logger.debug(`Negentropy sync with ${relayUrl} failed:`, {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+
+        if (need) {
+          this.negentropyRefusals.delete(relayUrl);
+          events = [];
+          for (let i = 0; i < need.length; i += IDS_PER_REQUEST) {
+            const ids = need.slice(i, i + IDS_PER_REQUEST);
+            events.push(...(await connection.request([{ ...filter, ids }], timeoutMs)));
+          }
+          this.stats.negentropy++;
+          logger.debug(`Negentropy sync with ${relayUrl}: ${need.length} missing events`);
+        } else if (need === null) {
+          const refusals = (refusal?.refusals ?? 0) + 1;
+          const retryMs = Math.min(
+            NEGENTROPY_RETRY_MS * 2 ** (refusals - 1),
+            NEGENTROPY_MAX_RETRY_MS
+          );
+          this.negentropyRefusals.set(relayUrl, { refusals, retryAt: Date.now() + retryMs });
+          logger.info(`${relayUrl} refused negentropy, syncing with since filters`);
+        }
+      }
+
+      if (!events) {
+        const lastSync = state.lastSync.get(relayUrl);
+        const since = lastSync !== undefined ? lastSync - SINCE_OVERLAP_SECONDS : undefined;
+        events = await connection.request(
+          [since !== undefined ? { ...filter, since } : filter],
+          timeoutMs
+        );
+        events = events.filter((event) => !state.known.has(event.id));
+        this.stats.fallback++;
+      }
+
+      state.lastSync.set(relayUrl, startedAt);
+      return events.filter((event) => !NostrHelper.isExpired(event));
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Sync state of a pubkey, seeded from the event store the first time
+   */
+  private async getState(pubkey: string): Promise<SyncState> {
+    let state = this.states.get(pubkey);
+    if (state) {
+      return state;
+    }
+
+    state = { known: new Map(), newest: new Map(), deletions: new Map(), lastSync: new Map() };
+    if (this.eventStore) {
+      const stored = await this.eventStore.query([{ authors: [pubkey], kinds: SYNC_KINDS }]);
+      for (const event of stored) {
+        state.known.set(event.id, event.created_at);
+        if (event.kind === 5) {
+          state.deletions.set(event.id, event);
+        } else {
+          state.newest.set(SiteSyncService.getAddress(event), event.created_at);
+        }
+      }
+    }
+
+    this.states.set(pubkey, state);
+    return state;
+  }
+
+  private static getAddress(event: NostrEvent): string {
+    const d = event.kind >= 30000 ? event.tags.find((tag) => tag[0] === 'd')?.[1] : '';
+    return `${event.kind}:${d ?? ''}`;
+  }
+
+  /**
+   * Whether a deletion request names an event, by id or by `a` coordinate (NIP-09)
+   */
+  private static deletes(deletion: NostrEvent, event: NostrEvent): boolean {
+    if (deletion.pubkey !== event.pubkey) {
+      return false;
+    }
+    // `kind:d` → `kind:pubkey:d`
+    const coordinate = SiteSyncService.getAddress(event).replace(':', `:${event.pubkey}:`);
+    return deletion.tags.some(
+      (tag) => (tag[0] === 'e' && tag[1] === event.id) || (tag[0] === 'a' && tag[1] === coordinate)
+    );
+  }
+}
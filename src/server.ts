@@ -1,21 +1,57 @@
 import cors from 'cors';
 import express, { NextFunction, Request, Response } from 'express';
 import helmet from 'helmet';
+import { pipeline } from 'stream/promises';
 import { BlossomHelper } from './helpers/blossom';
 import { CacheInvalidationService } from './helpers/cache-invalidation';
+import { DomainResolver } from './helpers/domain';
+import { LocalRelay } from './helpers/local-relay';
 import { NostrHelper } from './helpers/nostr';
+import {
+  applyBasePathToLocation,
+  parseSitePath,
+  rewriteCss,
+  rewriteHtml,
+} from './helpers/path-routing';
+import { prepareRangeResponse } from './helpers/range';
+import { PinnedSiteService } from './helpers/pinned-sites';
+import { SitePrefetcher } from './helpers/site-prefetch';
+import { SiteSyncService } from './helpers/site-sync';
 import { SimpleSSRHelper } from './helpers/ssr-simple';
 import { CacheService } from './utils/cache';
 import { ConfigManager } from './utils/config';
+import { EventStore } from './utils/event-store';
 import { logger } from './utils/logger';
+import { PinnedSiteStore } from './utils/pinned-store';
+import { createGatewaySigner } from './utils/signer';
 
 // Initialize components
 const configManager = ConfigManager.getInstance();
 const config = configManager.getConfig();
-const nostrHelper = new NostrHelper();
-const blossomHelper = new BlossomHelper();
+// Swap in a remote signer here to keep the gateway key out of this process
+const gatewaySigner = createGatewaySigner(config.gatewaySecretKey);
+const eventStore = config.eventStorePath
+  ? new EventStore(config.eventStorePath, config.eventStoreRetentionMs)
+  : null;
+const localRelay = eventStore && config.localRelayEnabled ? new LocalRelay(eventStore) : null;
+const pinnedStore =
+  config.pinnedPubkeys.length > 0
+    ? new PinnedSiteStore(config.pinnedSitesPath, config.pinnedPubkeys)
+    : null;
+const nostrHelper = new NostrHelper(gatewaySigner, eventStore, pinnedStore);
+const domainResolver = new DomainResolver(nostrHelper);
+const blossomHelper = new BlossomHelper(pinnedStore);
+const pinnedSites = pinnedStore
+  ? new PinnedSiteService(pinnedStore, nostrHelper, blossomHelper)
+  : null;
+const sitePrefetcher = new SitePrefetcher(nostrHelper, blossomHelper);
 const ssrHelper = new SimpleSSRHelper();
-const cacheInvalidationService = new CacheInvalidationService();
+const cacheInvalidationService = new CacheInvalidationService(
+  gatewaySigner,
+  eventStore,
+  pinnedStore
+);
+const siteSync = new SiteSyncService(nostrHelper, cacheInvalidationService, eventStore);
 
 // Create Express app
 const app = express();
@@ -93,17 +129,43 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Gateway stats on the main domain, other hosts fall through to their site's `/_stats` path
+app.get('/_stats', (req: Request, res: Response, next: NextFunction) => {
+  if (req.hostname !== config.baseDomain && req.hostname !== `www.${config.baseDomain}`) {
+    next();
+    return;
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.json({
+    nostr: nostrHelper.getStats(),
+    blossom: blossomHelper.getStats(),
+  });
+});
+
 // Landing page for main domain
 app.get('*', async (req: Request, res: Response) => {
-  const hostname = req.hostname;
-  const requestPath = req.path;
+  let hostname = req.hostname;
+  let requestPath = req.path;
+
+  // Site prefix in path routing mode (e.g. `/npub1xxx`), empty for subdomains and custom domains
+  let basePath = '';
 
   try {
     // Check if this is the main domain (not a subdomain)
     const configData = config;
     const baseDomain = configData.baseDomain;
+    const isMainDomain = hostname === baseDomain || hostname === `www.${baseDomain}`;
+
+    // In path routing mode, `/<npub>/<path>` on the main domain is served like `<npub>.<base>`
+    const sitePath = isMainDomain && configData.pathRouting ? parseSitePath(requestPath) : null;
+    if (sitePath) {
+      basePath = sitePath.basePath;
+      hostname = `${sitePath.siteLabel}.${baseDomain}`;
+      requestPath = sitePath.path;
+    }
 
-    if (hostname === baseDomain || hostname === `www.${baseDomain}`) {
+    if (isMainDomain && !sitePath) {
       // Serve landing page for main domain
       const landingPageHTML = `<!DOCTYPE html>
 <html lang="en">
@@ -711,25 +773,67 @@ app.get('*', async (req: Request, res: Response) => {
       return;
     }
 
-    // For subdomains, continue with the original npub resolution logic
-    // Resolve pubkey from hostname
-    const pubkeyResolution = nostrHelper.resolvePubkey(hostname);
+    // For subdomains and custom domains, resolve the pubkey from the hostname
+    const pubkeyResolution = await domainResolver.resolveHostname(hostname);
 
     if (!pubkeyResolution.isValid) {
-      logger.warn(`Invalid npub subdomain: ${hostname}`);
+      if (basePath) {
+        logger.warn(`Invalid site path: ${basePath}`);
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Invalid site path',
+        });
+        return;
+      }
+
+      const isSubdomain = hostname.endsWith(`.${baseDomain}`);
+      logger.warn(
+        `${isSubdomain ? 'Invalid npub subdomain' : 'Unknown custom domain'}: ${hostname}`
+      );
       res.status(404).json({
         error: 'Not Found',
-        message: 'Invalid npub subdomain',
+        message: isSubdomain ? 'Invalid npub subdomain' : 'Domain is not linked to a Nostr pubkey',
       });
       return;
     }
 
-    const { pubkey } = pubkeyResolution;
+    // Redirect non-canonical pubkey encodings (hex, base36, nprofile) so caches don't fragment
+    const { canonicalSubdomain } = pubkeyResolution;
+    const isCanonical = !canonicalSubdomain || canonicalSubdomain === pubkeyResolution.subdomain;
+
+    if (basePath && (!isCanonical || requestPath === '')) {
+      // Path routing needs a trailing slash on the site root for relative links to resolve
+      const queryIndex = req.originalUrl.indexOf('?');
+      const query = queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : '';
+      const location = `/${canonicalSubdomain || sitePath?.siteLabel}${requestPath || '/'}${query}`;
+      logger.debug(`Redirecting ${req.path} to ${location}`);
+      res.redirect(301, location);
+      return;
+    }
+
+    if (!isCanonical) {
+      const port = req.get('host')?.match(/:\d+$/)?.[0] || '';
+      const location = `${req.protocol}://${canonicalSubdomain}.${baseDomain}${port}${req.originalUrl}`;
+      logger.debug(`Redirecting ${hostname} to canonical subdomain ${canonicalSubdomain}`);
+      res.redirect(301, location);
+      return;
+    }
+
+    if (basePath) {
+      applyBasePathToLocation(res, basePath);
+    }
+
+    const { pubkey, identifier } = pubkeyResolution;
 
     // Handle domain access for sliding expiration
     // This refreshes TTL for all related cache entries when the domain is accessed
     await CacheService.handleDomainAccess(hostname, pubkey);
 
+    // Load the path table of a root site in the background on its first visit
+    if (!identifier) {
+      void sitePrefetcher.prefetch(pubkey);
+    }
+
     // Normalize path - add index.html if path ends with /
     let normalizedPath = requestPath;
     if (normalizedPath.endsWith('/')) {
@@ -739,10 +843,14 @@ app.get('*', async (req: Request, res: Response) => {
       normalizedPath += '/index.html';
     }
 
-    logger.debug(`Serving ${normalizedPath} for pubkey: ${pubkey.substring(0, 8)}...`);
+    logger.debug(
+      `Serving ${normalizedPath} for pubkey: ${pubkey.substring(0, 8)}...${
+        identifier ? ` (site: ${identifier})` : ''
+      }`
+    );
 
     // Get file mapping from Nostr
-    const sha256 = await nostrHelper.getStaticFileMapping(pubkey, normalizedPath);
+    const sha256 = await nostrHelper.getStaticFileMapping(pubkey, normalizedPath, identifier);
 
     if (!sha256) {
       logger.warn(
@@ -750,6 +858,7 @@ app.get('*', async (req: Request, res: Response) => {
         {
           hostname,
           path: normalizedPath,
+          identifier,
           pubkey: pubkey.substring(0, 16) + '...',
           userAgent: req.get('User-Agent'),
         }
@@ -773,6 +882,76 @@ app.get('*', async (req: Request, res: Response) => {
       return;
     }
 
+    // Stream assets straight from Blossom; HTML and CSS stay buffered for SSR and path rewriting.
+    // Range requests are cut from the verified stream.
+    const isBufferedType = /\.(html?|css)$/i.test(normalizedPath);
+    if (config.streamingEnabled && !isBufferedType) {
+      const etag = `"${sha256}"`;
+      const headers = {
+        'Cache-Control': 'public, max-age=3600',
+        'Accept-Ranges': 'bytes',
+        ETag: etag,
+        'X-Content-SHA256': sha256,
+        'X-Served-By': 'Nostr-Static-Server',
+        'X-SSR-Rendered': 'false',
+      };
+
+      // The ETag is known before fetching anything
+      if (req.get('If-None-Match') === etag) {
+        res.set(headers).status(304).end();
+        return;
+      }
+
+      const fileStream = await blossomHelper.streamFile(sha256, blossomServers, normalizedPath);
+
+      if (!fileStream) {
+        logger.error(`Failed to stream file ${sha256.substring(0, 8)}... from Blossom servers`);
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'File not available from Blossom servers',
+        });
+        return;
+      }
+
+      res.set({ ...headers, 'Content-Type': fileStream.contentType });
+
+      // Without a known size Range can't be answered up front, so the file is sent in full
+      const size = fileStream.contentLength;
+      const range =
+        size !== undefined
+          ? prepareRangeResponse(req, res, size, fileStream.contentType, etag)
+          : null;
+
+      if (range === 'unsatisfiable') {
+        logger.debug(`Unsatisfiable range ${req.get('Range')} for ${normalizedPath}`);
+        fileStream.abort();
+        res.end();
+        return;
+      }
+
+      if (!range && size !== undefined) {
+        res.set('Content-Length', size.toString());
+      }
+
+      try {
+        await (range
+          ? pipeline(fileStream.stream, range, res)
+          : pipeline(fileStream.stream, res));
+        logger.info(
+          `Successfully streamed ${normalizedPath} for pubkey: ${pubkey.substring(0, 8)}...`
+        );
+      } catch (streamError) {
+        // Headers are already sent; pipeline destroys the response so the client sees a failure
+        fileStream.abort();
+        if ((streamError as NodeJS.ErrnoException).code === 'ERR_STREAM_PREMATURE_CLOSE') {
+          logger.debug(`Client closed the connection while streaming ${normalizedPath}`);
+        } else {
+          logger.error(`Streaming ${normalizedPath} failed:`, streamError);
+        }
+      }
+      return;
+    }
+
     // Fetch file from Blossom servers
     const fileResponse = await blossomHelper.fetchFile(sha256, blossomServers, normalizedPath);
 
@@ -877,6 +1056,17 @@ app.get('*', async (req: Request, res: Response) => {
       logger.debug(`Serving asset ${normalizedPath} with content-type: ${finalContentType}`);
     }
 
+    // Point root-relative links at the site prefix in path routing mode
+    if (basePath && /^text\/(html|css)/.test(finalContentType)) {
+      const text = typeof finalContent === 'string' ? finalContent : finalContent.toString('utf8');
+      finalContent = finalContentType.startsWith('text/html')
+        ? rewriteHtml(text, basePath)
+        : rewriteCss(text, basePath);
+      finalContentLength = Buffer.byteLength(finalContent, 'utf8');
+    }
+
+    const etag = `"${sha256}${shouldSSR ? '-ssr' : ''}"`;
+
     // Set response headers
     res.set({
       'Content-Type': finalContentType,
@@ -884,7 +1074,8 @@ app.get('*', async (req: Request, res: Response) => {
       'Cache-Control': shouldSSR
         ? `public, max-age=${config.ssrCacheTtlSeconds}`
         : 'public, max-age=3600', // Use config for SSR cache
-      ETag: `"${sha256}${shouldSSR ? '-ssr' : ''}"`,
+      'Accept-Ranges': 'bytes',
+      ETag: etag,
       'X-Content-SHA256': sha256,
       'X-Served-By': 'Nostr-Static-Server',
       'X-SSR-Rendered': shouldSSR ? 'true' : 'false',
@@ -892,19 +1083,32 @@ app.get('*', async (req: Request, res: Response) => {
 
     // Handle conditional requests
     const ifNoneMatch = req.get('If-None-Match');
-    const expectedETag = `"${sha256}${shouldSSR ? '-ssr' : ''}"`;
-    if (ifNoneMatch === expectedETag) {
+    if (ifNoneMatch === etag) {
       res.status(304).end();
       return;
     }
 
-    // Send file content
-    if (typeof finalContent === 'string') {
-      res.send(finalContent);
-    } else {
-      res.send(finalContent);
+    const body =
+      typeof finalContent === 'string' ? Buffer.from(finalContent, 'utf8') : finalContent;
+
+    // Handle range requests (media seeking); If-Range falls back to the full file on mismatch
+    const range = prepareRangeResponse(req, res, body.length, finalContentType, etag);
+    if (range === 'unsatisfiable') {
+      logger.debug(`Unsatisfiable range ${req.get('Range')} for ${normalizedPath}`);
+      res.end();
+      return;
+    }
+
+    if (range) {
+      range.pipe(res);
+      range.end(body);
+      logger.debug(`Served ${req.get('Range')} of ${normalizedPath}`);
+      return;
     }
 
+    // Send file content
+    res.send(body);
+
     logger.info(
       `Successfully served ${normalizedPath} (${finalContentLength} bytes${
         shouldSSR ? ', SSR rendered' : ''
@@ -957,6 +1161,20 @@ const server = app.listen(config.port, () => {
   logger.info(`Base domain: ${config.baseDomain}`);
   logger.info(`Default relays: ${config.defaultRelays.length}`);
   logger.info(`Default Blossom servers: ${config.defaultBlossomServers.length}`);
+  if (localRelay) {
+    logger.info(`Local relay: ws://${config.baseDomain}/relay`);
+  }
+  siteSync.start();
+  pinnedSites?.start();
+});
+
+// WebSocket upgrades are only accepted by the local relay
+server.on('upgrade', (request, socket, head) => {
+  if (localRelay && LocalRelay.isRelayRequest(request, config.baseDomain)) {
+    localRelay.handleUpgrade(request, socket, head);
+  } else {
+    socket.destroy();
+  }
 });
 
 // Keep track of active connections for graceful shutdown
@@ -992,6 +1210,14 @@ const gracefulShutdown = () => {
     process.exit(1);
   }, 15000); // 15 seconds timeout
 
+  siteSync.stop();
+  pinnedSites?.stop();
+
+  // Relay WebSockets would keep the HTTP server open
+  localRelay?.close().catch((error) => {
+    logger.error('Error closing local relay:', error);
+  });
+
   // First, stop accepting new connections
   server.close(async () => {
     try {
@@ -1010,6 +1236,11 @@ const gracefulShutdown = () => {
         logger.error('Error shutting down cache invalidation service:', error);
       });
 
+      // Close the event store
+      await eventStore?.close().catch((error) => {
+        logger.error('Error closing event store:', error);
+      });
+
       // Clean up caches
       logger.info('Shutting down cache manager...');
       // Note: CacheService automatically manages its own cleanup
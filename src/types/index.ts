@@ -1,5 +1,7 @@
 // Type definitions for the Nostr Static Website Server
 
+import { Readable } from 'stream';
+
 export interface NostrEvent {
   id: string;
   pubkey: string;
@@ -41,9 +43,31 @@ export interface ServerConfig {
   errorCacheTtlMs: number;
   // Query Timeout Configuration
   relayQueryTimeoutMs: number;
+  pathBatchWindowMs: number;
+
+  // Relay Selection Configuration
+  pinnedRelays: string[];
+  relayFanOutTarget: number;
+  relayMaxFanOut: number;
+
+  // Relay Authentication (NIP-42) Configuration
+  gatewaySecretKey: string;
+  authRelays: string[];
+  // Event Store Configuration
+  eventStorePath: string;
+  eventStoreRetentionMs: number;
+  localRelayEnabled: boolean;
+  // Site Sync (NIP-77) Configuration
+  syncPubkeys: string[];
+  syncIntervalMs: number;
+  // Pinned Sites Configuration
+  pinnedPubkeys: string[];
+  pinnedSitesPath: string;
+  pinnedRefreshIntervalMs: number;
   // Advanced Cache Configuration
   cachePath?: string;
   cacheTime: number;
+  cacheSoftTtlMs: number;
   maxFileSize: number;
 
   // Real-time Cache Invalidation Configuration
@@ -54,6 +78,40 @@ export interface ServerConfig {
 
   // Sliding Expiration Configuration
   slidingExpiration: boolean;
+
+  // Custom Domain Configuration
+  customDomainsEnabled: boolean;
+  customDomainTxtPrefix: string;
+
+  // NIP-05 Name Subdomain Configuration
+  nip05Provider: string;
+  nip05RegistryFile: string;
+  nip05CacheTtlMs: number;
+
+  // Pubkey Subdomain Configuration
+  canonicalPubkeyFormat: 'npub' | 'base36';
+
+  // Path Routing Configuration
+  pathRouting: boolean;
+
+  // Streaming Configuration
+  streamingEnabled: boolean;
+  streamCacheMaxSize: number;
+
+  // Blossom Fetch Strategy Configuration
+  blossomFetchStrategy: 'sequential' | 'hedged' | 'parallel';
+  blossomHedgeDelayMs: number;
+
+  // Blossom Server Health Configuration
+  blossomCircuitFailureThreshold: number;
+  blossomCircuitCooldownMs: number;
+  blossomRateLimitBackoffMs: number;
+
+  // Site Prefetch Configuration
+  sitePrefetchEnabled: boolean;
+  sitePrefetchMaxPaths: number;
+  sitePrefetchMaxBytes: number;
+  sitePrefetchConcurrency: number;
 }
 
 export interface StaticFileEvent extends NostrEvent {
@@ -61,6 +119,22 @@ export interface StaticFileEvent extends NostrEvent {
   tags: [string, string][];
 }
 
+export interface SiteManifestEvent extends NostrEvent {
+  kind: 15128 | 35128;
+  tags: string[][];
+}
+
+export interface SiteManifest {
+  pubkey: string;
+  identifier?: string;
+  paths: Record<string, string>;
+  created_at: number;
+  // Id of the manifest event, so deletions (NIP-09) by id can find it
+  id?: string;
+  // NIP-40 expiration of the manifest event (unix seconds)
+  expiration?: number;
+}
+
 export interface PathMapping {
   path: string;
   sha256: string;
@@ -83,6 +157,16 @@ export interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  // NIP-40 expiration of the event the data came from (unix seconds)
+  expiration?: number;
+  // Version of the event the data came from, for values that don't carry it themselves
+  source?: EventVersion;
+}
+
+// What decides which of two versions of a replaceable event is newer (NIP-01)
+export interface EventVersion {
+  created_at: number;
+  id?: string;
 }
 
 export interface FileResponse {
@@ -92,6 +176,17 @@ export interface FileResponse {
   sha256: string;
 }
 
+export interface FileStream {
+  // Verified content stream; errors if the size limit or sha256 check fails
+  stream: Readable;
+  contentType: string;
+  // Declared upstream length, when known
+  contentLength?: number;
+  sha256: string;
+  // Stops the upstream download
+  abort: () => void;
+}
+
 export interface BlossomServer {
   url: string;
   priority?: number;
@@ -108,6 +203,12 @@ export interface PubkeyResolution {
   npub?: string;
   subdomain: string;
   isValid: boolean;
+  // Site name for named sites (kind 35128 `d` tag); undefined for the root site
+  identifier?: string;
+  // Relay hints carried by an nprofile subdomain
+  relays?: string[];
+  // Subdomain using the canonical pubkey encoding; differs from `subdomain` for non-canonical forms
+  canonicalSubdomain?: string;
 }
 
 export interface ParsedEvent {
@@ -115,4 +216,18 @@ export interface ParsedEvent {
   path: string;
   sha256: string;
   created_at: number;
+  // Id of the kind 34128 event, so `e` tag deletions (NIP-09) can find the mapping
+  id?: string;
+  // NIP-40 expiration of the event (unix seconds)
+  expiration?: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  // Older than the soft TTL: still served, but due for a background refresh
+  stale: boolean;
+  // NIP-40 expiration of the event the value came from (unix seconds)
+  expiration?: number;
+  // Version of the event the value came from, if it was stored
+  source?: EventVersion;
 }
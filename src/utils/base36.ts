@@ -0,0 +1,43 @@
+/**
+ * DNS-safe base36 encoding for pubkeys
+ *
+ * A 32-byte pubkey always fits in 50 base36 characters, which leaves room for a site
+ * identifier label while staying well under the 63-character DNS label limit.
+ */
+
+export const BASE36_PUBKEY_LENGTH = 50;
+
+const BASE36_PUBKEY_REGEX = /^[0-9a-z]{50}$/;
+const HEX_PUBKEY_REGEX = /^[0-9a-f]{64}$/;
+const MAX_PUBKEY = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+/**
+ * Encode a hex pubkey as a fixed-width, lowercase base36 string
+ */
+export function encodeBase36Pubkey(pubkey: string): string {
+  if (!HEX_PUBKEY_REGEX.test(pubkey)) {
+    throw new Error(`Invalid hex pubkey: ${pubkey}`);
+  }
+
+  return BigInt(`0x${pubkey}`).toString(36).padStart(BASE36_PUBKEY_LENGTH, '0');
+}
+
+/**
+ * Decode a base36 pubkey back to hex, returning null for anything that is not a valid encoding
+ */
+export function decodeBase36Pubkey(value: string): string | null {
+  if (!BASE36_PUBKEY_REGEX.test(value)) {
+    return null;
+  }
+
+  let result = BigInt(0);
+  for (const char of value) {
+    result = result * BigInt(36) + BigInt(parseInt(char, 36));
+  }
+
+  if (result > MAX_PUBKEY) {
+    return null;
+  }
+
+  return result.toString(16).padStart(64, '0');
+}
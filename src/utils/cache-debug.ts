@@ -17,7 +17,8 @@ export class CacheDebugger {
     const relays = await CacheService.getRelaysForPubkey(pubkey);
     if (relays) {
       logger.info(`  ✅ Relay list found: ${relays.length} relays`);
-      logger.debug(`  Relays: ${relays.slice(0, 3).join(', ')}${relays.length > 3 ? '...' : ''}`);
+      const urls = relays.map((relay) => relay.url);
+      logger.debug(`  Relays: ${urls.slice(0, 3).join(', ')}${urls.length > 3 ? '...' : ''}`);
     } else {
       logger.info(`  ❌ No relay list cached`);
     }
@@ -46,12 +47,25 @@ export class CacheDebugger {
             mapping.created_at * 1000
           ).toISOString()})`
         );
+        await this.testBlobCache(mapping.sha256);
       } else {
         logger.info(`  ❌ ${path} not cached`);
       }
     }
   }
 
+  /**
+   * Show which Blossom servers are known to hold a blob
+   */
+  static async testBlobCache(sha256: string): Promise<void> {
+    const servers = await CacheService.getBlobURLs(sha256);
+    if (servers && servers.length > 0) {
+      logger.info(`    🌸 ${sha256.substring(0, 8)}... held by: ${servers.join(', ')}`);
+    } else {
+      logger.info(`    ❌ No known Blossom servers for ${sha256.substring(0, 8)}...`);
+    }
+  }
+
   /**
    * Test domain to pubkey mapping
    */
@@ -1,5 +1,12 @@
 import Keyv from 'keyv';
-import { ParsedEvent } from '../types';
+import {
+  CachedValue,
+  CacheEntry,
+  EventVersion,
+  NostrRelay,
+  ParsedEvent,
+  SiteManifest,
+} from '../types';
 import { ConfigManager } from './config';
 import { logger } from './logger';
 
@@ -153,13 +160,28 @@ class AdvancedCacheManager {
       pubkeyDomains: this.createCache<string>('domains'),
 
       /** A cache that maps a pubkey to a set of blossom servers ( pubkey -> servers ) */
-      pubkeyServers: this.createCache<string[]>('servers'),
+      pubkeyServers: this.createCache<CacheEntry<string[]>>('servers'),
 
-      /** A cache that maps a pubkey to a set of relays ( pubkey -> relays ) */
-      pubkeyRelays: this.createCache<string[]>('relays'),
+      /**
+       * A cache that maps a pubkey to its NIP-65 relays with read/write markers
+       * ( pubkey -> relays ), namespaced apart from the flat read-relay lists stored before
+       */
+      pubkeyRelays: this.createCache<CacheEntry<NostrRelay[]>>('relay-lists'),
 
       /** A cache that maps a pubkey + path to sha256 hash of the blob ( pubkey/path -> sha256 ) */
-      pathBlobs: this.createCache<ParsedEvent>('paths'),
+      pathBlobs: this.createCache<CacheEntry<ParsedEvent>>('paths'),
+
+      /** A cache that maps a kind 34128 event id to its path mapping ( id -> mapping ) */
+      eventPaths: this.createCache<ParsedEvent>('path-events'),
+
+      /**
+       * A cache of NIP-09 deletions of path mappings and site manifests ( pubkey/path or
+       * manifest:pubkey[:identifier] -> created_at up to which it is deleted )
+       */
+      pathDeletions: this.createCache<number>('deletions'),
+
+      /** A cache that maps a site to the full path table of its manifest ( pubkey[:identifier] -> paths ) */
+      siteManifests: this.createCache<CacheEntry<SiteManifest>>('manifests'),
 
       /** A cache that maps a sha256 hash to a set of URLs that had the blob ( sha256 -> URLs ) */
       blobURLs: this.createCache<string[]>('blobs'),
@@ -224,6 +246,86 @@ export class CacheService {
     return value || null;
   }
 
+  /**
+   * Wrap a value with the time it was stored and its soft TTL
+   * The cache TTL (CACHE_TIME) is the hard TTL; past the soft TTL an entry is served stale.
+   */
+  private static toEntry<T>(data: T, expiration?: number, source?: EventVersion): CacheEntry<T> {
+    const config = ConfigManager.getInstance().getConfig();
+    const entry: CacheEntry<T> = { data, timestamp: Date.now(), ttl: config.cacheSoftTtlMs };
+    if (expiration !== undefined) {
+      entry.expiration = expiration;
+    }
+    if (source) {
+      entry.source = { created_at: source.created_at, id: source.id };
+    }
+    return entry;
+  }
+
+  /**
+   * Unwrap a stored entry and check whether it is past its soft TTL
+   * Values stored before entries were wrapped are treated as stale so they get refreshed.
+   * Entries whose event has expired (NIP-40) are treated as missing.
+   */
+  private static fromEntry<T>(stored: any): CachedValue<T> | null {
+    if (!stored) {
+      return null;
+    }
+
+    if (typeof stored === 'object' && 'data' in stored && 'timestamp' in stored) {
+      if (this.isExpired(stored.expiration)) {
+        return null;
+      }
+
+      const result: CachedValue<T> = {
+        value: stored.data as T,
+        stale: Date.now() - stored.timestamp >= stored.ttl,
+      };
+      if (stored.expiration !== undefined) {
+        result.expiration = stored.expiration;
+      }
+      if (stored.source) {
+        result.source = stored.source;
+      }
+      return result;
+    }
+
+    return { value: stored as T, stale: true };
+  }
+
+  /**
+   * Check whether a NIP-40 expiration (unix seconds) has passed
+   */
+  private static isExpired(expiration?: number): boolean {
+    return expiration !== undefined && expiration * 1000 <= Date.now();
+  }
+
+  /**
+   * Store a value that may come from an expiring event (NIP-40)
+   * The cache TTL is capped at the time left until expiration, so the value is gone on
+   * schedule; a value that has already expired is removed instead of stored.
+   */
+  private static async setExpiring(
+    cache: any,
+    key: string,
+    value: unknown,
+    expiration?: number
+  ): Promise<void> {
+    if (expiration === undefined) {
+      await cache.set(key, value);
+      return;
+    }
+
+    const config = ConfigManager.getInstance().getConfig();
+    const ttlMs = Math.min(expiration * 1000 - Date.now(), config.cacheTime * 1000);
+    if (ttlMs <= 0) {
+      await cache.delete(key);
+      return;
+    }
+
+    await cache.set(key, value, ttlMs);
+  }
+
   /**
    * Touch multiple cache entries to refresh their TTL
    * Used when accessing a domain triggers refresh of all related cache entries
@@ -279,14 +381,18 @@ export class CacheService {
   // Domain Resolution Cache Operations
   // ==========================================
 
-  // Domain resolution cache operations
-  static async getPubkeyForDomain(domain: string): Promise<string | null> {
+  /**
+   * Get the pubkey a domain resolves to
+   * Pass `slide = false` for entries stored with their own TTL, which sliding expiration
+   * would otherwise reset to CACHE_TIME.
+   */
+  static async getPubkeyForDomain(domain: string, slide = true): Promise<string | null> {
     const caches = await this.getCaches();
     const config = ConfigManager.getInstance().getConfig();
     const result = await this.getWithSlidingExpiration(
       caches.pubkeyDomains,
       domain,
-      config.slidingExpiration
+      slide && config.slidingExpiration
     );
 
     if (result) {
@@ -298,9 +404,9 @@ export class CacheService {
     return result as string | null;
   }
 
-  static async setPubkeyForDomain(domain: string, pubkey: string): Promise<void> {
+  static async setPubkeyForDomain(domain: string, pubkey: string, ttlMs?: number): Promise<void> {
     const caches = await this.getCaches();
-    await caches.pubkeyDomains.set(domain, pubkey);
+    await caches.pubkeyDomains.set(domain, pubkey, ttlMs);
   }
 
   // ==========================================
@@ -309,30 +415,45 @@ export class CacheService {
 
   // Blossom servers cache operations
   static async getBlossomServersForPubkey(pubkey: string): Promise<string[] | null> {
+    const entry = await this.getBlossomServersEntry(pubkey);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Get the cached Blossom server list along with whether it is past the soft TTL
+   */
+  static async getBlossomServersEntry(pubkey: string): Promise<CachedValue<string[]> | null> {
     const caches = await this.getCaches();
     const config = ConfigManager.getInstance().getConfig();
-    const result = await this.getWithSlidingExpiration(
-      caches.pubkeyServers,
-      pubkey,
-      config.slidingExpiration
+    const result = this.fromEntry<string[]>(
+      await this.getWithSlidingExpiration(caches.pubkeyServers, pubkey, config.slidingExpiration)
     );
 
     if (result) {
       log.debug(
         `🎯 Blossom servers cache HIT for ${pubkey.substring(0, 8)}... (${
-          (result as string[]).length
-        } servers)`
+          result.value.length
+        } servers${result.stale ? ', stale' : ''})`
       );
     } else {
       log.debug(`💔 Blossom servers cache MISS for ${pubkey.substring(0, 8)}...`);
     }
 
-    return result as string[] | null;
+    return result;
   }
 
-  static async setBlossomServersForPubkey(pubkey: string, servers: string[]): Promise<void> {
+  /**
+   * Cache the Blossom server list of a pubkey; `source` is the server list event it came from
+   */
+  static async setBlossomServersForPubkey(
+    pubkey: string,
+    servers: string[],
+    expiration?: number,
+    source?: EventVersion
+  ): Promise<void> {
     const caches = await this.getCaches();
-    await caches.pubkeyServers.set(pubkey, servers);
+    const entry = this.toEntry(servers, expiration, source);
+    await this.setExpiring(caches.pubkeyServers, pubkey, entry, expiration);
   }
 
   // ==========================================
@@ -340,31 +461,46 @@ export class CacheService {
   // ==========================================
 
   // Relay cache operations
-  static async getRelaysForPubkey(pubkey: string): Promise<string[] | null> {
+  static async getRelaysForPubkey(pubkey: string): Promise<NostrRelay[] | null> {
+    const entry = await this.getRelaysEntry(pubkey);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Get the cached relay list along with whether it is past the soft TTL
+   */
+  static async getRelaysEntry(pubkey: string): Promise<CachedValue<NostrRelay[]> | null> {
     const caches = await this.getCaches();
     const config = ConfigManager.getInstance().getConfig();
-    const result = await this.getWithSlidingExpiration(
-      caches.pubkeyRelays,
-      pubkey,
-      config.slidingExpiration
+    const result = this.fromEntry<NostrRelay[]>(
+      await this.getWithSlidingExpiration(caches.pubkeyRelays, pubkey, config.slidingExpiration)
     );
 
     if (result) {
       log.debug(
-        `🎯 Relay list cache HIT for ${pubkey.substring(0, 8)}... (${
-          (result as string[]).length
-        } relays)`
+        `🎯 Relay list cache HIT for ${pubkey.substring(0, 8)}... (${result.value.length} relays${
+          result.stale ? ', stale' : ''
+        })`
       );
     } else {
       log.debug(`💔 Relay list cache MISS for ${pubkey.substring(0, 8)}...`);
     }
 
-    return result as string[] | null;
+    return result;
   }
 
-  static async setRelaysForPubkey(pubkey: string, relays: string[]): Promise<void> {
+  /**
+   * Cache the relay list of a pubkey; `source` is the relay list event it came from
+   */
+  static async setRelaysForPubkey(
+    pubkey: string,
+    relays: NostrRelay[],
+    expiration?: number,
+    source?: EventVersion
+  ): Promise<void> {
     const caches = await this.getCaches();
-    await caches.pubkeyRelays.set(pubkey, relays);
+    const entry = this.toEntry(relays, expiration, source);
+    await this.setExpiring(caches.pubkeyRelays, pubkey, entry, expiration);
   }
 
   // ==========================================
@@ -372,39 +508,231 @@ export class CacheService {
   // ==========================================
 
   // Path to blob mapping cache operations
-  static async getBlobForPath(pubkey: string, path: string): Promise<ParsedEvent | null> {
+  static async getBlobForPath(
+    pubkey: string,
+    path: string,
+    identifier?: string
+  ): Promise<ParsedEvent | null> {
+    const entry = await this.getBlobForPathEntry(pubkey, path, identifier);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Get the cached path mapping along with whether it is past the soft TTL
+   */
+  static async getBlobForPathEntry(
+    pubkey: string,
+    path: string,
+    identifier?: string
+  ): Promise<CachedValue<ParsedEvent> | null> {
     const caches = await this.getCaches();
     const config = ConfigManager.getInstance().getConfig();
-    const key = pubkey + path;
-    const result = await this.getWithSlidingExpiration(
-      caches.pathBlobs,
-      key,
-      config.slidingExpiration
+    const key = this.getPathKey(pubkey, path, identifier);
+    const result = this.fromEntry<ParsedEvent>(
+      await this.getWithSlidingExpiration(caches.pathBlobs, key, config.slidingExpiration)
     );
 
     if (result) {
+      const sha256 = result.value.sha256.substring(0, 8);
       log.debug(
-        `🎯 Path mapping cache HIT: ${path} for ${pubkey.substring(0, 8)}... → ${(
-          result as ParsedEvent
-        ).sha256.substring(0, 8)}...`
+        `🎯 Path mapping cache HIT: ${path} for ${pubkey.substring(0, 8)}... → ${sha256}...${
+          result.stale ? ' (stale)' : ''
+        }`
       );
     } else {
       log.debug(`💔 Path mapping cache MISS: ${path} for ${pubkey.substring(0, 8)}...`);
     }
 
-    return result as ParsedEvent | null;
+    return result;
+  }
+
+  static async setBlobForPath(
+    pubkey: string,
+    path: string,
+    event: ParsedEvent,
+    identifier?: string
+  ): Promise<void> {
+    const caches = await this.getCaches();
+    const key = this.getPathKey(pubkey, path, identifier);
+    const { expiration } = event;
+    await this.setExpiring(caches.pathBlobs, key, this.toEntry(event, expiration), expiration);
+    if (event.id) {
+      await this.setExpiring(caches.eventPaths, event.id, event, expiration);
+    }
   }
 
-  static async setBlobForPath(pubkey: string, path: string, event: ParsedEvent): Promise<void> {
+  /**
+   * Get the path mapping published by a kind 34128 event, if it was cached
+   */
+  static async getBlobForEvent(eventId: string): Promise<ParsedEvent | null> {
     const caches = await this.getCaches();
-    const key = pubkey + path;
-    await caches.pathBlobs.set(key, event);
+    const mapping: ParsedEvent | undefined = await caches.eventPaths.get(eventId);
+    return mapping && !this.isExpired(mapping.expiration) ? mapping : null;
   }
 
-  static async invalidateBlobForPath(pubkey: string, path: string): Promise<void> {
+  /**
+   * Get the `created_at` up to which a path mapping was deleted (NIP-09), null if it wasn't
+   */
+  static async getPathDeletion(pubkey: string, path: string): Promise<number | null> {
     const caches = await this.getCaches();
-    const key = pubkey + path;
+    return (await caches.pathDeletions.get(this.getPathKey(pubkey, path))) ?? null;
+  }
+
+  /**
+   * Record a deletion of a path mapping (NIP-09)
+   * A cached mapping no newer than the deletion is evicted and the path negatively cached;
+   * mappings re-published after the deletion are kept. Returns whether a mapping was evicted.
+   */
+  static async setPathDeletion(pubkey: string, path: string, deletedAt: number): Promise<boolean> {
+    const caches = await this.getCaches();
+    const key = this.getPathKey(pubkey, path);
+
+    const previous = await caches.pathDeletions.get(key);
+    if (previous === undefined || previous < deletedAt) {
+      await caches.pathDeletions.set(key, deletedAt);
+    }
+
+    const cached = this.fromEntry<ParsedEvent>(await caches.pathBlobs.get(key));
+    if (cached && cached.value.created_at > deletedAt) {
+      return false;
+    }
+
     await caches.pathBlobs.delete(key);
+    await caches.negativeCache.set(this.getMappingNegativeKey(pubkey, path), true);
+    log.info(`🗑️ Path mapping deleted: ${path} for ${pubkey.substring(0, 8)}...`);
+
+    return cached !== null;
+  }
+
+  static async invalidateBlobForPath(
+    pubkey: string,
+    path: string,
+    identifier?: string
+  ): Promise<void> {
+    const caches = await this.getCaches();
+    const key = this.getPathKey(pubkey, path, identifier);
+    await caches.pathBlobs.delete(key);
+  }
+
+  /**
+   * Negative cache key for a path mapping, scoped to the named site if any
+   */
+  static getMappingNegativeKey(pubkey: string, path: string, identifier?: string): string {
+    return identifier ? `mapping:${pubkey}:${identifier}:${path}` : `mapping:${pubkey}:${path}`;
+  }
+
+  // Named sites get their own key space so their paths never collide with the root site
+  private static getPathKey(pubkey: string, path: string, identifier?: string): string {
+    return identifier ? `${pubkey}:${identifier}${path}` : pubkey + path;
+  }
+
+  // ==========================================
+  // Site Manifest Cache Operations
+  // ==========================================
+
+  // Site manifest (path table) cache operations
+  static async getSiteManifest(pubkey: string, identifier?: string): Promise<SiteManifest | null> {
+    const entry = await this.getSiteManifestEntry(pubkey, identifier);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Get the cached site manifest along with whether it is past the soft TTL
+   */
+  static async getSiteManifestEntry(
+    pubkey: string,
+    identifier?: string
+  ): Promise<CachedValue<SiteManifest> | null> {
+    const caches = await this.getCaches();
+    const config = ConfigManager.getInstance().getConfig();
+    const key = this.getSiteKey(pubkey, identifier);
+    const result = this.fromEntry<SiteManifest>(
+      await this.getWithSlidingExpiration(caches.siteManifests, key, config.slidingExpiration)
+    );
+
+    if (result) {
+      log.debug(
+        `🎯 Manifest cache HIT for ${key.substring(0, 8)}... (${
+          Object.keys(result.value.paths).length
+        } paths)${result.stale ? ' (stale)' : ''}`
+      );
+    } else {
+      log.debug(`💔 Manifest cache MISS for ${key.substring(0, 8)}...`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Store the path table of a site, replacing the previous one
+   * Path mappings cached for paths the previous manifest listed and this one drops are
+   * evicted, so a removed file isn't kept alive by an older per-path mapping.
+   */
+  static async setSiteManifest(
+    pubkey: string,
+    manifest: SiteManifest,
+    identifier?: string
+  ): Promise<void> {
+    const caches = await this.getCaches();
+    const key = this.getSiteKey(pubkey, identifier);
+
+    const previous = this.fromEntry<SiteManifest>(await caches.siteManifests.get(key))?.value;
+    const dropped = Object.keys(previous?.paths || {}).filter((path) => !manifest.paths[path]);
+    for (const path of dropped) {
+      await caches.pathBlobs.delete(this.getPathKey(pubkey, path, identifier));
+    }
+    if (dropped.length > 0) {
+      log.debug(`Evicted ${dropped.length} paths dropped from the manifest of ${key}`);
+    }
+
+    const { expiration } = manifest;
+    const entry = this.toEntry(manifest, expiration);
+    await this.setExpiring(caches.siteManifests, key, entry, expiration);
+  }
+
+  static async invalidateSiteManifest(pubkey: string, identifier?: string): Promise<void> {
+    const caches = await this.getCaches();
+    await caches.siteManifests.delete(this.getSiteKey(pubkey, identifier));
+  }
+
+  /**
+   * Get the `created_at` up to which a site manifest was deleted (NIP-09), null if it wasn't
+   */
+  static async getSiteDeletion(pubkey: string, identifier?: string): Promise<number | null> {
+    const caches = await this.getCaches();
+    const key = `manifest:${this.getSiteKey(pubkey, identifier)}`;
+    return (await caches.pathDeletions.get(key)) ?? null;
+  }
+
+  /**
+   * Record a deletion of a site manifest (NIP-09)
+   * A cached manifest no newer than the deletion is evicted; returns whether it was.
+   */
+  static async setSiteDeletion(
+    pubkey: string,
+    identifier: string | undefined,
+    deletedAt: number
+  ): Promise<boolean> {
+    const caches = await this.getCaches();
+    const key = this.getSiteKey(pubkey, identifier);
+
+    const previous = await caches.pathDeletions.get(`manifest:${key}`);
+    if (previous === undefined || previous < deletedAt) {
+      await caches.pathDeletions.set(`manifest:${key}`, deletedAt);
+    }
+
+    const cached = this.fromEntry<SiteManifest>(await caches.siteManifests.get(key))?.value;
+    if (!cached || cached.created_at > deletedAt) {
+      return false;
+    }
+
+    await caches.siteManifests.delete(key);
+    log.info(`🗑️ Site manifest deleted: ${key.substring(0, 8)}...`);
+    return true;
+  }
+
+  private static getSiteKey(pubkey: string, identifier?: string): string {
+    return identifier ? `${pubkey}:${identifier}` : pubkey;
   }
 
   // ==========================================
@@ -439,6 +767,33 @@ export class CacheService {
     await caches.blobURLs.set(sha256, urls);
   }
 
+  // Remember a server that served a blob; the most recent holder goes first
+  static async addBlobServer(sha256: string, server: string): Promise<void> {
+    const servers = (await this.getBlobURLs(sha256)) || [];
+    if (servers[0] === server) {
+      return;
+    }
+
+    await this.setBlobURLs(sha256, [server, ...servers.filter((url) => url !== server)]);
+  }
+
+  // Forget a server that no longer has a blob
+  static async removeBlobServer(sha256: string, server: string): Promise<void> {
+    const servers = await this.getBlobURLs(sha256);
+    if (!servers || !servers.includes(server)) {
+      return;
+    }
+
+    const remaining = servers.filter((url) => url !== server);
+    const caches = await this.getCaches();
+    if (remaining.length > 0) {
+      await caches.blobURLs.set(sha256, remaining);
+    } else {
+      await caches.blobURLs.delete(sha256);
+    }
+    log.debug(`🗑️  Evicted ${server} as holder of ${sha256.substring(0, 8)}...`);
+  }
+
   // ==========================================
   // File Content Cache Operations
   // ==========================================
@@ -511,6 +866,9 @@ export class CacheService {
       caches.pubkeyServers.clear(),
       caches.pubkeyRelays.clear(),
       caches.pathBlobs.clear(),
+      caches.eventPaths.clear(),
+      caches.pathDeletions.clear(),
+      caches.siteManifests.clear(),
       caches.blobURLs.clear(),
       caches.fileContent.clear(),
       caches.negativeCache.clear(),
@@ -566,6 +924,8 @@ export class CacheService {
       caches.pubkeyRelays.delete(pubkey),
       // Blossom servers
       caches.pubkeyServers.delete(pubkey),
+      // Root site manifest
+      caches.siteManifests.delete(pubkey),
       // Note: Path mappings and domain resolution would require scanning keys
     ]);
 
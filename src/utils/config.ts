@@ -2,6 +2,8 @@ import * as dotenv from 'dotenv';
 // @ts-ignore - xbytes doesn't have TypeScript declarations
 import xbytes from 'xbytes';
 import { ServerConfig } from '../types';
+import { FETCH_STRATEGIES } from './hedge';
+import { decodePubkey, decodeSecretKey } from './signer';
 
 // Load environment variables
 dotenv.config();
@@ -48,9 +50,29 @@ export class ConfigManager {
       errorCacheTtlMs: parseInt(process.env.ERROR_CACHE_TTL_MS || '60000', 10), // 1 minute default
       // Query Timeout Configuration
       relayQueryTimeoutMs: parseInt(process.env.RELAY_QUERY_TIMEOUT_MS || '3000', 10), // Reduced from 10s to 3s for faster responses
+      pathBatchWindowMs: parseInt(process.env.PATH_BATCH_WINDOW_MS || '20', 10), // 20ms default
+      // Relay Selection Configuration
+      pinnedRelays: this.parseCommaSeparated(process.env.PINNED_RELAYS || ''),
+      relayFanOutTarget: parseFloat(process.env.RELAY_FANOUT_TARGET || '3'),
+      relayMaxFanOut: parseInt(process.env.RELAY_MAX_FANOUT || '8', 10),
+      // Relay Authentication (NIP-42) Configuration
+      gatewaySecretKey: process.env.GATEWAY_SECRET_KEY || '',
+      authRelays: this.parseCommaSeparated(process.env.AUTH_RELAYS || ''),
+      // Event Store Configuration
+      eventStorePath: process.env.EVENT_STORE_PATH || '',
+      eventStoreRetentionMs: parseInt(process.env.EVENT_STORE_RETENTION_MS || '2592000000', 10), // 30 days default
+      localRelayEnabled: process.env.LOCAL_RELAY_ENABLED === 'true', // Default is false
+      // Site Sync (NIP-77) Configuration
+      syncPubkeys: this.parseCommaSeparated(process.env.SYNC_PUBKEYS || ''),
+      syncIntervalMs: parseInt(process.env.SYNC_INTERVAL_MS || '300000', 10), // 5 minutes default
+      // Pinned Sites Configuration
+      pinnedPubkeys: this.parseCommaSeparated(process.env.PINNED_PUBKEYS || ''),
+      pinnedSitesPath: process.env.PINNED_SITES_PATH || './data/pinned',
+      pinnedRefreshIntervalMs: parseInt(process.env.PINNED_REFRESH_INTERVAL_MS || '600000', 10), // 10 minutes default
       // Advanced Cache Configuration
       cachePath: process.env.CACHE_PATH,
       cacheTime: parseInt(process.env.CACHE_TIME || '3600', 10),
+      cacheSoftTtlMs: parseInt(process.env.CACHE_SOFT_TTL_MS || '300000', 10), // 5 minutes default
       maxFileSize: process.env.MAX_FILE_SIZE
         ? xbytes.parseSize(process.env.MAX_FILE_SIZE)
         : Infinity,
@@ -69,6 +91,48 @@ export class ConfigManager {
 
       // Sliding Expiration Configuration
       slidingExpiration: process.env.SLIDING_EXPIRATION === 'true', // Default is false for backward compatibility
+
+      // Custom Domain Configuration
+      customDomainsEnabled: process.env.CUSTOM_DOMAINS_ENABLED === 'true', // Default is false
+      customDomainTxtPrefix: process.env.CUSTOM_DOMAIN_TXT_PREFIX || '_nostr',
+
+      // NIP-05 Name Subdomain Configuration
+      nip05Provider: (process.env.NIP05_PROVIDER || '').replace(/\/+$/, ''),
+      nip05RegistryFile: process.env.NIP05_REGISTRY_FILE || '',
+      nip05CacheTtlMs: parseInt(process.env.NIP05_CACHE_TTL_MS || '3600000', 10), // 1 hour
+
+      // Pubkey Subdomain Configuration
+      canonicalPubkeyFormat: (process.env.CANONICAL_PUBKEY_FORMAT ||
+        'npub') as ServerConfig['canonicalPubkeyFormat'],
+
+      // Path Routing Configuration
+      pathRouting: process.env.PATH_ROUTING === 'true', // Default is false
+
+      // Streaming Configuration
+      streamingEnabled: process.env.STREAMING_ENABLED !== 'false', // Default is true
+      streamCacheMaxSize: xbytes.parseSize(process.env.STREAM_CACHE_MAX_SIZE || '10MiB'),
+
+      // Blossom Fetch Strategy Configuration
+      blossomFetchStrategy: (process.env.BLOSSOM_FETCH_STRATEGY ||
+        'hedged') as ServerConfig['blossomFetchStrategy'],
+      blossomHedgeDelayMs: parseInt(process.env.BLOSSOM_HEDGE_DELAY_MS || '500', 10),
+
+      // Blossom Server Health Configuration
+      blossomCircuitFailureThreshold: parseInt(
+        process.env.BLOSSOM_CIRCUIT_FAILURE_THRESHOLD || '5',
+        10
+      ),
+      blossomCircuitCooldownMs: parseInt(process.env.BLOSSOM_CIRCUIT_COOLDOWN_MS || '30000', 10),
+      blossomRateLimitBackoffMs: parseInt(
+        process.env.BLOSSOM_RATE_LIMIT_BACKOFF_MS || '10000',
+        10
+      ),
+
+      // Site Prefetch Configuration
+      sitePrefetchEnabled: process.env.SITE_PREFETCH_ENABLED === 'true', // Default is false
+      sitePrefetchMaxPaths: parseInt(process.env.SITE_PREFETCH_MAX_PATHS || '500', 10),
+      sitePrefetchMaxBytes: xbytes.parseSize(process.env.SITE_PREFETCH_MAX_SIZE || '0B'),
+      sitePrefetchConcurrency: parseInt(process.env.SITE_PREFETCH_CONCURRENCY || '4', 10),
     };
 
     this.validateConfig();
@@ -195,6 +259,10 @@ export class ConfigManager {
       throw new Error('Positive cache TTL must be at least 1000ms');
     }
 
+    if (config.cacheSoftTtlMs < 0) {
+      throw new Error('Cache soft TTL cannot be negative');
+    }
+
     if (config.fileContentCacheTtlMs < 1000) {
       throw new Error('File content cache TTL must be at least 1000ms');
     }
@@ -208,6 +276,71 @@ export class ConfigManager {
       throw new Error('Relay query timeout must be at least 1000ms');
     }
 
+    if (config.pathBatchWindowMs < 0) {
+      throw new Error('Path batch window cannot be negative');
+    }
+
+    // Relay Selection Configuration
+    config.pinnedRelays.forEach((relay) => {
+      if (!relay.startsWith('wss://') && !relay.startsWith('ws://')) {
+        throw new Error(`Invalid pinned relay URL: ${relay}. Must start with ws:// or wss://`);
+      }
+    });
+
+    if (Number.isNaN(config.relayFanOutTarget) || config.relayFanOutTarget < 0) {
+      throw new Error('Relay fan-out target cannot be negative');
+    }
+
+    if (config.relayMaxFanOut < 1) {
+      throw new Error('Relay max fan-out must be at least 1');
+    }
+
+    // Relay Authentication (NIP-42) Configuration
+    if (config.gatewaySecretKey) {
+      decodeSecretKey(config.gatewaySecretKey);
+    }
+
+    config.authRelays.forEach((relay) => {
+      if (!relay.startsWith('wss://') && !relay.startsWith('ws://')) {
+        throw new Error(`Invalid auth relay URL: ${relay}. Must start with ws:// or wss://`);
+      }
+    });
+
+    // Event Store Configuration
+    if (config.localRelayEnabled && !config.eventStorePath) {
+      throw new Error('LOCAL_RELAY_ENABLED requires EVENT_STORE_PATH');
+    }
+
+    if (Number.isNaN(config.eventStoreRetentionMs) || config.eventStoreRetentionMs < 0) {
+      throw new Error('Event store retention cannot be negative');
+    }
+
+    // Site Sync (NIP-77) Configuration
+    config.syncPubkeys.forEach((pubkey) => {
+      if (!decodePubkey(pubkey)) {
+        throw new Error(`Invalid sync pubkey: ${pubkey}. Must be hex or npub`);
+      }
+    });
+
+    if (config.syncIntervalMs < 10000) {
+      throw new Error('Sync interval must be at least 10000ms');
+    }
+
+    // Pinned Sites Configuration
+    config.pinnedPubkeys.forEach((pubkey) => {
+      if (!decodePubkey(pubkey)) {
+        throw new Error(`Invalid pinned pubkey: ${pubkey}. Must be hex or npub`);
+      }
+    });
+
+    if (config.pinnedPubkeys.length > 0 && !config.pinnedSitesPath) {
+      throw new Error('PINNED_PUBKEYS requires PINNED_SITES_PATH');
+    }
+
+    if (config.pinnedRefreshIntervalMs < 10000) {
+      throw new Error('Pinned site refresh interval must be at least 10000ms');
+    }
+
     // Real-time Cache Invalidation Configuration
     if (config.realtimeCacheInvalidation) {
       if (config.invalidationRelays.length === 0) {
@@ -233,6 +366,77 @@ export class ConfigManager {
         throw new Error('Invalidation reconnect delay must be at least 1000ms');
       }
     }
+
+    // Custom Domain Configuration
+    if (config.customDomainsEnabled && !/^[a-z0-9_-]+$/i.test(config.customDomainTxtPrefix)) {
+      throw new Error(
+        `Invalid custom domain TXT prefix: ${config.customDomainTxtPrefix}. Must be a single DNS label`
+      );
+    }
+
+    // NIP-05 Name Subdomain Configuration
+    if (
+      config.nip05Provider &&
+      !config.nip05Provider.startsWith('https://') &&
+      !config.nip05Provider.startsWith('http://')
+    ) {
+      throw new Error(
+        `Invalid NIP-05 provider URL: ${config.nip05Provider}. Must start with http:// or https://`
+      );
+    }
+
+    if (config.nip05CacheTtlMs < 1000) {
+      throw new Error('NIP-05 cache TTL must be at least 1000ms');
+    }
+
+    // Streaming Configuration
+    if (Number.isNaN(config.streamCacheMaxSize) || config.streamCacheMaxSize < 0) {
+      throw new Error('Stream cache max size must be a valid size, e.g. 10MiB');
+    }
+
+    // Blossom Fetch Strategy Configuration
+    if (!FETCH_STRATEGIES.includes(config.blossomFetchStrategy)) {
+      throw new Error(
+        `Invalid Blossom fetch strategy: ${config.blossomFetchStrategy}. Must be one of ${FETCH_STRATEGIES.join(', ')}`
+      );
+    }
+
+    if (config.blossomHedgeDelayMs < 0) {
+      throw new Error('Blossom hedge delay cannot be negative');
+    }
+
+    // Blossom Server Health Configuration
+    if (config.blossomCircuitFailureThreshold < 0) {
+      throw new Error('Blossom circuit failure threshold cannot be negative');
+    }
+
+    if (config.blossomCircuitCooldownMs < 1000) {
+      throw new Error('Blossom circuit cooldown must be at least 1000ms');
+    }
+
+    if (config.blossomRateLimitBackoffMs < 0) {
+      throw new Error('Blossom rate limit backoff cannot be negative');
+    }
+
+    // Site Prefetch Configuration
+    if (config.sitePrefetchMaxPaths < 1) {
+      throw new Error('Site prefetch max paths must be at least 1');
+    }
+
+    if (!Number.isFinite(config.sitePrefetchMaxBytes) || config.sitePrefetchMaxBytes < 0) {
+      throw new Error('Site prefetch max size must be a valid size, e.g. 5MiB');
+    }
+
+    if (config.sitePrefetchConcurrency < 1) {
+      throw new Error('Site prefetch concurrency must be at least 1');
+    }
+
+    // Pubkey Subdomain Configuration
+    if (!['npub', 'base36'].includes(config.canonicalPubkeyFormat)) {
+      throw new Error(
+        `Invalid canonical pubkey format: ${config.canonicalPubkeyFormat}. Must be npub or base36`
+      );
+    }
   }
 
   public isProduction(): boolean {
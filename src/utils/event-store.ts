@@ -0,0 +1,351 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import sqlite3 from 'sqlite3';
+import { NostrEvent } from '../types';
+import { logger } from './logger';
+
+// Relay lists, Blossom server lists, static file events, site manifests and deletion requests
+export const EVENT_STORE_KINDS = [10002, 10063, 34128, 15128, 35128, 5];
+
+// Most events returned for one filter
+const MAX_QUERY_LIMIT = 500;
+// How often events past the retention period are removed
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Columns of the NIP-01 filter fields that match a list of values
+const FILTER_COLUMNS = { ids: 'id', authors: 'pubkey', kinds: 'kind' } as const;
+
+export interface EventFilter {
+  ids?: string[];
+  authors?: string[];
+  kinds?: number[];
+  since?: number;
+  until?: number;
+  limit?: number;
+  // Single-letter tag filters, e.g. `#d`
+  [tag: `#${string}`]: string[] | undefined;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    pubkey TEXT NOT NULL,
+    kind INTEGER NOT NULL,
+    d TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expiration INTEGER,
+    seen_at INTEGER NOT NULL,
+    event TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS events_address ON events (pubkey, kind, d);
+  CREATE INDEX IF NOT EXISTS events_created_at ON events (created_at);
+  CREATE INDEX IF NOT EXISTS events_seen_at ON events (seen_at);
+  CREATE TABLE IF NOT EXISTS tags (
+    event_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    value TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tags_name_value ON tags (name, value);
+  CREATE INDEX IF NOT EXISTS tags_event_id ON tags (event_id);
+`;
+
+/**
+ * Persistent store of the verified events the gateway has seen, backed by SQLite
+ *
+ * Only the newest event of each replaceable (kind 10002, 10063, 15128) or addressable
+ * (kind 34128, 35128) address is kept, so the store holds the current state of every site it
+ * has seen. Deletion requests (kind 5) are regular events and are all kept, so deletions
+ * outlive restarts. Callers are expected to save events that already passed signature
+ * verification. Expired events (NIP-40) are never returned.
+ *
+ * With a retention period, events the gateway hasn't received again for that long, from a
+ * relay query or a subscription, are removed every hour along with expired events. Sites that
+ * are requested or updated keep being received, so the store holds the sites in use.
+ */
+export class EventStore {
+  private db: sqlite3.Database;
+  private ready: Promise<void>;
+  // Saves run one at a time, so the newest event of an address always wins
+  private writes: Promise<unknown> = Promise.resolve();
+  private listeners: Set<(event: NostrEvent) => void> = new Set();
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(path: string, retentionMs: number = 0) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new sqlite3.Database(path);
+    this.ready = this.exec(SCHEMA).then(() => {
+      logger.info(`Using event store at ${path}`);
+    });
+
+    if (retentionMs > 0) {
+      const prune = () =>
+        this.prune(Math.floor((Date.now() - retentionMs) / 1000))
+          .then((removed) => {
+            if (removed > 0) {
+              logger.info(`Removed ${removed} events past retention from the event store`);
+            }
+          })
+          .catch((error) => logger.warn('Failed to prune the event store:', error));
+      void prune();
+      this.pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+      this.pruneTimer.unref();
+    }
+  }
+
+  /**
+   * Store an event unless a newer event of the same address is already stored
+   * Returns whether the event was stored; listeners are told about stored events.
+   */
+  public save(event: NostrEvent): Promise<boolean> {
+    const write = this.writes.then(() => this.write(event));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Events matching any of the NIP-01 filters, newest first
+   */
+  public async query(filters: EventFilter[]): Promise<NostrEvent[]> {
+    await this.ready;
+
+    const events = new Map<string, NostrEvent>();
+    for (const filter of filters) {
+      for (const event of await this.queryFilter(filter)) {
+        events.set(event.id, event);
+      }
+    }
+
+    return Array.from(events.values()).sort(
+      (a, b) => b.created_at - a.created_at || a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * Remove the event of an address if it was created at or before `until`, e.g. because
+   * its author deleted it (NIP-09)
+   */
+  public deleteAddress(pubkey: string, kind: number, d: string, until: number): Promise<void> {
+    const write = this.writes.then(async () => {
+      await this.ready;
+      const row = await this.get<{ id: string }>(
+        'SELECT id FROM events WHERE pubkey = ? AND kind = ? AND d = ? AND created_at <= ?',
+        [pubkey, kind, d, until]
+      );
+      if (row) {
+        await this.remove(row.id);
+      }
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Remove the events last received before `before` (unix seconds) and the expired ones,
+   * returns the number of events removed
+   */
+  public prune(before: number): Promise<number> {
+    const write = this.writes.then(async () => {
+      await this.ready;
+      const rows = await this.all<{ id: string }>(
+        'SELECT id FROM events WHERE seen_at < ? OR expiration <= ?',
+        [before, Math.floor(Date.now() / 1000)]
+      );
+      for (const row of rows) {
+        await this.remove(row.id);
+      }
+      return rows.length;
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Call `listener` for every event stored from now on, returns a function that stops it
+   */
+  public onEvent(listener: (event: NostrEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public async count(): Promise<number> {
+    await this.ready;
+    const row = await this.get<{ count: number }>('SELECT COUNT(*) AS count FROM events', []);
+    return row?.count ?? 0;
+  }
+
+  public async close(): Promise<void> {
+    clearInterval(this.pruneTimer);
+    await this.ready.catch(() => undefined);
+    await this.writes;
+    await new Promise<void>((resolve, reject) =>
+      this.db.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async write(event: NostrEvent): Promise<boolean> {
+    await this.ready;
+
+    if (!EVENT_STORE_KINDS.includes(event.kind)) {
+      return false;
+    }
+
+    const expiration = EventStore.getExpiration(event);
+    if (expiration !== null && expiration <= Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    // A deletion request is a regular event, its id is its address
+    let d = event.kind === 5 ? event.id : '';
+    if (event.kind >= 30000) {
+      d = event.tags.find((tag) => tag[0] === 'd')?.[1] ?? '';
+    }
+    const existing = await this.get<{ id: string; created_at: number }>(
+      'SELECT id, created_at FROM events WHERE pubkey = ? AND kind = ? AND d = ?',
+      [event.pubkey, event.kind, d]
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    // Received again: keep it past the retention period
+    if (existing?.id === event.id) {
+      await this.run('UPDATE events SET seen_at = ? WHERE id = ?', [now, event.id]);
+      return false;
+    }
+
+    // Newest wins, ties go to the lowest id (NIP-01)
+    if (
+      existing &&
+      (existing.created_at > event.created_at ||
+        (existing.created_at === event.created_at && existing.id <= event.id))
+    ) {
+      return false;
+    }
+
+    await this.run('BEGIN', []);
+    try {
+      if (existing) {
+        await this.remove(existing.id);
+      }
+      await this.run(
+        'INSERT INTO events (id, pubkey, kind, d, created_at, expiration, seen_at, event) ' +
+          'VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          event.id,
+          event.pubkey,
+          event.kind,
+          d,
+          event.created_at,
+          expiration,
+          now,
+          JSON.stringify(event),
+        ]
+      );
+      for (const tag of event.tags) {
+        if (tag[0]?.length === 1 && tag[1] !== undefined) {
+          await this.run('INSERT INTO tags (event_id, name, value) VALUES (?, ?, ?)', [
+            event.id,
+            tag[0],
+            tag[1],
+          ]);
+        }
+      }
+      await this.run('COMMIT', []);
+    } catch (error) {
+      await this.run('ROLLBACK', []).catch(() => undefined);
+      throw error;
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Event store listener failed:', error);
+      }
+    });
+    return true;
+  }
+
+  private async remove(id: string): Promise<void> {
+    await this.run('DELETE FROM tags WHERE event_id = ?', [id]);
+    await this.run('DELETE FROM events WHERE id = ?', [id]);
+  }
+
+  private async queryFilter(filter: EventFilter): Promise<NostrEvent[]> {
+    const conditions = ['(expiration IS NULL OR expiration > ?)'];
+    const params: unknown[] = [Math.floor(Date.now() / 1000)];
+    const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+    for (const [key, value] of Object.entries(filter)) {
+      if (Array.isArray(value) && value.length === 0) {
+        // An empty list matches nothing
+        return [];
+      }
+
+      switch (key) {
+        case 'ids':
+        case 'authors':
+        case 'kinds':
+          if (Array.isArray(value)) {
+            conditions.push(`${FILTER_COLUMNS[key]} IN (${placeholders(value)})`);
+            params.push(...value);
+          }
+          break;
+        case 'since':
+        case 'until':
+          conditions.push(`created_at ${key === 'since' ? '>=' : '<='} ?`);
+          params.push(value);
+          break;
+        default:
+          if (/^#[a-zA-Z]$/.test(key) && Array.isArray(value)) {
+            const values = placeholders(value);
+            conditions.push(
+              `id IN (SELECT event_id FROM tags WHERE name = ? AND value IN (${values}))`
+            );
+            params.push(key.substring(1), ...value);
+          }
+      }
+    }
+
+    const limit = Math.min(filter.limit ?? MAX_QUERY_LIMIT, MAX_QUERY_LIMIT);
+    const rows = await this.all<{ event: string }>(
+      `SELECT event FROM events WHERE ${conditions.join(' AND ')} ` +
+        'ORDER BY created_at DESC, id ASC LIMIT ?',
+      [...params, limit]
+    );
+
+    return rows.map((row) => JSON.parse(row.event) as NostrEvent);
+  }
+
+  private static getExpiration(event: NostrEvent): number | null {
+    const value = Number(event.tags.find((tag) => tag[0] === 'expiration')?.[1]);
+    return Number.isInteger(value) ? value : null;
+  }
+
+  private exec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.db.exec(sql, (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private run(sql: string, params: unknown[]): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.db.run(sql, params, (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private get<T>(sql: string, params: unknown[]): Promise<T | undefined> {
+    return new Promise((resolve, reject) =>
+      this.db.get<T>(sql, params, (error, row) => (error ? reject(error) : resolve(row)))
+    );
+  }
+
+  private all<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return new Promise((resolve, reject) =>
+      this.db.all<T>(sql, params, (error, rows) => (error ? reject(error) : resolve(rows)))
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Racing of equivalent requests across several servers
+ *
+ * - sequential: try one candidate at a time, moving on when it fails
+ * - hedged: start the next candidate when the current one fails or after `hedgeDelayMs`
+ * - parallel: start every candidate at once
+ *
+ * The first successful result wins and every other in-flight attempt is aborted.
+ */
+
+export type FetchStrategy = 'sequential' | 'hedged' | 'parallel';
+
+export const FETCH_STRATEGIES: FetchStrategy[] = ['sequential', 'hedged', 'parallel'];
+
+export interface RaceOptions<C, T> {
+  strategy: FetchStrategy;
+  hedgeDelayMs: number;
+  // Called for attempts that fail before a winner is found
+  onError?: (candidate: C, error: unknown) => void;
+  // Called for attempts that succeed after the race was already won, so they can be released
+  onDiscard?: (candidate: C, result: T) => void;
+}
+
+export interface RaceWinner<C, T> {
+  candidate: C;
+  result: T;
+}
+
+export function raceCandidates<C, T>(
+  candidates: C[],
+  attempt: (candidate: C, signal: AbortSignal) => Promise<T>,
+  options: RaceOptions<C, T>
+): Promise<RaceWinner<C, T> | null> {
+  return new Promise((resolve) => {
+    const controllers: AbortController[] = [];
+    let nextIndex = 0;
+    let pending = 0;
+    let settled = false;
+    let hedgeTimer: NodeJS.Timeout | undefined;
+
+    const finish = (winner: RaceWinner<C, T> | null, winnerIndex = -1) => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      controllers.forEach((controller, index) => {
+        if (index !== winnerIndex) {
+          controller.abort();
+        }
+      });
+      resolve(winner);
+    };
+
+    const launch = () => {
+      if (settled || nextIndex >= candidates.length) {
+        return;
+      }
+
+      const index = nextIndex++;
+      const candidate = candidates[index];
+      const controller = new AbortController();
+      controllers[index] = controller;
+      pending++;
+
+      clearTimeout(hedgeTimer);
+      if (options.strategy === 'hedged' && nextIndex < candidates.length) {
+        hedgeTimer = setTimeout(launch, options.hedgeDelayMs);
+      }
+
+      attempt(candidate, controller.signal).then(
+        (result) => {
+          pending--;
+          if (settled) {
+            options.onDiscard?.(candidate, result);
+            return;
+          }
+          finish({ candidate, result }, index);
+        },
+        (error) => {
+          pending--;
+          if (settled) {
+            return;
+          }
+
+          options.onError?.(candidate, error);
+
+          if (nextIndex < candidates.length) {
+            launch();
+          } else if (pending === 0) {
+            finish(null);
+          }
+        }
+      );
+    };
+
+    if (candidates.length === 0) {
+      resolve(null);
+      return;
+    }
+
+    if (options.strategy === 'parallel') {
+      candidates.forEach(() => launch());
+    } else {
+      launch();
+    }
+  });
+}
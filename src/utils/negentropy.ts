@@ -0,0 +1,349 @@
+import { createHash } from 'crypto';
+
+/**
+ * Range-based set reconciliation for NIP-77 (negentropy protocol version 1)
+ *
+ * Both sides hold a set of events sorted by `created_at` and id. The initiator sends
+ * fingerprints of ranges of its set, the other side answers ranges that differ with finer
+ * fingerprints or, once a range is small enough, its ids. After a few round trips the
+ * initiator knows which ids only it has and which ids only the other side has.
+ * See https://github.com/hoytech/negentropy for the protocol description.
+ */
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+// Ranges with fewer than BUCKETS * 2 items are sent as id lists instead of being split
+const BUCKETS = 16;
+
+enum Mode {
+  Skip = 0,
+  Fingerprint = 1,
+  IdList = 2,
+}
+
+export interface NegentropyItem {
+  id: string;
+  created_at: number;
+}
+
+export interface ReconcileResult {
+  // Next message to send, null once the initiator is done
+  message: string | null;
+  // Ids only we have (initiator only)
+  have: string[];
+  // Ids only the other side has (initiator only)
+  need: string[];
+}
+
+// An item, or a range bound whose id is a prefix of up to 32 bytes
+interface Bound {
+  timestamp: number;
+  id: Buffer;
+}
+
+class Reader {
+  private buffer: Buffer;
+  private offset = 0;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  public get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  public bytes(length: number): Buffer {
+    if (this.remaining < length) {
+      throw new Error('negentropy message ends prematurely');
+    }
+    this.offset += length;
+    return this.buffer.subarray(this.offset - length, this.offset);
+  }
+
+  public varint(): number {
+    let value = 0;
+    for (;;) {
+      const byte = this.bytes(1)[0];
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+  }
+}
+
+class Writer {
+  private chunks: Buffer[] = [];
+  public length = 0;
+
+  public bytes(bytes: Buffer | number[]): void {
+    const chunk = Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes);
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  // Big-endian base 128, all bytes but the last have the high bit set
+  public varint(value: number): void {
+    const bytes = [value % 128];
+    for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+      bytes.unshift((rest % 128) | 0x80);
+    }
+    this.bytes(bytes);
+  }
+
+  public append(other: Writer): void {
+    other.chunks.forEach((chunk) => this.bytes(chunk));
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  public toHex(): string {
+    return this.toBuffer().toString('hex');
+  }
+}
+
+const compareBounds = (a: Bound, b: Bound): number =>
+  a.timestamp === b.timestamp ? Buffer.compare(a.id, b.id) : a.timestamp - b.timestamp;
+
+export class Negentropy {
+  private items: Bound[];
+  private isInitiator = false;
+  // Timestamps are delta encoded within a message
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(items: NegentropyItem[]) {
+    const sorted = items
+      .map((item) => ({ timestamp: item.created_at, id: Buffer.from(item.id, 'hex') }))
+      .filter((item) => item.id.length === ID_SIZE)
+      .sort(compareBounds);
+
+    this.items = sorted.filter(
+      (item, index) => index === 0 || compareBounds(sorted[index - 1], item) !== 0
+    );
+  }
+
+  /**
+   * First message of a reconciliation, sent in `NEG-OPEN`
+   */
+  public initiate(): string {
+    this.isInitiator = true;
+    this.lastTimestampOut = 0;
+
+    const output = new Writer();
+    output.bytes([PROTOCOL_VERSION]);
+    this.splitRange(0, this.items.length, { timestamp: Infinity, id: Buffer.alloc(0) }, output);
+
+    return output.toHex();
+  }
+
+  /**
+   * Process a message from the other side and produce the answer
+   */
+  public reconcile(message: string): ReconcileResult {
+    const query = new Reader(Buffer.from(message, 'hex'));
+    const result: ReconcileResult = { message: null, have: [], need: [] };
+    this.lastTimestampIn = 0;
+    this.lastTimestampOut = 0;
+
+    const output = new Writer();
+    output.bytes([PROTOCOL_VERSION]);
+
+    const version = query.bytes(1)[0];
+    if (version < 0x60 || version > 0x6f) {
+      throw new Error('invalid negentropy protocol version byte');
+    }
+    if (version !== PROTOCOL_VERSION) {
+      if (this.isInitiator) {
+        throw new Error(`unsupported negentropy protocol version ${version - 0x60}`);
+      }
+      // Tell the initiator which version we speak
+      result.message = output.toHex();
+      return result;
+    }
+
+    let prevBound: Bound = { timestamp: 0, id: Buffer.alloc(0) };
+    let prevIndex = 0;
+    let skip = false;
+
+    while (query.remaining > 0) {
+      const o = new Writer();
+      // Ranges that matched are sent as one skip, right before the next range that didn't
+      const flushSkip = () => {
+        if (skip) {
+          skip = false;
+          this.writeBound(o, prevBound);
+          o.varint(Mode.Skip);
+        }
+      };
+
+      const currBound = this.readBound(query);
+      const mode = query.varint();
+      const lower = prevIndex;
+      const upper = this.findLowerBound(prevIndex, this.items.length, currBound);
+
+      if (mode === Mode.Skip) {
+        skip = true;
+      } else if (mode === Mode.Fingerprint) {
+        const theirFingerprint = query.bytes(FINGERPRINT_SIZE);
+        if (theirFingerprint.equals(this.fingerprint(lower, upper))) {
+          skip = true;
+        } else {
+          flushSkip();
+          this.splitRange(lower, upper, currBound, o);
+        }
+      } else if (mode === Mode.IdList) {
+        const count = query.varint();
+        const theirIds = new Set<string>();
+        for (let i = 0; i < count; i++) {
+          theirIds.add(query.bytes(ID_SIZE).toString('hex'));
+        }
+
+        if (this.isInitiator) {
+          skip = true;
+          for (const item of this.items.slice(lower, upper)) {
+            const id = item.id.toString('hex');
+            if (!theirIds.delete(id)) {
+              result.have.push(id);
+            }
+          }
+          result.need.push(...theirIds);
+        } else {
+          flushSkip();
+          this.writeBound(o, currBound);
+          o.varint(Mode.IdList);
+          o.varint(upper - lower);
+          this.items.slice(lower, upper).forEach((item) => o.bytes(item.id));
+        }
+      } else {
+        throw new Error(`unexpected negentropy mode ${mode}`);
+      }
+
+      output.append(o);
+      prevIndex = upper;
+      prevBound = currBound;
+    }
+
+    // The initiator is done once nothing is left to ask about
+    result.message = this.isInitiator && output.length === 1 ? null : output.toHex();
+    return result;
+  }
+
+  /**
+   * Describe a range: its ids if it is small, otherwise fingerprints of 16 sub-ranges
+   */
+  private splitRange(lower: number, upper: number, upperBound: Bound, output: Writer): void {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      this.writeBound(output, upperBound);
+      output.varint(Mode.IdList);
+      output.varint(count);
+      this.items.slice(lower, upper).forEach((item) => output.bytes(item.id));
+      return;
+    }
+
+    const perBucket = Math.floor(count / BUCKETS);
+    const withExtra = count % BUCKETS;
+    let current = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const fingerprint = this.fingerprint(current, current + perBucket + (i < withExtra ? 1 : 0));
+      current += perBucket + (i < withExtra ? 1 : 0);
+
+      const bound =
+        current === upper
+          ? upperBound
+          : Negentropy.minimalBound(this.items[current - 1], this.items[current]);
+      this.writeBound(output, bound);
+      output.varint(Mode.Fingerprint);
+      output.bytes(fingerprint);
+    }
+  }
+
+  /**
+   * Index of the first item in [begin, end) at or after the bound
+   */
+  private findLowerBound(begin: number, end: number, bound: Bound): number {
+    let low = begin;
+    let high = end;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (compareBounds(this.items[middle], bound) < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * SHA-256 of the sum of the ids (256-bit little-endian, wrapping) and the item count
+   */
+  private fingerprint(begin: number, end: number): Buffer {
+    const sum = Buffer.alloc(ID_SIZE);
+    for (const item of this.items.slice(begin, end)) {
+      let carry = 0;
+      for (let i = 0; i < ID_SIZE; i++) {
+        const value = sum[i] + item.id[i] + carry;
+        sum[i] = value & 0xff;
+        carry = value >> 8;
+      }
+    }
+
+    const count = new Writer();
+    count.varint(end - begin);
+    return createHash('sha256')
+      .update(sum)
+      .update(count.toBuffer())
+      .digest()
+      .subarray(0, FINGERPRINT_SIZE);
+  }
+
+  /**
+   * Shortest bound that sorts after `prev` and at or before `curr`
+   */
+  private static minimalBound(prev: Bound, curr: Bound): Bound {
+    if (curr.timestamp !== prev.timestamp) {
+      return { timestamp: curr.timestamp, id: Buffer.alloc(0) };
+    }
+
+    let shared = 0;
+    while (shared < ID_SIZE && curr.id[shared] === prev.id[shared]) {
+      shared++;
+    }
+    return { timestamp: curr.timestamp, id: curr.id.subarray(0, shared + 1) };
+  }
+
+  private writeBound(output: Writer, bound: Bound): void {
+    if (bound.timestamp === Infinity) {
+      this.lastTimestampOut = Infinity;
+      output.varint(0);
+    } else {
+      output.varint(bound.timestamp - this.lastTimestampOut + 1);
+      this.lastTimestampOut = bound.timestamp;
+    }
+    output.varint(bound.id.length);
+    output.bytes(bound.id);
+  }
+
+  private readBound(input: Reader): Bound {
+    const encoded = input.varint();
+    if (encoded === 0 || this.lastTimestampIn === Infinity) {
+      this.lastTimestampIn = Infinity;
+    } else {
+      this.lastTimestampIn += encoded - 1;
+    }
+
+    const length = input.varint();
+    if (length > ID_SIZE) {
+      throw new Error('negentropy bound id is too long');
+    }
+    return { timestamp: this.lastTimestampIn, id: Buffer.from(input.bytes(length)) };
+  }
+}
@@ -0,0 +1,314 @@
+import { createHash } from 'crypto';
+import { mkdirSync } from 'fs';
+import { access, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ParsedEvent, SiteManifest } from '../types';
+import { logger } from './logger';
+import { decodePubkey } from './signer';
+
+// Blob file names; hashes from events are checked against it before touching the disk
+const SHA256_REGEX = /^[0-9a-f]{64}$/;
+
+export interface PinnedSite {
+  // Newest mapping of every path of the site
+  paths: ParsedEvent[];
+  // Manifest of the root site and of every named site
+  manifests: SiteManifest[];
+  // Path → created_at up to which it is deleted (NIP-09)
+  deletedPaths: Record<string, number>;
+  // Identifier ('' for the root site) → created_at up to which its manifest is deleted
+  deletedSites: Record<string, number>;
+  // When the path table was last loaded from relays (ms)
+  refreshedAt: number;
+}
+
+/**
+ * Durable copy of the pinned sites (`pinnedPubkeys`), kept on disk without a TTL
+ *
+ * Each pinned pubkey has its path table and site manifests in `sites/<pubkey>.json`, and the
+ * blobs they point to are kept in `blobs/<sha256>`. Blobs are only stored when their content
+ * matches the hash. Files of pubkeys that are no longer pinned are removed by `removeUnused`.
+ *
+ * Deletions (NIP-09) are kept with the site too: relays that honor them stop returning the
+ * deleted event, and the cache that first saw the deletion expires, so the store is the only
+ * place left that remembers a deleted path or manifest must not come back.
+ */
+export class PinnedSiteStore {
+  private directory: string;
+  private pubkeys: Set<string>;
+  // Path tables read from disk so far, by pubkey
+  private sites: Map<string, PinnedSite | null> = new Map();
+  // Pending write of each site file, so writes of the same file never overlap
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string, pubkeys: string[]) {
+    this.directory = directory;
+    this.pubkeys = new Set(
+      pubkeys.map((value) => decodePubkey(value)).filter((pubkey): pubkey is string => !!pubkey)
+    );
+
+    mkdirSync(join(directory, 'sites'), { recursive: true });
+    mkdirSync(join(directory, 'blobs'), { recursive: true });
+    logger.info(`Using pinned site store at ${directory} for ${this.pubkeys.size} pubkeys`);
+  }
+
+  public isPinned(pubkey: string): boolean {
+    return this.pubkeys.has(pubkey);
+  }
+
+  public getPubkeys(): string[] {
+    return Array.from(this.pubkeys);
+  }
+
+  public async getSite(pubkey: string): Promise<PinnedSite | null> {
+    if (!this.isPinned(pubkey)) {
+      return null;
+    }
+
+    if (!this.sites.has(pubkey)) {
+      const site = await this.readJson<PinnedSite>(this.sitePath(pubkey));
+      this.sites.set(pubkey, site);
+    }
+    return this.sites.get(pubkey) ?? null;
+  }
+
+  /**
+   * Stored mapping of a path of a pinned site, unless it has expired (NIP-40)
+   */
+  public async getMapping(pubkey: string, path: string): Promise<ParsedEvent | null> {
+    const site = await this.getSite(pubkey);
+    const mapping = site?.paths.find((candidate) => candidate.path === path);
+    if (!mapping) {
+      return null;
+    }
+
+    return PinnedSiteStore.isExpired(mapping) ? null : mapping;
+  }
+
+  /**
+   * Stored manifest of the root site or a named site, unless it has expired (NIP-40)
+   */
+  public async getManifest(pubkey: string, identifier?: string): Promise<SiteManifest | null> {
+    const site = await this.getSite(pubkey);
+    const manifest = site?.manifests.find(
+      (candidate) => (candidate.identifier || '') === (identifier || '')
+    );
+    return manifest && !PinnedSiteStore.isExpired(manifest) ? manifest : null;
+  }
+
+  /**
+   * Replace the path table and manifests of a pinned site
+   * Deletions already stored are kept, and paths and manifests they cover are left out.
+   */
+  public setSite(pubkey: string, site: PinnedSite): Promise<void> {
+    return this.update(pubkey, (current) => ({
+      ...site,
+      deletedPaths: PinnedSiteStore.mergeDeletions(current.deletedPaths, site.deletedPaths),
+      deletedSites: PinnedSiteStore.mergeDeletions(current.deletedSites, site.deletedSites),
+    }));
+  }
+
+  /**
+   * Record the deletion of a path of a pinned site, dropping its mapping if it is covered
+   */
+  public deletePath(pubkey: string, path: string, deletedAt: number): Promise<void> {
+    return this.update(pubkey, (current) => ({
+      ...current,
+      deletedPaths: PinnedSiteStore.mergeDeletions(current.deletedPaths, { [path]: deletedAt }),
+    }));
+  }
+
+  /**
+   * Record the deletion of a manifest of a pinned site, dropping it if it is covered
+   */
+  public deleteSite(
+    pubkey: string,
+    identifier: string | undefined,
+    deletedAt: number
+  ): Promise<void> {
+    return this.update(pubkey, (current) => ({
+      ...current,
+      deletedSites: PinnedSiteStore.mergeDeletions(current.deletedSites, {
+        [identifier || '']: deletedAt,
+      }),
+    }));
+  }
+
+  public async getBlob(sha256: string): Promise<Uint8Array | null> {
+    if (!SHA256_REGEX.test(sha256)) {
+      return null;
+    }
+
+    try {
+      return new Uint8Array(await readFile(this.blobPath(sha256)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read pinned blob ${sha256.substring(0, 8)}...:`, error);
+      }
+      return null;
+    }
+  }
+
+  public async hasBlob(sha256: string): Promise<boolean> {
+    if (!SHA256_REGEX.test(sha256)) {
+      return false;
+    }
+
+    try {
+      await access(this.blobPath(sha256));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store a blob, returns false if its content doesn't match the hash
+   */
+  public async saveBlob(sha256: string, content: Uint8Array): Promise<boolean> {
+    if (!SHA256_REGEX.test(sha256)) {
+      return false;
+    }
+
+    const actual = createHash('sha256').update(content).digest('hex');
+    if (actual !== sha256) {
+      logger.warn(`Not pinning blob ${sha256.substring(0, 8)}...: content hashes to ${actual}`);
+      return false;
+    }
+
+    const path = this.blobPath(sha256);
+    await writeFile(`${path}.tmp`, content);
+    await rename(`${path}.tmp`, path);
+    return true;
+  }
+
+  /**
+   * Remove the path tables of pubkeys that are no longer pinned and the blobs no pinned
+   * path or manifest points to, returns the number of removed blobs
+   */
+  public async removeUnused(): Promise<number> {
+    const used = new Set<string>();
+    for (const pubkey of this.pubkeys) {
+      for (const sha256 of PinnedSiteStore.getBlobs(await this.getSite(pubkey))) {
+        used.add(sha256);
+      }
+    }
+
+    for (const file of await readdir(join(this.directory, 'sites'))) {
+      if (!this.isPinned(file.replace(/\.json$/, ''))) {
+        await unlink(join(this.directory, 'sites', file));
+      }
+    }
+
+    let removed = 0;
+    for (const file of await readdir(join(this.directory, 'blobs'))) {
+      if (!used.has(file)) {
+        await unlink(join(this.directory, 'blobs', file));
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Hashes of every blob a pinned site points to, from its paths and manifests
+   */
+  public static getBlobs(site: PinnedSite | null): Set<string> {
+    const blobs = new Set<string>();
+    site?.paths.forEach((mapping) => blobs.add(mapping.sha256));
+    site?.manifests.forEach((manifest) => {
+      Object.values(manifest.paths).forEach((sha256) => blobs.add(sha256));
+    });
+    return blobs;
+  }
+
+  /**
+   * Change the stored copy of a pinned site and write it to disk
+   * The change is applied to the newest copy in memory, so concurrent changes don't undo
+   * each other.
+   */
+  private async update(
+    pubkey: string,
+    change: (current: PinnedSite) => PinnedSite
+  ): Promise<void> {
+    if (!this.isPinned(pubkey)) {
+      return;
+    }
+
+    await this.getSite(pubkey);
+    const site = change(
+      this.sites.get(pubkey) ?? {
+        paths: [],
+        manifests: [],
+        deletedPaths: {},
+        deletedSites: {},
+        refreshedAt: 0,
+      }
+    );
+    this.sites.set(pubkey, {
+      ...site,
+      paths: site.paths.filter(
+        (mapping) =>
+          mapping.created_at > PinnedSiteStore.getDeletion(site.deletedPaths, mapping.path)
+      ),
+      manifests: site.manifests.filter(
+        (manifest) =>
+          manifest.created_at >
+          PinnedSiteStore.getDeletion(site.deletedSites, manifest.identifier || '')
+      ),
+    });
+    await this.write(pubkey);
+  }
+
+  private write(pubkey: string): Promise<void> {
+    const write = (this.writes.get(pubkey) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        // Written to a temporary file first, so a crash never leaves half a table behind
+        const path = this.sitePath(pubkey);
+        await writeFile(`${path}.tmp`, JSON.stringify(this.sites.get(pubkey)));
+        await rename(`${path}.tmp`, path);
+      });
+    this.writes.set(pubkey, write);
+    return write;
+  }
+
+  private static mergeDeletions(
+    current: Record<string, number>,
+    added: Record<string, number>
+  ): Record<string, number> {
+    // Keys come from events (`d` tags), so they are never used as plain property names
+    const merged = new Map(Object.entries(current));
+    for (const [key, deletedAt] of Object.entries(added)) {
+      merged.set(key, Math.max(merged.get(key) ?? 0, deletedAt));
+    }
+    return Object.fromEntries(merged);
+  }
+
+  private static getDeletion(deletions: Record<string, number>, key: string): number {
+    return Object.prototype.hasOwnProperty.call(deletions, key) ? deletions[key] : 0;
+  }
+
+  private static isExpired(value: { expiration?: number }): boolean {
+    return value.expiration !== undefined && value.expiration * 1000 <= Date.now();
+  }
+
+  private sitePath(pubkey: string): string {
+    return join(this.directory, 'sites', `${pubkey}.json`);
+  }
+
+  private blobPath(sha256: string): string {
+    return join(this.directory, 'blobs', sha256);
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read ${path}:`, error);
+      }
+      return null;
+    }
+  }
+}
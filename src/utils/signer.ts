@@ -0,0 +1,82 @@
+import { EventTemplate, finalizeEvent, getPublicKey, nip19, VerifiedEvent } from 'nostr-tools';
+
+/**
+ * Identity of the gateway, used to answer NIP-42 AUTH challenges of relays that require it
+ *
+ * `SecretKeySigner` signs with a configured secret key. A remote signer (e.g. a NIP-46 bunker
+ * or a KMS) can be plugged in by implementing this interface and handing it to `NostrHelper`
+ * and `CacheInvalidationService`.
+ */
+export interface GatewaySigner {
+  getPublicKey(): Promise<string>;
+  signEvent(event: EventTemplate): Promise<VerifiedEvent>;
+}
+
+export class SecretKeySigner implements GatewaySigner {
+  private secretKey: Uint8Array;
+
+  constructor(secretKey: Uint8Array) {
+    this.secretKey = secretKey;
+  }
+
+  public async getPublicKey(): Promise<string> {
+    return getPublicKey(this.secretKey);
+  }
+
+  public async signEvent(event: EventTemplate): Promise<VerifiedEvent> {
+    return finalizeEvent(event, this.secretKey);
+  }
+}
+
+/**
+ * Decode a secret key given as an nsec or as 64 hex characters
+ */
+export function decodeSecretKey(value: string): Uint8Array {
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return new Uint8Array(Buffer.from(value, 'hex'));
+  }
+
+  try {
+    const decoded = nip19.decode(value);
+    if (decoded.type === 'nsec') {
+      return decoded.data;
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new Error('Invalid secret key: expected an nsec or 64 hex characters');
+}
+
+/**
+ * Decode a configured pubkey given as an npub or 64 hex characters, null if it is neither
+ */
+export function decodePubkey(value: string): string | null {
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return value.toLowerCase();
+  }
+
+  try {
+    const decoded = nip19.decode(value);
+    return decoded.type === 'npub' ? decoded.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signer for a configured secret key, null when none is configured
+ */
+export function createGatewaySigner(secretKey: string): GatewaySigner | null {
+  return secretKey ? new SecretKeySigner(decodeSecretKey(secretKey)) : null;
+}
+
+/**
+ * Whether a relay is one the gateway opted in to authenticate to
+ * URLs are compared case-insensitively and without trailing slashes.
+ */
+export function isAuthRelay(relayUrl: string, authRelays: string[]): boolean {
+  const normalize = (url: string) => url.trim().toLowerCase().replace(/\/+$/, '');
+  const relay = normalize(relayUrl);
+  return authRelays.some((authRelay) => normalize(authRelay) === relay);
+}
@@ -0,0 +1,64 @@
+/**
+ * Coalescing of concurrent calls for the same key
+ *
+ * The first caller for a key (the leader) runs the call. Callers arriving while it is still
+ * in flight (followers) get the leader's promise instead of starting a call of their own.
+ * Nothing is remembered once the call settles, caching is left to the caller.
+ */
+
+export interface SingleFlightStats {
+  calls: number;
+  // Calls that awaited another caller's promise instead of running their own
+  deduplicated: number;
+  dedupRate: number;
+  inFlight: number;
+}
+
+export class SingleFlight {
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private calls = 0;
+  private deduplicated = 0;
+
+  /**
+   * Run `fn` for a key, or join the call already in flight for it
+   */
+  public run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    this.calls++;
+
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.deduplicated++;
+      return existing as Promise<T>;
+    }
+
+    const call = fn().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, call);
+
+    return call;
+  }
+
+  /**
+   * Join the call in flight for a key without starting one, null if there is none
+   */
+  public join<T>(key: string): Promise<T> | null {
+    const existing = this.inFlight.get(key);
+    if (!existing) {
+      return null;
+    }
+
+    this.calls++;
+    this.deduplicated++;
+    return existing as Promise<T>;
+  }
+
+  public getStats(): SingleFlightStats {
+    return {
+      calls: this.calls,
+      deduplicated: this.deduplicated,
+      dedupRate: this.calls > 0 ? Math.round((this.deduplicated / this.calls) * 1000) / 1000 : 0,
+      inFlight: this.inFlight.size,
+    };
+  }
+}